@@ -102,7 +102,7 @@ const loadAndConcatenateVideos = async () => {
       await roll.init();
     }
 
-    // roll.setOnRollEnd(() => {
+    // roll.on('rollEnd', () => {
     //   // roll!.resetQueueIndex();
     //   updateStatus('Roll ended', 'info');
     // });
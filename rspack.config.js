@@ -17,6 +17,7 @@ export default defineConfig({
     main: "./examples/demo.ts",
   } : {
     index: "./src/index.ts",
+    testing: "./src/testing/index.ts",
   },
   resolve: {
     extensions: [".ts", ".tsx", ".js", ".jsx"],
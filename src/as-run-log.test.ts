@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AsRunLog } from './as-run-log';
+import { TypedEventEmitter } from './event-emitter';
+import { Playlist } from './playlist';
+import { Roll, RollEvents } from './roll';
+import { FakeClock, fakeMediaData } from './testing';
+import { QueueItem } from './types/database';
+
+/**
+ * Emits the item events of a Roll without playing anything
+ */
+class TestRoll extends TypedEventEmitter<RollEvents> {
+  start(item: QueueItem, offset = 0): void {
+    this.emit('itemStart', { item, offset });
+  }
+
+  end(item: QueueItem, offset: number, interruption: string | null = null): void {
+    this.emit('itemEnd', { item, offset, interruption });
+  }
+}
+
+let databaseCount = 0;
+const logs: AsRunLog[] = [];
+
+function setup() {
+  const clock = new FakeClock(Date.UTC(2026, 9, 19, 18));
+  const log = new AsRunLog({ dbName: `as-run-test-${++databaseCount}`, clock });
+  logs.push(log);
+  const roll = new TestRoll();
+  log.attach(roll as unknown as Roll);
+  return { clock, log, roll };
+}
+
+function item(id: number, metadata: Record<string, unknown> = {}): QueueItem {
+  return { id, blob: new Blob(), queueIndex: id, metadata: { filename: `item-${id}.mp4`, ...metadata } };
+}
+
+afterEach(() => {
+  for (const log of logs.splice(0)) {
+    log.close();
+  }
+});
+
+describe('AsRunLog', () => {
+  it('records each airing when it starts and completes it when it ends', async () => {
+    const { clock, log, roll } = setup();
+    const start = clock.now();
+    const news = item(1, { media: { duration: 30 }, category: 'news' });
+
+    roll.start(news, 5);
+    await clock.advance(10000);
+    roll.end(news, 15, 'playNow');
+    roll.start(item(2));
+
+    const [first, second] = await log.query();
+    expect(first).toEqual({
+      id: 1,
+      itemId: 1,
+      filename: 'item-1.mp4',
+      metadata: { filename: 'item-1.mp4', category: 'news' },
+      start,
+      end: start + 10000,
+      startOffset: 5,
+      playedSeconds: 10,
+      interruption: 'playNow',
+    });
+    expect(second).toMatchObject({ itemId: 2, start: start + 10000, end: null, playedSeconds: null });
+  });
+
+  it('returns the airings that overlap a time range, counting open ones as lasting until now', async () => {
+    const { clock, log, roll } = setup();
+    const start = clock.now();
+    for (const id of [1, 2, 3]) {
+      roll.start(item(id));
+      await clock.advance(1000);
+      roll.end(item(id), 1);
+    }
+    roll.start(item(4));
+    await clock.advance(1000);
+
+    const ids = async (from?: number, to?: number) => (await log.query(from, to)).map((record) => record.itemId);
+    expect(await ids()).toEqual([1, 2, 3, 4]);
+    expect(await ids(start + 1500, start + 2500)).toEqual([2, 3]);
+    expect(await ids(start + 3500)).toEqual([4]);
+  });
+
+  it('exports CSV with ISO times and quoted fields, and JSON', async () => {
+    const { clock, log, roll } = setup();
+    const quoted = item(1, { filename: 'a, "b".mp4' });
+    roll.start(quoted);
+    await clock.advance(2000);
+    roll.end(quoted, 2);
+
+    const [header, row, last] = (await log.exportCsv()).split('\r\n');
+    expect(header).toBe('id,itemId,filename,start,end,startOffset,playedSeconds,interruption,metadata');
+    expect(row).toBe(
+      '1,1,"a, ""b"".mp4",2026-10-19T18:00:00.000Z,2026-10-19T18:00:02.000Z,0,2,,"{""filename"":""a, \\""b\\"".mp4""}"'
+    );
+    expect(last).toBe('');
+    expect(JSON.parse(await log.exportJson())).toEqual(await log.query());
+
+    await log.clear();
+    expect(await log.query()).toEqual([]);
+  });
+
+  it('shares a database with a playlist', async () => {
+    const dbName = `as-run-test-${++databaseCount}`;
+    const playlist = new Playlist(dbName);
+    await playlist.init();
+    const id = await playlist.add(new Blob([fakeMediaData(2)]), { filename: 'shared' });
+
+    const log = new AsRunLog({ dbName });
+    logs.push(log);
+    await log.init();
+    expect(await log.query()).toEqual([]);
+
+    // The playlist's connection closed for the upgrade and reopens when next used
+    expect((await playlist.getItem(id))?.metadata.filename).toBe('shared');
+    playlist.close();
+  });
+});
@@ -0,0 +1,323 @@
+import { Clock, systemClock } from './environment';
+import { openDatabase } from './open-database';
+import { Roll, RollItemEndEvent, RollItemEvent } from './roll';
+import { QueueItemMetadata } from './types/database';
+
+/**
+ * One airing of an item, as it was seen to play
+ */
+export interface AsRunRecord {
+  /** Auto-increment key in IndexedDB */
+  id?: number;
+  itemId: number | undefined;
+  filename: string | null;
+  /** The item's metadata when it started, without the probed `media` facts */
+  metadata: QueueItemMetadata;
+  /** Wall-clock start, in milliseconds since the epoch */
+  start: number;
+  /** Wall-clock end; null while the item is on air, or when playout stopped without ending it */
+  end: number | null;
+  /** Offset from the item's in point it started at, in seconds; non-zero after a seek or a resume */
+  startOffset: number;
+  /** Seconds of the item that played; null until it ends */
+  playedSeconds: number | null;
+  /** Why the item stopped before its end, as reported by Roll's itemEnd; null when it played out */
+  interruption: string | null;
+}
+
+/**
+ * Options for the AsRunLog constructor
+ */
+export interface AsRunLogOptions {
+  /**
+   * Name of the IndexedDB database; share the Playlist's to keep the log next to it
+   * Default: 'playlist-db'
+   */
+  dbName?: string;
+  /**
+   * Name of the object store, added to the database if it is missing
+   * Default: 'as-run'
+   */
+  storeName?: string;
+  /**
+   * Clock the wall-clock times are read from
+   * Default: systemClock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Columns of the CSV export, in order
+ */
+const CSV_COLUMNS = [
+  'id',
+  'itemId',
+  'filename',
+  'start',
+  'end',
+  'startOffset',
+  'playedSeconds',
+  'interruption',
+  'metadata',
+] as const;
+
+/**
+ * As-run log: a record of everything that aired, kept in its own IndexedDB object store
+ * Attached to a Roll, it writes a record when an item starts playing and completes it when the item ends
+ */
+export class AsRunLog {
+  private readonly dbName: string;
+  private readonly storeName: string;
+  private readonly clock: Clock;
+  private db: IDBDatabase | null = null;
+  /** Key of the record of the item on air, once written */
+  private openRecord: Promise<number | null> | null = null;
+  /** Writes in progress, in order */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: AsRunLogOptions = {}) {
+    this.dbName = options.dbName ?? 'playlist-db';
+    this.storeName = options.storeName ?? 'as-run';
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Opens the database, adding the log's object store when it is missing
+   */
+  async init(): Promise<void> {
+    this.db = await openDatabase({
+      dbName: this.dbName,
+      storeName: this.storeName,
+      createStore: (db) => {
+        const objectStore = db.createObjectStore(this.storeName, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+
+        // Time range queries walk the records by start time
+        objectStore.createIndex('start', 'start', { unique: false });
+      },
+      onClose: () => {
+        this.db = null;
+      },
+    });
+  }
+
+  private async getDB(): Promise<IDBDatabase> {
+    if (!this.db) {
+      await this.init();
+    }
+    if (!this.db) {
+      throw new Error('Database initialization failed');
+    }
+    return this.db;
+  }
+
+  /**
+   * Starts logging the airings of a roll
+   * @returns Function that stops logging; the record of the item on air is left open
+   */
+  attach(roll: Roll): () => void {
+    const removeStart = roll.on('itemStart', (event) => this.handleItemStart(event));
+    const removeEnd = roll.on('itemEnd', (event) => this.handleItemEnd(event));
+    return () => {
+      removeStart();
+      removeEnd();
+    };
+  }
+
+  private handleItemStart({ item, offset }: RollItemEvent): void {
+    const { media: _media, ...metadata } = item.metadata;
+    const record: AsRunRecord = {
+      itemId: item.id,
+      filename: typeof item.metadata.filename === 'string' ? item.metadata.filename : null,
+      metadata,
+      start: this.clock.now(),
+      end: null,
+      startOffset: offset,
+      playedSeconds: null,
+      interruption: null,
+    };
+
+    const written = this.enqueue(() => this.add(record));
+    this.openRecord = written;
+  }
+
+  private handleItemEnd({ offset, interruption }: RollItemEndEvent): void {
+    const opened = this.openRecord;
+    if (!opened) {
+      return;
+    }
+    this.openRecord = null;
+
+    const end = this.clock.now();
+    this.enqueue(async () => {
+      const id = await opened;
+      if (id !== null) {
+        await this.update(id, (record) => ({
+          ...record,
+          end,
+          playedSeconds: Math.max(0, offset - record.startOffset),
+          interruption,
+        }));
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Runs writes one after the other, so an item's end is never written before its start
+   * Failures are logged; a failed start leaves its end unwritten
+   */
+  private enqueue(write: () => Promise<number | null>): Promise<number | null> {
+    const result = this.writes.then(write).catch((error) => {
+      console.error('AsRunLog: failed to write record', error);
+      return null;
+    });
+    this.writes = result.then(() => undefined);
+    return result;
+  }
+
+  private async add(record: AsRunRecord): Promise<number> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.storeName], 'readwrite');
+    const store = transaction.objectStore(this.storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.add(record);
+
+      request.onsuccess = () => {
+        resolve(request.result as number);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to add as-run record: ${request.error?.message}`));
+      };
+    });
+  }
+
+  private async update(id: number, change: (record: AsRunRecord) => AsRunRecord): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.storeName], 'readwrite');
+    const store = transaction.objectStore(this.storeName);
+
+    return new Promise((resolve, reject) => {
+      const getRequest = store.get(id);
+
+      getRequest.onsuccess = () => {
+        const record = getRequest.result as AsRunRecord | undefined;
+        if (!record) {
+          reject(new Error(`As-run record ${id} not found`));
+          return;
+        }
+
+        const updateRequest = store.put(change(record));
+
+        updateRequest.onsuccess = () => {
+          resolve();
+        };
+
+        updateRequest.onerror = () => {
+          reject(new Error(`Failed to update as-run record: ${updateRequest.error?.message}`));
+        };
+      };
+
+      getRequest.onerror = () => {
+        reject(new Error(`Failed to get as-run record: ${getRequest.error?.message}`));
+      };
+    });
+  }
+
+  /**
+   * Returns the records of airings that overlap a time range, oldest first
+   * Records still on air count as lasting until now
+   * @param from - Start of the range, in milliseconds since the epoch; default: the beginning of the log
+   * @param to - End of the range, exclusive; default: no end
+   */
+  async query(from: number = 0, to: number = Infinity): Promise<AsRunRecord[]> {
+    await this.writes;
+    const db = await this.getDB();
+    const transaction = db.transaction([this.storeName], 'readonly');
+    const index = transaction.objectStore(this.storeName).index('start');
+    const now = this.clock.now();
+
+    return new Promise((resolve, reject) => {
+      // Airings that started before the range may reach into it, so only the upper bound narrows the walk
+      const request = index.getAll(Number.isFinite(to) ? IDBKeyRange.upperBound(to, true) : undefined);
+
+      request.onsuccess = () => {
+        const records = request.result as AsRunRecord[];
+        resolve(records.filter((record) => (record.end ?? now) >= from && record.start < to));
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to query as-run log: ${request.error?.message}`));
+      };
+    });
+  }
+
+  /**
+   * Exports the records of a time range as CSV, one row per airing
+   * Times are ISO 8601 strings; the metadata snapshot is a JSON column
+   */
+  async exportCsv(from?: number, to?: number): Promise<string> {
+    const records = await this.query(from, to);
+    const rows = records.map((record) =>
+      CSV_COLUMNS.map((column) => {
+        const value = record[column];
+        if (column === 'start' || column === 'end') {
+          return value === null ? '' : new Date(value as number).toISOString();
+        }
+        return toCsvField(column === 'metadata' ? JSON.stringify(value) : value);
+      }).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Exports the records of a time range as a JSON array; times stay in epoch milliseconds
+   */
+  async exportJson(from?: number, to?: number): Promise<string> {
+    return JSON.stringify(await this.query(from, to), null, 2);
+  }
+
+  /**
+   * Removes every record
+   */
+  async clear(): Promise<void> {
+    await this.writes;
+    const db = await this.getDB();
+    const transaction = db.transaction([this.storeName], 'readwrite');
+    const store = transaction.objectStore(this.storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.clear();
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to clear as-run log: ${request.error?.message}`));
+      };
+    });
+  }
+
+  /**
+   * Closes the database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
+
+/**
+ * Formats a CSV field, quoting it when it holds a separator, quote or line break
+ */
+function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { formatAv1Codec, formatMimeType } from './codec-strings';
+
+describe('formatAv1Codec', () => {
+  it('reads profile, level, tier and bit depth from the configuration record', () => {
+    expect(formatAv1Codec(Uint8Array.of(0x81, 0x04, 0x00, 0x00))).toBe('av01.0.04M.08');
+    expect(formatAv1Codec(Uint8Array.of(0x81, 0x2d, 0xc0, 0x00))).toBe('av01.1.13H.10');
+    expect(formatAv1Codec(Uint8Array.of(0x81, 0x48, 0x60, 0x00))).toBe('av01.2.08M.12');
+  });
+
+  it('returns null for a truncated record', () => {
+    expect(formatAv1Codec(Uint8Array.of(0x81, 0x04))).toBeNull();
+  });
+});
+
+describe('formatMimeType', () => {
+  it('picks video or audio by the codecs and joins them', () => {
+    expect(formatMimeType('mp4', ['avc1.64001F', 'mp4a.40.2'])).toBe('video/mp4; codecs="avc1.64001F,mp4a.40.2"');
+    expect(formatMimeType('mp4', ['mp4a.40.2'])).toBe('audio/mp4; codecs="mp4a.40.2"');
+    expect(formatMimeType('webm', ['vp8', 'vorbis'])).toBe('video/webm; codecs="vp8,vorbis"');
+    expect(formatMimeType('webm', ['opus'])).toBe('audio/webm; codecs="opus"');
+  });
+
+  it('returns null without codecs', () => {
+    expect(formatMimeType('mp4', [])).toBeNull();
+  });
+});
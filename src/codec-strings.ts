@@ -0,0 +1,42 @@
+/**
+ * Codecs that make a file `video/` rather than `audio/`, by the part of the codec string before the first dot
+ */
+const VIDEO_CODECS = new Set(['avc1', 'avc3', 'hvc1', 'hev1', 'av01', 'vp09', 'vp8', 'vp9']);
+
+/**
+ * Builds the AV1 codec string per the AV1 ISOBMFF binding, e.g. `av01.0.04M.08`
+ * @param config - AV1CodecConfigurationRecord: the payload of an MP4 `av1C` box, or the CodecPrivate of a WebM track
+ * @returns null when the record is too short to hold the profile, level, tier and bit depth
+ */
+export function formatAv1Codec(config: Uint8Array): string | null {
+  if (config.byteLength < 3) {
+    return null;
+  }
+
+  const profile = config[1] >> 5;
+  const level = config[1] & 0x1f;
+  const tier = (config[2] & 0x80) !== 0 ? 'H' : 'M';
+  const highBitDepth = (config[2] & 0x40) !== 0;
+  const twelveBit = (config[2] & 0x20) !== 0;
+  const bitDepth = twelveBit ? 12 : highBitDepth ? 10 : 8;
+  return `av01.${profile}.${pad(level)}${tier}.${pad(bitDepth)}`;
+}
+
+/**
+ * Joins codec strings into a MIME type, e.g. `video/mp4; codecs="avc1.64001F,mp4a.40.2"`
+ * The type is `video/` when any of the codecs is a video codec
+ * @param container - MIME subtype, `mp4` or `webm`
+ * @returns null for an empty list
+ */
+export function formatMimeType(container: 'mp4' | 'webm', codecs: string[]): string | null {
+  if (codecs.length === 0) {
+    return null;
+  }
+
+  const hasVideo = codecs.some((codec) => VIDEO_CODECS.has(codec.split('.')[0]));
+  return `${hasVideo ? 'video' : 'audio'}/${container}; codecs="${codecs.join(',')}"`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,70 @@
+import { readBlobAsArrayBuffer } from './prepare-segment';
+
+/**
+ * Subset of SourceBuffer used by PlayoutBuffer
+ */
+export interface SourceBufferLike {
+  mode: AppendMode;
+  readonly updating: boolean;
+  readonly buffered: TimeRanges;
+  timestampOffset: number;
+  appendWindowStart: number;
+  appendWindowEnd: number;
+  appendBuffer(data: BufferSource): void;
+  remove(start: number, end: number): void;
+  changeType?(type: string): void;
+  addEventListener(type: 'updateend' | 'error', listener: () => void): void;
+  removeEventListener(type: 'updateend' | 'error', listener: () => void): void;
+}
+
+/**
+ * Subset of MediaSource used by PlayoutBuffer
+ */
+export interface MediaSourceLike {
+  readonly readyState: ReadyState;
+  addSourceBuffer(type: string): SourceBufferLike;
+  endOfStream(): void;
+  addEventListener(type: 'sourceopen', listener: () => void): void;
+  removeEventListener(type: 'sourceopen', listener: () => void): void;
+}
+
+/**
+ * Platform services PlayoutBuffer depends on
+ * Replace them to run the library outside a browser, e.g. with the fakes in `testing/`
+ */
+export interface PlayoutEnvironment {
+  createMediaSource(): MediaSourceLike;
+  isTypeSupported(type: string): boolean;
+  createObjectURL(mediaSource: MediaSourceLike): string;
+  revokeObjectURL(url: string): void;
+  readBlob(blob: Blob): Promise<ArrayBuffer>;
+}
+
+/**
+ * Timer source used for polling and scheduling
+ */
+export interface Clock {
+  now(): number;
+  setInterval(callback: () => void, ms: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+/**
+ * PlayoutEnvironment backed by the browser globals
+ */
+export const browserEnvironment: PlayoutEnvironment = {
+  createMediaSource: () => new MediaSource(),
+  isTypeSupported: (type) => MediaSource.isTypeSupported(type),
+  createObjectURL: (mediaSource) => URL.createObjectURL(mediaSource as MediaSource),
+  revokeObjectURL: (url) => URL.revokeObjectURL(url),
+  readBlob: readBlobAsArrayBuffer,
+};
+
+/**
+ * Clock backed by Date.now and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventMessage, TypedEventEmitter } from './event-emitter';
+
+interface TestEvents {
+  opened: { id: number };
+  closed: void;
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  fire(message: EventMessage<TestEvents>): void {
+    this.relay(message);
+  }
+
+  open(id: number): void {
+    this.emit('opened', { id });
+  }
+}
+
+describe('TypedEventEmitter', () => {
+  it('calls listeners until they are removed', () => {
+    const emitter = new TestEmitter();
+    const ids: number[] = [];
+    const off = emitter.on('opened', ({ id }) => ids.push(id));
+    let onceCalls = 0;
+    emitter.once('opened', () => onceCalls++);
+
+    emitter.open(1);
+    emitter.open(2);
+    off();
+    emitter.open(3);
+
+    expect(ids).toEqual([1, 2]);
+    expect(onceCalls).toBe(1);
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    const emitter = new TestEmitter();
+    const ids: number[] = [];
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    emitter.on('opened', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('opened', ({ id }) => ids.push(id));
+
+    emitter.open(1);
+    expect(consoleError).toHaveBeenCalledOnce();
+    consoleError.mockRestore();
+
+    expect(ids).toEqual([1]);
+  });
+
+  it('relays messages to the listeners of their event', () => {
+    const emitter = new TestEmitter();
+    const ids: number[] = [];
+    let closed = 0;
+    emitter.on('opened', ({ id }) => ids.push(id));
+    emitter.on('closed', () => closed++);
+
+    emitter.fire({ name: 'opened', payload: { id: 7 } });
+    emitter.fire({ name: 'closed', payload: undefined });
+
+    expect(ids).toEqual([7]);
+    expect(closed).toBe(1);
+  });
+
+  it('reports several events to one listener as messages', () => {
+    const emitter = new TestEmitter();
+    const messages: Array<EventMessage<TestEvents>> = [];
+    const off = emitter.onEach(['opened', 'closed'], (message) => messages.push(message));
+
+    emitter.open(4);
+    emitter.fire({ name: 'closed', payload: undefined });
+    off();
+    emitter.open(5);
+
+    expect(messages).toEqual([
+      { name: 'opened', payload: { id: 4 } },
+      { name: 'closed', payload: undefined },
+    ]);
+  });
+});
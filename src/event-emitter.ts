@@ -0,0 +1,110 @@
+/**
+ * Listener for an event payload
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Arguments passed to emit: events declared with a `void` payload take none
+ */
+type EmitArgs<T> = [T] extends [void] ? [] : [T];
+
+/**
+ * Event name with its payload, e.g. as posted between threads
+ * Narrowing on `name` narrows `payload` to that event's type
+ */
+export type EventMessage<Events extends object> = {
+  [K in keyof Events]: { name: K; payload: Events[K] };
+}[keyof Events];
+
+/**
+ * Minimal typed event emitter
+ * The map type declares every event name and its payload, e.g. `{ closed: void; error: { error: unknown } }`
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Registers a listener for an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as EventListener<never>);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Registers a listener that is removed after its first call
+   * @returns Function that removes the listener
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Registers one listener for several events, called with each event as a message
+   * @returns Function that removes the listener from every event
+   */
+  onEach(events: ReadonlyArray<keyof Events>, listener: EventListener<EventMessage<Events>>): () => void {
+    const removers = events.map((name) =>
+      this.on(name, (payload) => listener({ name, payload } as EventMessage<Events>))
+    );
+    return () => removers.forEach((remove) => remove());
+  }
+
+  /**
+   * Removes a listener registered with on()
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener as EventListener<never>);
+  }
+
+  /**
+   * Removes every listener, or every listener of one event
+   */
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Calls every listener of an event
+   * A throwing listener is logged and does not prevent the others from running
+   */
+  protected emit<K extends keyof Events>(event: K, ...args: EmitArgs<Events[K]>): void {
+    this.dispatch(event, args[0]);
+  }
+
+  /**
+   * Emits an event received as a message, e.g. relayed from a worker
+   */
+  protected relay(message: EventMessage<Events>): void {
+    this.dispatch(message.name, message.payload);
+  }
+
+  private dispatch(event: keyof Events, payload: unknown): void {
+    const set = this.listeners.get(event);
+    if (!set) {
+      return;
+    }
+
+    for (const listener of [...set]) {
+      try {
+        (listener as EventListener<unknown>)(payload);
+      } catch (error) {
+        console.error(`Listener for ${String(event)} failed`, error);
+      }
+    }
+  }
+}
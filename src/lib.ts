@@ -5,16 +5,86 @@
  * with IndexedDB-backed playlist management.
  */
 
+import { setDefaultPlayoutWorker } from './playout-buffer';
+import { createPlayoutWorker } from './worker/create-playout-worker';
+
+setDefaultPlayoutWorker(createPlayoutWorker);
+
 // Core classes
 export { PlayoutBuffer } from './playout-buffer';
 export { Playlist } from './playlist';
 export { Roll } from './roll';
+export { StallWatchdog } from './stall-watchdog';
+export { AsRunLog } from './as-run-log';
+export { SequentialOrder, ShuffleOrder, WeightedOrder, SeparatedOrder } from './ordering';
+export { TypedEventEmitter } from './event-emitter';
+export { supportsWorkerMediaSource } from './worker/playout-worker-client';
+export { browserEnvironment, systemClock } from './environment';
+export { indexFragmentedMp4Blob, readFragmentStartTime, splitFragmentedMp4 } from './mp4/fragments';
+export { fragmentMp4Blob, remuxToFragmentedMp4 } from './mp4/remux';
+export { transmuxTsBlob, transmuxTsToFragmentedMp4 } from './mpegts/transmux';
+export { detectMp4Codecs, detectMp4MimeType, detectMp4BlobMimeType } from './mp4/codecs';
+export { probeMp4, probeMp4Blob } from './mp4/probe';
+export {
+  detectWebMCodecs,
+  detectWebMMimeType,
+  indexWebMBlob,
+  probeWebM,
+  probeWebMBlob,
+  readClusterStartTime,
+  splitWebM,
+} from './webm/webm';
 
 // Types
-export type { Segment } from './types/segment';
+export type { Segment, TrackType } from './types/segment';
 export type { RollEntry, RollItem, RollDataSource } from './types/roll';
 export type { QueueItem, QueueItemMetadata } from './types/database';
+export type { ByteRange, MediaChunkIndex, MediaInfo, MediaTrackInfo } from './types/media';
+
+// PlayoutBuffer-specific types
+export type {
+  QuotaExceededEvent,
+  PlayoutBufferEvents,
+  PlayoutBufferOptions,
+  PlayoutBufferState,
+  BufferedRange,
+} from './playout-buffer';
+export type { PlayoutMediaElement, RollMediaElement, MediaElementEventType } from './types/media-element';
+export type { PlayoutEnvironment, MediaSourceLike, SourceBufferLike, Clock } from './environment';
+export type { FragmentedMp4 } from './mp4/fragments';
+export type { RemuxOptions } from './mp4/remux';
+export type { SplitWebM } from './webm/webm';
+export type { EventListener, EventMessage } from './event-emitter';
 
 // Roll-specific types
-export type { UpsertOptions, UpsertResult } from './roll';
+export type {
+  RollOptions,
+  UpsertOptions,
+  UpsertResult,
+  AttachBufferOptions,
+  LookaheadPolicy,
+  RollEvents,
+  RollItemEvent,
+  RollItemEndEvent,
+  PlayNowOptions,
+  ScheduleOptions,
+  ScheduleReportEntry,
+  CheckpointOptions,
+} from './roll';
+
+// Ordering types
+export type {
+  OrderingStrategy,
+  OrderingContext,
+  OrderedItem,
+  ShuffleOrderOptions,
+  WeightedOrderOptions,
+  SeparationRule,
+} from './ordering';
+
+// Watchdog types
+export type { StallWatchdogOptions, StallWatchdogEvents } from './stall-watchdog';
+
+// As-run log types
+export type { AsRunRecord, AsRunLogOptions } from './as-run-log';
 
@@ -0,0 +1,133 @@
+/**
+ * ISO-BMFF box located in a buffer
+ * Offsets are absolute within the buffer that was parsed
+ */
+export interface Mp4Box {
+  /** Four-character box type, e.g. `moov` */
+  type: string;
+  /** Offset of the first byte of the box header */
+  start: number;
+  /** Offset just past the last byte of the box */
+  end: number;
+  /** Offset of the first byte of the payload */
+  payloadStart: number;
+}
+
+/**
+ * Boxes whose payload is made of child boxes
+ */
+const CONTAINER_BOXES = new Set([
+  'moov', 'trak', 'mdia', 'minf', 'stbl', 'mvex', 'moof', 'traf', 'edts', 'dinf', 'udta', 'mfra',
+]);
+
+/**
+ * Reads the boxes laid out back to back in [start, end)
+ * @throws Error when a box header is malformed or runs past `end`
+ */
+export function readBoxes(data: Uint8Array, start = 0, end = data.byteLength): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const box = readBoxHeader(data, offset, end);
+    boxes.push(box);
+    offset = box.end;
+  }
+
+  return boxes;
+}
+
+/**
+ * Reads the top-level boxes of a blob by hopping from header to header, without reading payloads
+ * @throws Error when a box header is malformed or runs past the end of the blob
+ */
+export async function readBlobBoxes(blob: Blob): Promise<Mp4Box[]> {
+  const boxes: Mp4Box[] = [];
+  let offset = 0;
+
+  while (offset < blob.size) {
+    // 32 bytes cover the largest header: size, type, largesize and a uuid
+    const header = new Uint8Array(await blob.slice(offset, offset + 32).arrayBuffer());
+    const box = readBoxHeader(header, 0, blob.size - offset, offset);
+    boxes.push({ ...box, start: offset, end: offset + box.end, payloadStart: offset + box.payloadStart });
+    offset += box.end;
+  }
+
+  return boxes;
+}
+
+/**
+ * Reads the children of a container box
+ * @param skip - Bytes between the header and the first child, e.g. 4 for full boxes such as `meta`
+ */
+export function readChildren(data: Uint8Array, box: Mp4Box, skip = 0): Mp4Box[] {
+  return readBoxes(data, box.payloadStart + skip, box.end);
+}
+
+/**
+ * Finds a box by path, e.g. `['moov', 'mvex']`, descending through container boxes
+ * @returns The first match, or null
+ */
+export function findBox(data: Uint8Array, boxes: Mp4Box[], path: string[]): Mp4Box | null {
+  const [type, ...rest] = path;
+  const box = boxes.find((candidate) => candidate.type === type);
+  if (!box || rest.length === 0) {
+    return box ?? null;
+  }
+  if (!CONTAINER_BOXES.has(box.type)) {
+    return null;
+  }
+  return findBox(data, readChildren(data, box), rest);
+}
+
+/**
+ * Finds every box of a type among siblings, e.g. all `trak` boxes of a `moov`
+ */
+export function findBoxes(boxes: Mp4Box[], type: string): Mp4Box[] {
+  return boxes.filter((box) => box.type === type);
+}
+
+/**
+ * Checks whether a buffer starts with an ISO-BMFF `ftyp` box
+ */
+export function isMp4(data: Uint8Array): boolean {
+  return data.byteLength >= 8 && readType(data, 4) === 'ftyp';
+}
+
+function readType(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+}
+
+/**
+ * Reads the box header at `offset`; the box must end by `end`
+ * @param position - Offset reported in errors, when `data` is a slice of a larger file
+ */
+function readBoxHeader(data: Uint8Array, offset: number, end: number, position = offset): Mp4Box {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const available = Math.min(end, data.byteLength) - offset;
+  if (available < 8) {
+    throw new Error(`Truncated MP4 box header at offset ${position}`);
+  }
+
+  const type = readType(data, offset + 4);
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    if (available < 16) {
+      throw new Error(`Truncated MP4 box header at offset ${position}`);
+    }
+    size = Number(view.getBigUint64(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  if (type === 'uuid') {
+    headerSize += 16;
+  }
+
+  if (size < headerSize || offset + size > end) {
+    throw new Error(`Truncated MP4 box '${type}' at offset ${position}: ${size} bytes declared, ${end - offset} available`);
+  }
+
+  return { type, start: offset, end: offset + size, payloadStart: offset + headerSize };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { readBoxes } from './boxes';
+import { detectMp4BlobMimeType, detectMp4Codecs, detectMp4MimeType } from './codecs';
+import { av01Entry, avc1Entry, buildProgressiveMp4, fixtureSamples, FixtureTrack, mp4aEntry } from './test-fixtures';
+import { box, concatBytes, toArrayBuffer } from './writer';
+
+function video(sampleEntry: Uint8Array): FixtureTrack {
+  return { id: 1, handler: 'vide', timescale: 30, sampleEntry, samples: fixtureSamples(3, 1) };
+}
+
+function audio(sampleEntry: Uint8Array): FixtureTrack {
+  return { id: 2, handler: 'soun', timescale: 48000, sampleEntry, samples: fixtureSamples(3, 1024) };
+}
+
+describe('detectMp4Codecs', () => {
+  it('reads H.264 and AAC codec strings in track order', () => {
+    const file = buildProgressiveMp4([video(avc1Entry(640, 360, 0x4d, 0x40, 0x28)), audio(mp4aEntry(2))]);
+    expect(detectMp4Codecs(file)).toEqual(['avc1.4D4028', 'mp4a.40.2']);
+  });
+
+  it('reads the audio object type of HE-AAC', () => {
+    expect(detectMp4Codecs(buildProgressiveMp4([audio(mp4aEntry(5))]))).toEqual(['mp4a.40.5']);
+  });
+
+  it('reads profile, level, tier and bit depth from av1C', () => {
+    // Main profile, level 4.0 (8), high tier, 10-bit
+    const file = buildProgressiveMp4([video(av01Entry([0x81, 0x08, 0xc0, 0x00]))]);
+    expect(detectMp4Codecs(file)).toEqual(['av01.0.08H.10']);
+  });
+
+  it('returns nothing for a buffer without a moov', () => {
+    expect(detectMp4Codecs(toArrayBuffer(box('ftyp', new Uint8Array(8))))).toEqual([]);
+  });
+});
+
+describe('detectMp4MimeType', () => {
+  it('uses video/mp4 when any track is video and audio/mp4 otherwise', () => {
+    expect(detectMp4MimeType(buildProgressiveMp4([video(avc1Entry()), audio(mp4aEntry())]))).toBe(
+      'video/mp4; codecs="avc1.64001F,mp4a.40.2"'
+    );
+    expect(detectMp4MimeType(buildProgressiveMp4([audio(mp4aEntry())]))).toBe('audio/mp4; codecs="mp4a.40.2"');
+  });
+});
+
+describe('detectMp4BlobMimeType', () => {
+  it('finds the moov wherever it sits in the file', async () => {
+    const file = new Uint8Array(buildProgressiveMp4([video(avc1Entry())]));
+    const [ftyp, moov, mdat] = readBoxes(file);
+    // Move the moov behind the mdat, as files written without faststart have it
+    const moovLast = concatBytes([
+      file.subarray(ftyp.start, ftyp.end),
+      file.subarray(mdat.start, mdat.end),
+      file.subarray(moov.start, moov.end),
+    ]);
+
+    expect(await detectMp4BlobMimeType(new Blob([toArrayBuffer(moovLast)]))).toBe('video/mp4; codecs="avc1.64001F"');
+    expect(await detectMp4BlobMimeType(new Blob(['not a media file']))).toBeNull();
+  });
+});
@@ -0,0 +1,285 @@
+import { formatAv1Codec, formatMimeType } from '../codec-strings';
+import { findBox, findBoxes, Mp4Box, readBoxes, readChildren } from './boxes';
+
+/**
+ * Sample entry types of video codecs, whose entries carry the visual sample entry fields
+ */
+const VIDEO_ENTRIES = new Set(['avc1', 'avc3', 'hvc1', 'hev1', 'av01', 'vp09']);
+
+/**
+ * Sample entry types whose codec string is the lower-cased entry type
+ */
+const PLAIN_AUDIO_ENTRIES: Record<string, string> = {
+  Opus: 'opus',
+  fLaC: 'flac',
+  'ac-3': 'ac-3',
+  'ec-3': 'ec-3',
+};
+
+/**
+ * Bytes between a sample entry's header and its child boxes
+ */
+const VISUAL_ENTRY_FIELDS = 78;
+const AUDIO_ENTRY_FIELDS = 28;
+
+/**
+ * Reads the RFC 6381 codec strings of every track in an MP4 init segment or file
+ * @returns Codec strings in track order, e.g. `['avc1.64001F', 'mp4a.40.2']`; unknown codecs are left out
+ */
+export function detectMp4Codecs(buffer: ArrayBuffer): string[] {
+  const data = new Uint8Array(buffer);
+  const moov = readBoxes(data).find((box) => box.type === 'moov');
+  if (!moov) {
+    return [];
+  }
+
+  const codecs: string[] = [];
+  for (const trak of findBoxes(readChildren(data, moov), 'trak')) {
+    const codec = readTrackCodec(data, trak);
+    if (codec) {
+      codecs.push(codec);
+    }
+  }
+  return codecs;
+}
+
+/**
+ * Builds the full MIME type of an MP4 init segment or file, e.g. `video/mp4; codecs="avc1.64001F,mp4a.40.2"`
+ * @returns null when no codec could be identified
+ */
+export function detectMp4MimeType(buffer: ArrayBuffer): string | null {
+  return formatMimeType('mp4', detectMp4Codecs(buffer));
+}
+
+/**
+ * Returns the first sample entry of a `trak`, e.g. its `avc1` or `mp4a` box
+ */
+export function readSampleEntry(data: Uint8Array, trak: Mp4Box): Mp4Box | null {
+  const stsd = findBox(data, [trak], ['trak', 'mdia', 'minf', 'stbl', 'stsd']);
+  // stsd is a full box with an entry count ahead of its sample entries
+  return stsd ? readBoxes(data, stsd.payloadStart + 8, stsd.end)[0] ?? null : null;
+}
+
+/**
+ * Reads the RFC 6381 codec string of a `trak`
+ * @returns null when the codec is unknown
+ */
+export function readTrackCodec(data: Uint8Array, trak: Mp4Box): string | null {
+  const entry = readSampleEntry(data, trak);
+  return entry ? readSampleEntryCodec(data, entry) : null;
+}
+
+/**
+ * Detects the MIME type of an MP4 blob without reading its media data
+ * Hops from box header to box header until it reaches the `moov`, wherever it sits in the file
+ * @returns null for blobs that are not MP4 or whose codecs are unknown
+ */
+export async function detectMp4BlobMimeType(blob: Blob): Promise<string | null> {
+  let offset = 0;
+  while (offset + 8 <= blob.size) {
+    const header = new DataView(await blob.slice(offset, offset + 16).arrayBuffer());
+    const type = String.fromCharCode(header.getUint8(4), header.getUint8(5), header.getUint8(6), header.getUint8(7));
+    if (offset === 0 && type !== 'ftyp') {
+      return null;
+    }
+
+    let size = header.getUint32(0);
+    if (size === 1 && header.byteLength >= 16) {
+      size = Number(header.getBigUint64(8));
+    } else if (size === 0) {
+      size = blob.size - offset;
+    }
+    if (size < 8) {
+      return null;
+    }
+
+    if (type === 'moov') {
+      return detectMp4MimeType(await blob.slice(offset, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  return null;
+}
+
+function readSampleEntryCodec(data: Uint8Array, entry: Mp4Box): string | null {
+  const isVisual = entry.type === 'encv' || VIDEO_ENTRIES.has(entry.type);
+  const childrenStart = entry.payloadStart + (isVisual ? VISUAL_ENTRY_FIELDS : audioFieldsLength(data, entry));
+  if (childrenStart > entry.end) {
+    return null;
+  }
+
+  let children: Mp4Box[];
+  try {
+    children = readBoxes(data, childrenStart, entry.end);
+  } catch {
+    return null;
+  }
+
+  // Encrypted entries name the original format in sinf/frma
+  let format = entry.type;
+  if (format === 'encv' || format === 'enca') {
+    const frma = findBox(data, children, ['sinf', 'frma']);
+    if (!frma) {
+      return null;
+    }
+    format = readFourCC(data, frma.payloadStart);
+  }
+
+  const config = (type: string) => children.find((child) => child.type === type);
+  switch (format) {
+    case 'avc1':
+    case 'avc3': {
+      const avcC = config('avcC');
+      return avcC ? `${format}.${hex(data.subarray(avcC.payloadStart + 1, avcC.payloadStart + 4))}` : null;
+    }
+    case 'hvc1':
+    case 'hev1': {
+      const hvcC = config('hvcC');
+      return hvcC ? `${format}.${readHevcCodec(data, hvcC)}` : null;
+    }
+    case 'av01': {
+      const av1C = config('av1C');
+      return av1C ? formatAv1Codec(data.subarray(av1C.payloadStart, av1C.end)) : null;
+    }
+    case 'vp09': {
+      const vpcC = config('vpcC');
+      if (!vpcC) {
+        return null;
+      }
+      const profile = data[vpcC.payloadStart + 4];
+      const level = data[vpcC.payloadStart + 5];
+      const bitDepth = data[vpcC.payloadStart + 6] >> 4;
+      return `vp09.${pad(profile)}.${pad(level)}.${pad(bitDepth)}`;
+    }
+    case 'mp4a': {
+      const esds = config('esds');
+      return esds ? readMp4aCodec(data, esds) : 'mp4a.40.2';
+    }
+    default:
+      return PLAIN_AUDIO_ENTRIES[format] ?? null;
+  }
+}
+
+/**
+ * Length of the fixed audio sample entry fields; QuickTime sound descriptions v1 and v2 are longer
+ */
+function audioFieldsLength(data: Uint8Array, entry: Mp4Box): number {
+  const version = (data[entry.payloadStart + 8] << 8) | data[entry.payloadStart + 9];
+  if (version === 1) {
+    return AUDIO_ENTRY_FIELDS + 16;
+  }
+  if (version === 2) {
+    return AUDIO_ENTRY_FIELDS + 36;
+  }
+  return AUDIO_ENTRY_FIELDS;
+}
+
+/**
+ * HEVC codec string per ISO/IEC 14496-15 Annex E, e.g. `1.6.L93.B0`
+ */
+function readHevcCodec(data: Uint8Array, hvcC: Mp4Box): string {
+  const start = hvcC.payloadStart;
+  const profileSpace = ['', 'A', 'B', 'C'][data[start + 1] >> 6];
+  const tier = (data[start + 1] & 0x20) !== 0 ? 'H' : 'L';
+  const profile = data[start + 1] & 0x1f;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const compatibility = reverseBits(view.getUint32(start + 2));
+  const level = data[start + 12];
+
+  const constraints = Array.from(data.subarray(start + 6, start + 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+    constraints.pop();
+  }
+
+  return [
+    `${profileSpace}${profile}`,
+    compatibility.toString(16).toUpperCase(),
+    `${tier}${level}`,
+    ...constraints.map((byte) => byte.toString(16).toUpperCase()),
+  ].join('.');
+}
+
+/**
+ * MPEG-4 audio codec string from the esds decoder configuration, e.g. `mp4a.40.2` for AAC-LC
+ */
+function readMp4aCodec(data: Uint8Array, esds: Mp4Box): string {
+  // esds is a full box; its payload is an ES_Descriptor
+  let offset = esds.payloadStart + 4;
+  const es = readDescriptor(data, offset, esds.end);
+  if (!es || es.tag !== 0x03) {
+    return 'mp4a.40.2';
+  }
+
+  offset = es.start + 2;
+  const flags = data[offset++];
+  if (flags & 0x80) {
+    offset += 2;
+  }
+  if (flags & 0x40) {
+    offset += 1 + data[offset];
+  }
+  if (flags & 0x20) {
+    offset += 2;
+  }
+
+  const decoderConfig = readDescriptor(data, offset, es.end);
+  if (!decoderConfig || decoderConfig.tag !== 0x04) {
+    return 'mp4a.40.2';
+  }
+
+  const objectType = data[decoderConfig.start];
+  if (objectType !== 0x40) {
+    return `mp4a.${objectType.toString(16).toUpperCase()}`;
+  }
+
+  const specificInfo = readDescriptor(data, decoderConfig.start + 13, decoderConfig.end);
+  if (!specificInfo || specificInfo.tag !== 0x05) {
+    return 'mp4a.40.2';
+  }
+
+  let audioObjectType = data[specificInfo.start] >> 3;
+  if (audioObjectType === 31) {
+    audioObjectType = 32 + (((data[specificInfo.start] & 0x07) << 3) | (data[specificInfo.start + 1] >> 5));
+  }
+  return `mp4a.40.${audioObjectType}`;
+}
+
+/**
+ * Reads an MPEG-4 descriptor header; sizes use 7 bits per byte with a continuation bit
+ */
+function readDescriptor(data: Uint8Array, offset: number, end: number): { tag: number; start: number; end: number } | null {
+  if (offset + 2 > end) {
+    return null;
+  }
+
+  const tag = data[offset++];
+  let size = 0;
+  for (let i = 0; i < 4; i++) {
+    const byte = data[offset++];
+    size = (size << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      break;
+    }
+  }
+  return { tag, start: offset, end: Math.min(end, offset + size) };
+}
+
+function reverseBits(value: number): number {
+  let result = 0;
+  for (let i = 0; i < 32; i++) {
+    result = (result << 1) | ((value >>> i) & 1);
+  }
+  return result >>> 0;
+}
+
+function readFourCC(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0').toUpperCase()).join('');
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { readBoxes } from './boxes';
+import { indexFragmentedMp4Blob, readFragmentStartTime, splitFragmentedMp4 } from './fragments';
+import { remuxToFragmentedMp4 } from './remux';
+import { avc1Entry, buildProgressiveMp4, fixtureSamples } from './test-fixtures';
+import { box, concatBytes, toArrayBuffer } from './writer';
+
+/**
+ * Fragmented MP4 with three 1 s fragments of 30 fps video, a styp ahead of the second and an mfra at the end
+ */
+function buildFragmentedFile() {
+  const progressive = buildProgressiveMp4([
+    { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(90, 1, 30) },
+  ]);
+  const { init, fragments } = remuxToFragmentedMp4(progressive, { fragmentDuration: 1 });
+  const styp = box('styp', Uint8Array.of(0x6d, 0x73, 0x64, 0x68));
+  const file = concatBytes([
+    new Uint8Array(init),
+    new Uint8Array(fragments[0]),
+    styp,
+    new Uint8Array(fragments[1]),
+    new Uint8Array(fragments[2]),
+    box('mfra'),
+  ]);
+  return { file: toArrayBuffer(file), init, fragments, styp };
+}
+
+function types(buffer: ArrayBuffer): string[] {
+  return readBoxes(new Uint8Array(buffer)).map((found) => found.type);
+}
+
+describe('splitFragmentedMp4', () => {
+  it('returns the init segment and one segment per moof, with leading boxes kept', () => {
+    const { file, init } = buildFragmentedFile();
+    const split = splitFragmentedMp4(file);
+
+    expect(new Uint8Array(split.init)).toEqual(new Uint8Array(init));
+    expect(split.fragments.map(types)).toEqual([
+      ['moof', 'mdat'],
+      ['styp', 'moof', 'mdat'],
+      ['moof', 'mdat'],
+    ]);
+  });
+
+  it('rejects progressive MP4 and files that are not MP4', () => {
+    const progressive = buildProgressiveMp4([
+      { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(3, 1) },
+    ]);
+
+    expect(() => splitFragmentedMp4(progressive)).toThrow('not fragmented');
+    expect(() => splitFragmentedMp4(toArrayBuffer(box('free')))).toThrow('missing ftyp box');
+  });
+
+  it('reports a box that runs past the end of the file', () => {
+    const { file } = buildFragmentedFile();
+    expect(() => splitFragmentedMp4(file.slice(0, file.byteLength - 20))).toThrow("Truncated MP4 box 'mdat'");
+  });
+});
+
+describe('indexFragmentedMp4Blob', () => {
+  it('indexes fragments by byte range without reading their media data', async () => {
+    const { file, init, fragments, styp } = buildFragmentedFile();
+    const index = await indexFragmentedMp4Blob(new Blob([file]));
+
+    expect(index).not.toBeNull();
+    expect(new Uint8Array(index!.init)).toEqual(new Uint8Array(init));
+    const first = init.byteLength;
+    const second = first + fragments[0].byteLength;
+    const third = second + styp.byteLength + fragments[1].byteLength;
+    expect(index!.chunks).toEqual([
+      { start: first, end: second },
+      { start: second, end: third },
+      { start: third, end: third + fragments[2].byteLength },
+    ]);
+  });
+
+  it('returns null for progressive MP4 and other files', async () => {
+    const progressive = buildProgressiveMp4([
+      { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(3, 1) },
+    ]);
+
+    expect(await indexFragmentedMp4Blob(new Blob([progressive]))).toBeNull();
+    expect(await indexFragmentedMp4Blob(new Blob(['not a media file']))).toBeNull();
+  });
+});
+
+describe('readFragmentStartTime', () => {
+  it('reads the start of a fragment from its tfdt', async () => {
+    const { file } = buildFragmentedFile();
+    const blob = new Blob([file]);
+    const index = (await indexFragmentedMp4Blob(blob))!;
+
+    const starts = await Promise.all(index.chunks.map((range) => readFragmentStartTime(blob, range, index.init)));
+    expect(starts).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,170 @@
+import { ByteRange, MediaChunkIndex } from '../types/media';
+import { findBox, findBoxes, isMp4, Mp4Box, readBlobBoxes, readBoxes, readChildren } from './boxes';
+import { readTracks } from './tracks';
+import { concatBytes, toArrayBuffer } from './writer';
+
+/**
+ * Fragmented MP4 split into what MSE expects: one init segment followed by media segments
+ */
+export interface FragmentedMp4 {
+  /** `ftyp` + `moov` */
+  init: ArrayBuffer;
+  /** One entry per `moof`/`mdat` pair, with any leading `styp`, `sidx`, `prft` or `emsg` boxes */
+  fragments: ArrayBuffer[];
+}
+
+/**
+ * Boxes that may open a media segment ahead of its `moof`
+ */
+const FRAGMENT_PREFIX_BOXES = new Set(['styp', 'sidx', 'ssix', 'prft', 'emsg']);
+
+/**
+ * Top-level boxes left out of media segments; `mfra` is only a random access index for files
+ */
+const IGNORED_BOXES = new Set(['mfra']);
+
+/**
+ * Splits a fragmented MP4 file into its init segment and movie fragments
+ * @throws Error when the file is not an ISO-BMFF file, or is a progressive MP4 without movie fragments
+ */
+export function splitFragmentedMp4(buffer: ArrayBuffer): FragmentedMp4 {
+  const data = new Uint8Array(buffer);
+  const boxes = readBoxes(data);
+
+  const ftyp = boxes.find((box) => box.type === 'ftyp');
+  const moov = boxes.find((box) => box.type === 'moov');
+  if (!ftyp || !moov) {
+    throw new Error(`Not an MP4 file: missing ${ftyp ? 'moov' : 'ftyp'} box`);
+  }
+  if (!findBox(data, [moov], ['moov', 'mvex'])) {
+    throw new Error('MP4 file is not fragmented (moov has no mvex box); only fragmented MP4 can be appended');
+  }
+
+  const fragments = groupFragments(boxes.filter((box) => box.start > moov.start));
+  if (fragments.length === 0) {
+    throw new Error('MP4 file contains no movie fragments (moof boxes)');
+  }
+
+  return {
+    init: concatBoxes(buffer, [ftyp, moov]),
+    fragments: fragments.map((group) => concatBoxes(buffer, group)),
+  };
+}
+
+/**
+ * Indexes the fragments of a fragmented MP4 blob without reading its media data
+ * Only the `ftyp` and `moov` are read, to build the init segment
+ * @returns null for blobs that are not fragmented MP4
+ */
+export async function indexFragmentedMp4Blob(blob: Blob): Promise<MediaChunkIndex | null> {
+  const header = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  if (!isMp4(header)) {
+    return null;
+  }
+
+  const boxes = await readBlobBoxes(blob);
+  const ftyp = boxes.find((box) => box.type === 'ftyp');
+  const moov = boxes.find((box) => box.type === 'moov');
+  if (!ftyp || !moov) {
+    return null;
+  }
+
+  const moovData = new Uint8Array(await blob.slice(moov.start, moov.end).arrayBuffer());
+  if (!findBox(moovData, readBoxes(moovData), ['moov', 'mvex'])) {
+    return null;
+  }
+
+  const fragments = groupFragments(boxes.filter((box) => box.start > moov.start));
+  if (fragments.length === 0) {
+    return null;
+  }
+
+  const ftypData = new Uint8Array(await blob.slice(ftyp.start, ftyp.end).arrayBuffer());
+  return {
+    init: toArrayBuffer(concatBytes([ftypData, moovData])),
+    chunks: fragments.map((group) => ({ start: group[0].start, end: group[group.length - 1].end })),
+  };
+}
+
+/**
+ * Reads when a fragment of an indexed blob starts, in seconds: the earliest `tfdt` of its track fragments
+ * Only the fragment's `moof` is read; track timescales come from the init segment
+ * @returns null when the fragment has no `moof` or no `tfdt`
+ */
+export async function readFragmentStartTime(blob: Blob, range: ByteRange, init: ArrayBuffer): Promise<number | null> {
+  const initData = new Uint8Array(init);
+  const moov = readBoxes(initData).find((box) => box.type === 'moov');
+  const timescales = new Map(moov ? readTracks(initData, moov).map((track) => [track.id, track.timescale]) : []);
+
+  const fragment = blob.slice(range.start, range.end);
+  const moofBox = (await readBlobBoxes(fragment)).find((box) => box.type === 'moof');
+  if (!moofBox) {
+    return null;
+  }
+
+  const data = new Uint8Array(await fragment.slice(moofBox.start, moofBox.end).arrayBuffer());
+  const view = new DataView(data.buffer);
+  const times: number[] = [];
+  for (const traf of findBoxes(readChildren(data, readBoxes(data)[0]), 'traf')) {
+    const children = readChildren(data, traf);
+    const tfhd = findBox(data, children, ['tfhd']);
+    const tfdt = findBox(data, children, ['tfdt']);
+    const timescale = tfhd ? timescales.get(view.getUint32(tfhd.payloadStart + 4)) : undefined;
+    if (!tfdt || !timescale) {
+      continue;
+    }
+    const dts = data[tfdt.payloadStart] === 1
+      ? Number(view.getBigUint64(tfdt.payloadStart + 4))
+      : view.getUint32(tfdt.payloadStart + 4);
+    times.push(dts / timescale);
+  }
+
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * Groups top-level boxes into media segments, each holding exactly one `moof`
+ */
+function groupFragments(boxes: Mp4Box[]): Mp4Box[][] {
+  const fragments: Mp4Box[][] = [];
+  let current: Mp4Box[] = [];
+  let hasMoof = false;
+
+  const close = () => {
+    if (hasMoof) {
+      fragments.push(current);
+    }
+    current = [];
+    hasMoof = false;
+  };
+
+  for (const box of boxes) {
+    if (IGNORED_BOXES.has(box.type)) {
+      close();
+      continue;
+    }
+
+    const opensFragment = box.type === 'moof' || FRAGMENT_PREFIX_BOXES.has(box.type);
+    if (opensFragment && hasMoof) {
+      close();
+    }
+    if (box.type === 'moof') {
+      hasMoof = true;
+    }
+    current.push(box);
+  }
+  close();
+
+  return fragments;
+}
+
+function concatBoxes(buffer: ArrayBuffer, boxes: Mp4Box[]): ArrayBuffer {
+  const size = boxes.reduce((total, box) => total + box.end - box.start, 0);
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const box of boxes) {
+    result.set(new Uint8Array(buffer, box.start, box.end - box.start), offset);
+    offset += box.end - box.start;
+  }
+  return result.buffer;
+}
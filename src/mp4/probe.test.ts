@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { probeMp4, probeMp4Blob } from './probe';
+import { remuxToFragmentedMp4 } from './remux';
+import { avc1Entry, buildProgressiveMp4, fixtureSamples, FixtureTrack, mp4aEntry } from './test-fixtures';
+import { concatBytes, toArrayBuffer } from './writer';
+
+/**
+ * Four seconds of 1280x720 video at 25 fps with a keyframe every second, and three seconds of stereo AAC
+ */
+const TRACKS: FixtureTrack[] = [
+  {
+    id: 1,
+    handler: 'vide',
+    timescale: 25,
+    sampleEntry: avc1Entry(1280, 720),
+    samples: fixtureSamples(100, 1, 25, 500),
+    width: 1280,
+    height: 720,
+  },
+  { id: 2, handler: 'soun', timescale: 1000, sampleEntry: mp4aEntry(2, 2, 44100), samples: fixtureSamples(150, 20, 1, 100) },
+];
+
+describe('probeMp4', () => {
+  it('reads duration, size, codecs, bitrates and keyframes of a progressive MP4', () => {
+    const info = probeMp4(buildProgressiveMp4(TRACKS));
+
+    expect(info).toMatchObject({
+      duration: 4,
+      width: 1280,
+      height: 720,
+      mimeType: 'video/mp4; codecs="avc1.64001F,mp4a.40.2"',
+      keyframes: [0, 1, 2, 3],
+    });
+    expect(info.tracks).toEqual([
+      { id: 1, kind: 'video', codec: 'avc1.64001F', duration: 4, bitrate: 100000, width: 1280, height: 720 },
+      { id: 2, kind: 'audio', codec: 'mp4a.40.2', duration: 3, bitrate: 40000, channels: 2, sampleRate: 44100 },
+    ]);
+    expect(info.bitrate).toBe(140000);
+  });
+
+  it('falls back to the coded size of the sample entry when the tkhd has none', () => {
+    const info = probeMp4(buildProgressiveMp4([{ ...TRACKS[0], sampleEntry: avc1Entry(320, 240), width: 0, height: 0 }]));
+    expect(info).toMatchObject({ width: 320, height: 240 });
+  });
+
+  it('reads the samples of a fragmented MP4 from its fragments', () => {
+    const { init, fragments } = remuxToFragmentedMp4(buildProgressiveMp4(TRACKS), { fragmentDuration: 1 });
+    const info = probeMp4(toArrayBuffer(concatBytes([new Uint8Array(init), ...fragments.map((fragment) => new Uint8Array(fragment))])));
+
+    expect(info).toMatchObject({ duration: 4, keyframes: [0, 1, 2, 3], bitrate: 140000 });
+  });
+
+  it('adds composition offsets to keyframe times', () => {
+    const samples = fixtureSamples(50, 1, 25, 10).map((sample) => ({ ...sample, cto: 2 }));
+    const info = probeMp4(buildProgressiveMp4([{ ...TRACKS[0], samples }]));
+    expect(info.keyframes).toEqual([0.08, 1.08]);
+  });
+});
+
+describe('probeMp4Blob', () => {
+  it('probes MP4 blobs and returns null for anything else', async () => {
+    expect((await probeMp4Blob(new Blob([buildProgressiveMp4(TRACKS)])))?.duration).toBe(4);
+    expect(await probeMp4Blob(new Blob(['not a media file']))).toBeNull();
+  });
+
+  it('reads the same facts as probeMp4 from the moov and moof boxes', async () => {
+    const { init, fragments } = remuxToFragmentedMp4(buildProgressiveMp4(TRACKS), { fragmentDuration: 1 });
+    const fragmented = toArrayBuffer(concatBytes([new Uint8Array(init), ...fragments.map((fragment) => new Uint8Array(fragment))]));
+
+    for (const buffer of [buildProgressiveMp4(TRACKS), fragmented]) {
+      expect(await probeMp4Blob(new Blob([buffer]))).toEqual(probeMp4(buffer));
+    }
+  });
+});
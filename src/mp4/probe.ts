@@ -0,0 +1,110 @@
+import { formatMimeType } from '../codec-strings';
+import { MediaInfo, MediaTrackInfo } from '../types/media';
+import { findBox, findBoxes, isMp4, Mp4Box, readBlobBoxes, readBoxes, readChildren } from './boxes';
+import { readSampleEntry, readTrackCodec } from './codecs';
+import { Mp4Sample, readFragmentSamples, readTracks } from './tracks';
+
+/**
+ * Reads duration, dimensions, codecs, bitrates and the keyframe index of a progressive or fragmented MP4
+ * @param fileSize - Size of the whole file, when `buffer` holds only its moov and moof boxes
+ * @throws Error when the file is not an MP4 or its sample tables are malformed
+ */
+export function probeMp4(buffer: ArrayBuffer, fileSize = buffer.byteLength): MediaInfo {
+  const data = new Uint8Array(buffer);
+  const boxes = readBoxes(data);
+  const moov = boxes.find((box) => box.type === 'moov');
+  if (!moov) {
+    throw new Error('Not an MP4 file: missing moov box');
+  }
+
+  const traks = findBoxes(readChildren(data, moov), 'trak');
+  const fragmentSamples = findBox(data, [moov], ['moov', 'mvex']) ? readFragmentSamples(data, boxes, moov) : null;
+  const view = new DataView(buffer);
+
+  const tracks: MediaTrackInfo[] = [];
+  let keyframes: number[] | null = null;
+  for (const [index, track] of readTracks(data, moov, fileSize).entries()) {
+    const trak = traks[index];
+    const samples = track.samples.length > 0 ? track.samples : fragmentSamples?.get(track.id) ?? [];
+    const duration = sumDurations(samples) / track.timescale;
+    const bytes = samples.reduce((total, sample) => total + sample.size, 0);
+    const kind = track.handler === 'vide' ? 'video' : track.handler === 'soun' ? 'audio' : 'other';
+    const info: MediaTrackInfo = {
+      id: track.id,
+      kind,
+      codec: readTrackCodec(data, trak),
+      duration,
+      bitrate: duration > 0 ? Math.round((bytes * 8) / duration) : 0,
+    };
+
+    const entry = readSampleEntry(data, trak);
+    if (kind === 'video') {
+      Object.assign(info, readDisplaySize(view, data, trak, entry));
+      if (!keyframes) {
+        keyframes = samples
+          .filter((sample) => sample.sync)
+          .map((sample) => (sample.dts + sample.cto) / track.timescale);
+      }
+    } else if (kind === 'audio' && entry) {
+      info.channels = view.getUint16(entry.payloadStart + 16);
+      info.sampleRate = view.getUint32(entry.payloadStart + 24) >>> 16;
+    }
+    tracks.push(info);
+  }
+
+  const playable = tracks.filter((track) => track.kind !== 'other');
+  const duration = Math.max(0, ...playable.map((track) => track.duration));
+  const video = tracks.find((track) => track.kind === 'video');
+
+  return {
+    duration,
+    width: video?.width,
+    height: video?.height,
+    bitrate: playable.reduce((total, track) => total + track.bitrate, 0),
+    mimeType: formatMimeType('mp4', playable.flatMap((track) => (track.codec ? [track.codec] : []))),
+    tracks,
+    keyframes: keyframes ?? [],
+  };
+}
+
+/**
+ * Probes an MP4 blob, reading only its moov and moof boxes; sample tables give sizes, so mdat stays unread
+ * @returns null for blobs that are not MP4
+ */
+export async function probeMp4Blob(blob: Blob): Promise<MediaInfo | null> {
+  const header = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  if (!isMp4(header)) {
+    return null;
+  }
+  const boxes = (await readBlobBoxes(blob)).filter((box) => box.type === 'moov' || box.type === 'moof');
+  return probeMp4(await new Blob(boxes.map((box) => blob.slice(box.start, box.end))).arrayBuffer(), blob.size);
+}
+
+/**
+ * Display size from the 16.16 fixed-point tkhd fields, or the coded size of the sample entry
+ */
+function readDisplaySize(
+  view: DataView,
+  data: Uint8Array,
+  trak: Mp4Box,
+  entry: Mp4Box | null
+): { width?: number; height?: number } {
+  const tkhd = findBox(data, [trak], ['trak', 'tkhd']);
+  if (tkhd) {
+    const sizeOffset = tkhd.payloadStart + (data[tkhd.payloadStart] === 1 ? 88 : 76);
+    const width = view.getUint32(sizeOffset) >>> 16;
+    const height = view.getUint32(sizeOffset + 4) >>> 16;
+    if (width > 0 && height > 0) {
+      return { width, height };
+    }
+  }
+
+  if (entry) {
+    return { width: view.getUint16(entry.payloadStart + 24), height: view.getUint16(entry.payloadStart + 26) };
+  }
+  return {};
+}
+
+function sumDurations(samples: Mp4Sample[]): number {
+  return samples.reduce((total, sample) => total + sample.duration, 0);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { findBox, readBoxes } from './boxes';
+import { splitFragmentedMp4 } from './fragments';
+import { fragmentMp4Blob, remuxToFragmentedMp4 } from './remux';
+import { avc1Entry, buildProgressiveMp4, fixtureSamples, FixtureTrack, mp4aEntry } from './test-fixtures';
+import { readFragmentSamples, readTracks } from './tracks';
+import { concatBytes, toArrayBuffer } from './writer';
+
+/**
+ * Four seconds of 30 fps video with a keyframe every 1.5 s, and AAC audio in 1024-sample frames
+ */
+const TRACKS: FixtureTrack[] = [
+  { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(120, 1, 45, 20) },
+  { id: 2, handler: 'soun', timescale: 48000, sampleEntry: mp4aEntry(), samples: fixtureSamples(188, 1024, 1, 8) },
+];
+
+/**
+ * Reads back the samples of a remuxed file, with the bytes each one carries
+ */
+function readRemuxed(init: ArrayBuffer, fragments: ArrayBuffer[]) {
+  const data = concatBytes([new Uint8Array(init), ...fragments.map((fragment) => new Uint8Array(fragment))]);
+  const boxes = readBoxes(data);
+  const moov = boxes.find((found) => found.type === 'moov')!;
+  const samples = readFragmentSamples(data, boxes, moov);
+  return { data, moov, samples };
+}
+
+describe('remuxToFragmentedMp4', () => {
+  it('cuts fragments on video keyframes once the target duration is reached', () => {
+    const progressive = buildProgressiveMp4(TRACKS);
+    // Keyframes at 0, 1.5 and 3 s
+    const long = remuxToFragmentedMp4(progressive, { fragmentDuration: 2 });
+    const short = remuxToFragmentedMp4(progressive, { fragmentDuration: 1 });
+    expect(long.fragments).toHaveLength(2);
+    expect(short.fragments).toHaveLength(3);
+
+    const { samples } = readRemuxed(long.init, long.fragments.slice(1));
+    expect(samples.get(1)![0]).toMatchObject({ dts: 90, sync: true });
+  });
+
+  it('copies every sample with its timing, flags and data', () => {
+    const { init, fragments } = remuxToFragmentedMp4(buildProgressiveMp4(TRACKS), { fragmentDuration: 1 });
+    const { data, samples } = readRemuxed(init, fragments);
+
+    const video = samples.get(1)!;
+    expect(video).toHaveLength(120);
+    expect(video.filter((sample) => sample.sync).map((sample) => sample.dts)).toEqual([0, 45, 90]);
+    expect(video.every((sample, i) => sample.dts === i && sample.duration === 1 && sample.size === 20)).toBe(true);
+    expect(video.every((sample, i) => data.subarray(sample.offset, sample.offset + sample.size).every((byte) => byte === (i & 0xff)))).toBe(true);
+
+    const audio = samples.get(2)!;
+    expect(audio).toHaveLength(188);
+    expect(audio[187].dts).toBe(187 * 1024);
+    expect(audio.every((sample, i) => data[sample.offset] === (i & 0xff))).toBe(true);
+  });
+
+  it('writes an init segment that declares the tracks for fragments', () => {
+    const { init } = remuxToFragmentedMp4(buildProgressiveMp4(TRACKS));
+    const data = new Uint8Array(init);
+    const moov = readBoxes(data).find((found) => found.type === 'moov')!;
+
+    expect(findBox(data, [moov], ['moov', 'mvex', 'trex'])).not.toBeNull();
+    expect(readTracks(data, moov).map((track) => [track.id, track.handler, track.timescale, track.samples.length])).toEqual([
+      [1, 'vide', 30, 0],
+      [2, 'soun', 48000, 0],
+    ]);
+  });
+
+  it('produces a file that splits back into the same init and fragments', () => {
+    const { init, fragments } = remuxToFragmentedMp4(buildProgressiveMp4(TRACKS), { fragmentDuration: 1 });
+    const split = splitFragmentedMp4(toArrayBuffer(concatBytes([new Uint8Array(init), ...fragments.map((fragment) => new Uint8Array(fragment))])));
+
+    expect(split.fragments).toHaveLength(fragments.length);
+    expect(new Uint8Array(split.fragments[1])).toEqual(new Uint8Array(fragments[1]));
+  });
+
+  it('rejects files it cannot remux', () => {
+    const { init, fragments } = remuxToFragmentedMp4(buildProgressiveMp4(TRACKS));
+    const fragmented = toArrayBuffer(concatBytes([new Uint8Array(init), new Uint8Array(fragments[0])]));
+    const empty = buildProgressiveMp4([{ ...TRACKS[0], samples: [] }]);
+
+    expect(() => remuxToFragmentedMp4(fragmented)).toThrow('already fragmented');
+    expect(() => remuxToFragmentedMp4(empty)).toThrow('no audio or video samples');
+  });
+});
+
+describe('fragmentMp4Blob', () => {
+  it('remuxes progressive MP4 and leaves other blobs as they are', async () => {
+    const progressive = new Blob([buildProgressiveMp4(TRACKS)], { type: 'video/mp4' });
+    const remuxed = await fragmentMp4Blob(progressive);
+    expect(remuxed).not.toBe(progressive);
+    expect(remuxed.type).toBe('video/mp4');
+    expect(splitFragmentedMp4(await remuxed.arrayBuffer()).fragments.length).toBeGreaterThan(0);
+
+    // A fragmented blob is recognised from its moov box without reading the whole file
+    const readAll = vi.spyOn(remuxed, 'arrayBuffer');
+    expect(await fragmentMp4Blob(remuxed)).toBe(remuxed);
+    expect(readAll).not.toHaveBeenCalled();
+    const other = new Blob(['not a media file']);
+    expect(await fragmentMp4Blob(other)).toBe(other);
+  });
+});
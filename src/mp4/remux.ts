@@ -0,0 +1,248 @@
+import { findBox, isMp4, readBlobBoxes, readBoxes } from './boxes';
+import { FragmentedMp4 } from './fragments';
+import { Mp4Sample, Mp4Track, readTracks } from './tracks';
+import { box, concatBytes, fourCC, fullBox, int32, toArrayBuffer, uint32, uint64 } from './writer';
+
+/**
+ * Options for remuxing a progressive MP4
+ */
+export interface RemuxOptions {
+  /**
+   * Target length of each fragment in seconds; fragments start on a video sync sample
+   * Default: 2
+   */
+  fragmentDuration?: number;
+}
+
+/**
+ * Handler types MSE can play; other tracks (timecode, hint, metadata) are dropped
+ */
+const PLAYABLE_HANDLERS = new Set(['vide', 'soun']);
+
+/**
+ * trun flags: data-offset, sample-duration, sample-size, sample-flags, sample-composition-time-offset
+ */
+const TRUN_FLAGS = 0x000001 | 0x000100 | 0x000200 | 0x000400 | 0x000800;
+
+/**
+ * tfhd flag: sample data offsets are relative to the start of the moof
+ */
+const TFHD_DEFAULT_BASE_IS_MOOF = 0x020000;
+
+/**
+ * Sample flags of a sync sample (depends on no other sample) and of any other sample
+ */
+const SYNC_SAMPLE_FLAGS = 0x02000000;
+const NON_SYNC_SAMPLE_FLAGS = 0x01010000;
+
+/**
+ * Converts a progressive MP4 (a single `moov` with sample tables) into a fragmented MP4
+ * @throws Error when the file is not an MP4, is already fragmented, or has no audio or video track
+ */
+export function remuxToFragmentedMp4(buffer: ArrayBuffer, options: RemuxOptions = {}): FragmentedMp4 {
+  const data = new Uint8Array(buffer);
+  const boxes = readBoxes(data);
+  const moov = boxes.find((candidate) => candidate.type === 'moov');
+  if (!moov) {
+    throw new Error('Not an MP4 file: missing moov box');
+  }
+  if (findBox(data, [moov], ['moov', 'mvex'])) {
+    throw new Error('MP4 file is already fragmented');
+  }
+
+  const tracks = readTracks(data, moov).filter(
+    (track) => PLAYABLE_HANDLERS.has(track.handler) && track.samples.length > 0
+  );
+  if (tracks.length === 0) {
+    throw new Error('MP4 file has no audio or video samples');
+  }
+
+  const mvhd = findBox(data, [moov], ['moov', 'mvhd']);
+  const mvhdTimescaleOffset = mvhd ? mvhd.payloadStart + (data[mvhd.payloadStart] === 1 ? 20 : 12) : 0;
+  const movieTimescale = mvhd ? new DataView(buffer).getUint32(mvhdTimescaleOffset) : 1000;
+  return fragmentTracks(data, tracks, movieTimescale, options);
+}
+
+/**
+ * Writes tracks as a fragmented MP4: an init segment with the tracks' headers, then fragments
+ * cut on sync samples, carrying sample data read from `data` at each sample's offset
+ */
+export function fragmentTracks(
+  data: Uint8Array,
+  tracks: Mp4Track[],
+  movieTimescale: number,
+  options: RemuxOptions = {}
+): FragmentedMp4 {
+  const boundaries = getFragmentBoundaries(tracks, options.fragmentDuration ?? 2);
+
+  // Samples are in decode order, so each track is walked once across all fragments
+  const cursors = tracks.map(() => 0);
+  const fragments = boundaries.map((_, index) => {
+    const end = boundaries[index + 1] ?? Infinity;
+    const runs = tracks
+      .map((track, trackIndex) => {
+        const first = cursors[trackIndex];
+        let last = first;
+        while (last < track.samples.length && track.samples[last].dts / track.timescale < end) {
+          last++;
+        }
+        cursors[trackIndex] = last;
+        return { track, samples: track.samples.slice(first, last) };
+      })
+      .filter((run) => run.samples.length > 0);
+    return toArrayBuffer(buildFragment(data, runs, index + 1));
+  });
+
+  return {
+    init: toArrayBuffer(buildInit(tracks, movieTimescale)),
+    fragments,
+  };
+}
+
+/**
+ * Returns a fragmented version of an MP4 blob, ready to be stored and appended
+ * Blobs that are not MP4, or are already fragmented, are returned unchanged
+ */
+export async function fragmentMp4Blob(blob: Blob, options: RemuxOptions = {}): Promise<Blob> {
+  const header = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  if (!isMp4(header)) {
+    return blob;
+  }
+
+  // Only the moov box is read to tell whether the file is already fragmented
+  const moov = (await readBlobBoxes(blob)).find((candidate) => candidate.type === 'moov');
+  if (moov) {
+    const moovData = new Uint8Array(await blob.slice(moov.start, moov.end).arrayBuffer());
+    if (findBox(moovData, readBoxes(moovData), ['moov', 'mvex'])) {
+      return blob;
+    }
+  }
+
+  const { init, fragments } = remuxToFragmentedMp4(await blob.arrayBuffer(), options);
+  return new Blob([init, ...fragments], { type: blob.type || 'video/mp4' });
+}
+
+/**
+ * Start times of the fragments, in seconds
+ * Fragments are cut on sync samples of the first video track, or of the first track without video
+ */
+function getFragmentBoundaries(tracks: Mp4Track[], fragmentDuration: number): number[] {
+  const reference = tracks.find((track) => track.handler === 'vide') ?? tracks[0];
+  const boundaries = [0];
+  let fragmentStart = 0;
+
+  for (const sample of reference.samples) {
+    const time = sample.dts / reference.timescale;
+    if (sample.sync && time - fragmentStart >= fragmentDuration) {
+      boundaries.push(time);
+      fragmentStart = time;
+    }
+  }
+
+  return boundaries;
+}
+
+function buildInit(tracks: Mp4Track[], timescale: number): Uint8Array {
+  const ftyp = box('ftyp', fourCC('iso6'), uint32(0), fourCC('iso6'), fourCC('isom'), fourCC('mp41'));
+  const nextTrackId = Math.max(...tracks.map((track) => track.id)) + 1;
+
+  const moov = box(
+    'moov',
+    buildMvhd(timescale, nextTrackId),
+    tracks.map((track) => buildTrak(track)),
+    box('mvex', tracks.map((track) => fullBox('trex', 0, 0, uint32(track.id), uint32(1), uint32(0), uint32(0), uint32(0))))
+  );
+  return concatBytes([ftyp, moov]);
+}
+
+/**
+ * Movie header with a zero duration; the duration of a fragmented file comes from its fragments
+ */
+function buildMvhd(timescale: number, nextTrackId: number): Uint8Array {
+  const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+  return fullBox(
+    'mvhd',
+    0,
+    0,
+    uint32(0), // creation_time
+    uint32(0), // modification_time
+    uint32(timescale),
+    uint32(0), // duration
+    uint32(0x00010000), // rate 1.0
+    Uint8Array.of(0x01, 0x00), // volume 1.0
+    new Uint8Array(10), // reserved
+    matrix.map((value) => uint32(value)),
+    new Uint8Array(24), // pre_defined
+    uint32(nextTrackId)
+  );
+}
+
+/**
+ * Copies the track's headers and sample description, with empty sample tables
+ */
+function buildTrak(track: Mp4Track): Uint8Array {
+  const { tkhd, edts, mdhd, hdlr, mediaHeader, dinf, stsd } = track.boxes;
+  const stbl = box(
+    'stbl',
+    stsd,
+    fullBox('stts', 0, 0, uint32(0)),
+    fullBox('stsc', 0, 0, uint32(0)),
+    fullBox('stsz', 0, 0, uint32(0), uint32(0)),
+    fullBox('stco', 0, 0, uint32(0))
+  );
+  const minf = box('minf', mediaHeader ?? [], dinf ?? [], stbl);
+  return box('trak', tkhd, edts ?? [], box('mdia', mdhd, hdlr, minf));
+}
+
+/**
+ * Sample run of one track within a fragment
+ */
+interface TrackRun {
+  track: Mp4Track;
+  samples: Mp4Sample[];
+}
+
+/**
+ * Builds the moof and mdat of one fragment, with the sample data of each run back to back
+ */
+function buildFragment(data: Uint8Array, runs: TrackRun[], sequence: number): Uint8Array {
+  // The moof size does not depend on the data offsets, so build it once to measure it
+  const moofSize = buildMoof(runs, sequence, []).byteLength;
+  const dataOffsets: number[] = [];
+  let offset = moofSize + 8;
+  for (const run of runs) {
+    dataOffsets.push(offset);
+    offset += run.samples.reduce((total, sample) => total + sample.size, 0);
+  }
+
+  const mdat = box('mdat', runs.map((run) => run.samples.map((sample) => data.subarray(sample.offset, sample.offset + sample.size))));
+  return concatBytes([buildMoof(runs, sequence, dataOffsets), mdat]);
+}
+
+function buildMoof(runs: TrackRun[], sequence: number, dataOffsets: number[]): Uint8Array {
+  return box(
+    'moof',
+    fullBox('mfhd', 0, 0, uint32(sequence)),
+    runs.map((run, index) => {
+      const signedOffsets = run.samples.some((sample) => sample.cto < 0);
+      return box(
+        'traf',
+        fullBox('tfhd', 0, TFHD_DEFAULT_BASE_IS_MOOF, uint32(run.track.id)),
+        fullBox('tfdt', 1, 0, uint64(run.samples[0].dts)),
+        fullBox(
+          'trun',
+          signedOffsets ? 1 : 0,
+          TRUN_FLAGS,
+          uint32(run.samples.length),
+          int32(dataOffsets[index] ?? 0),
+          run.samples.map((sample) => [
+            uint32(sample.duration),
+            uint32(sample.size),
+            uint32(sample.sync ? SYNC_SAMPLE_FLAGS : NON_SYNC_SAMPLE_FLAGS),
+            signedOffsets ? int32(sample.cto) : uint32(sample.cto),
+          ])
+        )
+      );
+    })
+  );
+}
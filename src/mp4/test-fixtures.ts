@@ -0,0 +1,153 @@
+import { box, concatBytes, fullBox, fourCC, toArrayBuffer, uint16, uint32 } from './writer';
+
+/**
+ * Builders for small MP4 files used by the tests; not part of the published build
+ */
+
+/**
+ * Sample of a fixture track; its data is `size` bytes, each set to the sample's index in the track
+ */
+export interface FixtureSample {
+  duration: number;
+  size: number;
+  sync?: boolean;
+  cto?: number;
+}
+
+/**
+ * Track of a fixture file
+ */
+export interface FixtureTrack {
+  id: number;
+  handler: 'vide' | 'soun';
+  timescale: number;
+  /** Sample entry box, e.g. from `avc1Entry()` or `mp4aEntry()` */
+  sampleEntry: Uint8Array;
+  samples: FixtureSample[];
+  /** Display size written to the tkhd */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Builds `count` samples of equal duration, with a sync sample every `syncEvery`
+ */
+export function fixtureSamples(count: number, duration: number, syncEvery = 1, size = 16): FixtureSample[] {
+  return Array.from({ length: count }, (_, i) => ({ duration, size, sync: i % syncEvery === 0 }));
+}
+
+/**
+ * H.264 sample entry whose avcC declares `profile`, `compatibility` and `level`, e.g. `avc1.64001F`
+ */
+export function avc1Entry(width = 640, height = 360, profile = 0x64, compatibility = 0x00, level = 0x1f): Uint8Array {
+  const avcC = box('avcC', Uint8Array.of(1, profile, compatibility, level, 0xff, 0xe0, 0x00));
+  return box('avc1', visualEntryFields(width, height), avcC);
+}
+
+/**
+ * AV1 sample entry; `config` is the four-byte AV1CodecConfigurationRecord
+ */
+export function av01Entry(config: number[], width = 640, height = 360): Uint8Array {
+  return box('av01', visualEntryFields(width, height), box('av1C', Uint8Array.from(config)));
+}
+
+/**
+ * AAC sample entry with an esds declaring `audioObjectType`, e.g. 2 for `mp4a.40.2`
+ */
+export function mp4aEntry(audioObjectType = 2, channels = 2, sampleRate = 48000): Uint8Array {
+  const specificInfo = Uint8Array.of(0x05, 2, (audioObjectType << 3) | 0x01, 0x90);
+  const decoderConfig = concatBytes([
+    Uint8Array.of(0x04, 13 + specificInfo.byteLength, 0x40, 0x15),
+    new Uint8Array(11),
+    specificInfo,
+  ]);
+  const es = concatBytes([Uint8Array.of(0x03, 3 + decoderConfig.byteLength, 0, 1, 0), decoderConfig]);
+  return box(
+    'mp4a',
+    new Uint8Array(6),
+    uint16(1), // data_reference_index
+    new Uint8Array(8),
+    uint16(channels),
+    uint16(16),
+    new Uint8Array(4),
+    uint32(sampleRate << 16),
+    fullBox('esds', 0, 0, es)
+  );
+}
+
+/**
+ * Builds a progressive MP4: ftyp, moov with one chunk per track, then an mdat
+ */
+export function buildProgressiveMp4(tracks: FixtureTrack[]): ArrayBuffer {
+  const ftyp = box('ftyp', fourCC('isom'), uint32(0), fourCC('isom'), fourCC('mp41'));
+  const payloads = tracks.map((track) => concatBytes(track.samples.map((sample, i) => new Uint8Array(sample.size).fill(i))));
+
+  // Chunk offsets do not change the moov size, so build it once to measure it
+  const measured = buildMoov(tracks, tracks.map(() => 0));
+  let offset = ftyp.byteLength + measured.byteLength + 8;
+  const chunkOffsets = payloads.map((payload) => {
+    const chunkOffset = offset;
+    offset += payload.byteLength;
+    return chunkOffset;
+  });
+
+  return toArrayBuffer(concatBytes([ftyp, buildMoov(tracks, chunkOffsets), box('mdat', payloads)]));
+}
+
+function buildMoov(tracks: FixtureTrack[], chunkOffsets: number[]): Uint8Array {
+  const mvhd = fullBox('mvhd', 0, 0, uint32(0), uint32(0), uint32(1000), uint32(0), new Uint8Array(80));
+  return box('moov', mvhd, tracks.map((track, index) => buildTrak(track, chunkOffsets[index])));
+}
+
+function buildTrak(track: FixtureTrack, chunkOffset: number): Uint8Array {
+  const { samples } = track;
+  const duration = samples.reduce((total, sample) => total + sample.duration, 0);
+  const tkhd = fullBox(
+    'tkhd',
+    0,
+    3,
+    uint32(0),
+    uint32(0),
+    uint32(track.id),
+    uint32(0),
+    uint32(duration),
+    new Uint8Array(52),
+    uint32((track.width ?? 0) << 16),
+    uint32((track.height ?? 0) << 16)
+  );
+  const mdhd = fullBox('mdhd', 0, 0, uint32(0), uint32(0), uint32(track.timescale), uint32(duration), new Uint8Array(4));
+  const hdlr = fullBox('hdlr', 0, 0, uint32(0), fourCC(track.handler), new Uint8Array(13));
+  const mediaHeader = track.handler === 'vide' ? fullBox('vmhd', 0, 1, new Uint8Array(8)) : fullBox('smhd', 0, 0, new Uint8Array(4));
+
+  const syncSamples = samples.flatMap((sample, i) => (sample.sync === false ? [] : [i + 1]));
+  const stbl = box(
+    'stbl',
+    fullBox('stsd', 0, 0, uint32(1), track.sampleEntry),
+    fullBox('stts', 0, 0, uint32(samples.length), samples.map((sample) => [uint32(1), uint32(sample.duration)])),
+    samples.some((sample) => sample.cto)
+      ? fullBox('ctts', 0, 0, uint32(samples.length), samples.map((sample) => [uint32(1), uint32(sample.cto ?? 0)]))
+      : [],
+    syncSamples.length < samples.length ? fullBox('stss', 0, 0, uint32(syncSamples.length), syncSamples.map(uint32)) : [],
+    fullBox('stsc', 0, 0, uint32(1), uint32(1), uint32(samples.length), uint32(1)),
+    fullBox('stsz', 0, 0, uint32(0), uint32(samples.length), samples.map((sample) => uint32(sample.size))),
+    fullBox('stco', 0, 0, uint32(1), uint32(chunkOffset))
+  );
+  return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, stbl)));
+}
+
+function visualEntryFields(width: number, height: number): Uint8Array {
+  return concatBytes([
+    new Uint8Array(6),
+    uint16(1), // data_reference_index
+    new Uint8Array(16),
+    uint16(width),
+    uint16(height),
+    uint32(0x00480000),
+    uint32(0x00480000),
+    new Uint8Array(4),
+    uint16(1), // frame_count
+    new Uint8Array(32),
+    uint16(0x0018),
+    uint16(0xffff),
+  ]);
+}
@@ -0,0 +1,362 @@
+import { findBox, findBoxes, Mp4Box, readChildren } from './boxes';
+
+/**
+ * One sample of a progressive MP4 track, in the track's timescale
+ */
+export interface Mp4Sample {
+  /** Decode timestamp */
+  dts: number;
+  duration: number;
+  /** Composition offset, added to dts to get the presentation timestamp */
+  cto: number;
+  /** Offset of the sample data in the file */
+  offset: number;
+  size: number;
+  /** Whether the sample can be decoded without earlier samples */
+  sync: boolean;
+}
+
+/**
+ * A track of a progressive MP4 file
+ * Header boxes are kept as raw bytes so they can be copied into a fragmented init segment
+ */
+export interface Mp4Track {
+  id: number;
+  /** `hdlr` handler type, e.g. `vide` or `soun` */
+  handler: string;
+  timescale: number;
+  boxes: {
+    tkhd: Uint8Array;
+    edts: Uint8Array | null;
+    mdhd: Uint8Array;
+    hdlr: Uint8Array;
+    /** `vmhd`, `smhd`, `sthd` or `nmhd` */
+    mediaHeader: Uint8Array | null;
+    dinf: Uint8Array | null;
+    stsd: Uint8Array;
+  };
+  samples: Mp4Sample[];
+}
+
+/**
+ * Reads the tracks and sample tables of a `moov` box
+ * @param fileSize - Size of the file the sample offsets point into, when `data` holds only some of its boxes
+ * @throws Error when a required box is missing or the sample tables are inconsistent
+ */
+export function readTracks(data: Uint8Array, moov: Mp4Box, fileSize = data.byteLength): Mp4Track[] {
+  return findBoxes(readChildren(data, moov), 'trak').map((trak) => readTrack(data, trak, fileSize));
+}
+
+function readTrack(data: Uint8Array, trak: Mp4Box, fileSize: number): Mp4Track {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const children = readChildren(data, trak);
+  const tkhd = requireBox(data, children, ['tkhd']);
+  const mdia = requireBox(data, children, ['mdia']);
+  const mdiaChildren = readChildren(data, mdia);
+  const mdhd = requireBox(data, mdiaChildren, ['mdhd']);
+  const hdlr = requireBox(data, mdiaChildren, ['hdlr']);
+  const minf = requireBox(data, mdiaChildren, ['minf']);
+  const minfChildren = readChildren(data, minf);
+  const stbl = requireBox(data, minfChildren, ['stbl']);
+  const stblChildren = readChildren(data, stbl);
+
+  const tkhdVersion = data[tkhd.payloadStart];
+  const id = view.getUint32(tkhd.payloadStart + (tkhdVersion === 1 ? 20 : 12));
+  const mdhdVersion = data[mdhd.payloadStart];
+  const timescale = view.getUint32(mdhd.payloadStart + (mdhdVersion === 1 ? 20 : 12));
+  const handler = String.fromCharCode(...data.subarray(hdlr.payloadStart + 8, hdlr.payloadStart + 12));
+  const mediaHeader = minfChildren.find((box) => ['vmhd', 'smhd', 'sthd', 'nmhd'].includes(box.type)) ?? null;
+  const dinf = findBox(data, minfChildren, ['dinf']);
+  const edts = findBox(data, children, ['edts']);
+
+  return {
+    id,
+    handler,
+    timescale,
+    boxes: {
+      tkhd: bytesOf(data, tkhd),
+      edts: edts ? bytesOf(data, edts) : null,
+      mdhd: bytesOf(data, mdhd),
+      hdlr: bytesOf(data, hdlr),
+      mediaHeader: mediaHeader ? bytesOf(data, mediaHeader) : null,
+      dinf: dinf ? bytesOf(data, dinf) : null,
+      stsd: bytesOf(data, requireBox(data, stblChildren, ['stsd'])),
+    },
+    samples: readSamples(data, view, stblChildren, id, fileSize),
+  };
+}
+
+function readSamples(data: Uint8Array, view: DataView, stbl: Mp4Box[], trackId: number, fileSize: number): Mp4Sample[] {
+  const sizes = readSampleSizes(data, view, stbl);
+  const durations = expandRuns(view, requireBox(data, stbl, ['stts']));
+  const ctts = findBox(data, stbl, ['ctts']);
+  const offsets = ctts ? expandRuns(view, ctts, true) : null;
+  const chunkOffsets = readChunkOffsets(data, view, stbl);
+  const syncSamples = readSyncSamples(data, view, stbl);
+
+  if (durations.length < sizes.length) {
+    throw new Error(`Track ${trackId}: stts describes ${durations.length} samples, stsz ${sizes.length}`);
+  }
+
+  // stsc maps chunks to sample counts; walk it to find the file offset of every sample
+  const stsc = requireBox(data, stbl, ['stsc']);
+  const stscCount = view.getUint32(stsc.payloadStart + 4);
+  const samples: Mp4Sample[] = [];
+  let sampleIndex = 0;
+  let dts = 0;
+
+  for (let entry = 0; entry < stscCount && sampleIndex < sizes.length; entry++) {
+    const entryOffset = stsc.payloadStart + 8 + entry * 12;
+    const firstChunk = view.getUint32(entryOffset) - 1;
+    const samplesPerChunk = view.getUint32(entryOffset + 4);
+    const lastChunk = entry + 1 < stscCount ? view.getUint32(entryOffset + 12) - 1 : chunkOffsets.length;
+
+    for (let chunk = firstChunk; chunk < lastChunk && sampleIndex < sizes.length; chunk++) {
+      let offset = chunkOffsets[chunk];
+      if (offset === undefined) {
+        throw new Error(`Track ${trackId}: stsc references missing chunk ${chunk + 1}`);
+      }
+
+      for (let i = 0; i < samplesPerChunk && sampleIndex < sizes.length; i++) {
+        const size = sizes[sampleIndex];
+        if (offset + size > fileSize) {
+          throw new Error(`Track ${trackId}: sample ${sampleIndex + 1} lies outside the file`);
+        }
+
+        const duration = durations[sampleIndex];
+        samples.push({
+          dts,
+          duration,
+          cto: offsets?.[sampleIndex] ?? 0,
+          offset,
+          size,
+          sync: syncSamples ? syncSamples.has(sampleIndex + 1) : true,
+        });
+        dts += duration;
+        offset += size;
+        sampleIndex++;
+      }
+    }
+  }
+
+  if (samples.length < sizes.length) {
+    throw new Error(`Track ${trackId}: chunk tables cover ${samples.length} of ${sizes.length} samples`);
+  }
+  return samples;
+}
+
+function readSampleSizes(data: Uint8Array, view: DataView, stbl: Mp4Box[]): number[] {
+  const stsz = findBox(data, stbl, ['stsz']);
+  if (stsz) {
+    const fixedSize = view.getUint32(stsz.payloadStart + 4);
+    const count = view.getUint32(stsz.payloadStart + 8);
+    if (fixedSize !== 0) {
+      return new Array<number>(count).fill(fixedSize);
+    }
+    return Array.from({ length: count }, (_, i) => view.getUint32(stsz.payloadStart + 12 + i * 4));
+  }
+
+  const stz2 = requireBox(data, stbl, ['stz2']);
+  const fieldSize = data[stz2.payloadStart + 7];
+  const count = view.getUint32(stz2.payloadStart + 8);
+  const start = stz2.payloadStart + 12;
+  return Array.from({ length: count }, (_, i) => {
+    if (fieldSize === 4) {
+      const byte = data[start + (i >> 1)];
+      return i % 2 === 0 ? byte >> 4 : byte & 0x0f;
+    }
+    return fieldSize === 8 ? data[start + i] : view.getUint16(start + i * 2);
+  });
+}
+
+function readChunkOffsets(data: Uint8Array, view: DataView, stbl: Mp4Box[]): number[] {
+  const stco = findBox(data, stbl, ['stco']);
+  if (stco) {
+    const count = view.getUint32(stco.payloadStart + 4);
+    return Array.from({ length: count }, (_, i) => view.getUint32(stco.payloadStart + 8 + i * 4));
+  }
+
+  const co64 = requireBox(data, stbl, ['co64']);
+  const count = view.getUint32(co64.payloadStart + 4);
+  return Array.from({ length: count }, (_, i) => Number(view.getBigUint64(co64.payloadStart + 8 + i * 8)));
+}
+
+function readSyncSamples(data: Uint8Array, view: DataView, stbl: Mp4Box[]): Set<number> | null {
+  const stss = findBox(data, stbl, ['stss']);
+  if (!stss) {
+    return null;
+  }
+
+  const count = view.getUint32(stss.payloadStart + 4);
+  const samples = new Set<number>();
+  for (let i = 0; i < count; i++) {
+    samples.add(view.getUint32(stss.payloadStart + 8 + i * 4));
+  }
+  return samples;
+}
+
+/**
+ * Expands a run-length table of (count, value) pairs, as used by `stts` and `ctts`
+ * @param signed - Read values as signed; `ctts` offsets can be negative
+ */
+function expandRuns(view: DataView, table: Mp4Box, signed = false): number[] {
+  const count = view.getUint32(table.payloadStart + 4);
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const entryOffset = table.payloadStart + 8 + i * 8;
+    const runLength = view.getUint32(entryOffset);
+    const value = signed ? view.getInt32(entryOffset + 4) : view.getUint32(entryOffset + 4);
+    for (let j = 0; j < runLength; j++) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+function requireBox(data: Uint8Array, boxes: Mp4Box[], path: string[]): Mp4Box {
+  const box = findBox(data, boxes, path);
+  if (!box) {
+    throw new Error(`MP4 file is missing its ${path.join('/')} box`);
+  }
+  return box;
+}
+
+function bytesOf(data: Uint8Array, box: Mp4Box): Uint8Array {
+  return data.subarray(box.start, box.end);
+}
+
+
+/**
+ * tfhd and trun flags that announce optional fields
+ */
+const TFHD_BASE_DATA_OFFSET = 0x000001;
+const TFHD_SAMPLE_DESCRIPTION_INDEX = 0x000002;
+const TFHD_DEFAULT_DURATION = 0x000008;
+const TFHD_DEFAULT_SIZE = 0x000010;
+const TFHD_DEFAULT_FLAGS = 0x000020;
+const TRUN_DATA_OFFSET = 0x000001;
+const TRUN_FIRST_SAMPLE_FLAGS = 0x000004;
+const TRUN_DURATION = 0x000100;
+const TRUN_SIZE = 0x000200;
+const TRUN_FLAGS = 0x000400;
+const TRUN_COMPOSITION_OFFSET = 0x000800;
+
+/**
+ * sample_is_non_sync_sample bit of the sample flags
+ */
+const NON_SYNC_SAMPLE = 0x00010000;
+
+/**
+ * Reads the samples described by the movie fragments of a fragmented MP4, keyed by track ID
+ * Defaults come from the `trex` boxes of `moov/mvex` and from each `tfhd`
+ */
+export function readFragmentSamples(data: Uint8Array, boxes: Mp4Box[], moov: Mp4Box): Map<number, Mp4Sample[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const defaults = new Map<number, { duration: number; size: number; flags: number }>();
+  const mvex = findBox(data, [moov], ['moov', 'mvex']);
+  for (const trex of mvex ? findBoxes(readChildren(data, mvex), 'trex') : []) {
+    defaults.set(view.getUint32(trex.payloadStart + 4), {
+      duration: view.getUint32(trex.payloadStart + 12),
+      size: view.getUint32(trex.payloadStart + 16),
+      flags: view.getUint32(trex.payloadStart + 20),
+    });
+  }
+
+  const samplesByTrack = new Map<number, Mp4Sample[]>();
+  const nextDts = new Map<number, number>();
+
+  for (const moof of findBoxes(boxes, 'moof')) {
+    for (const traf of findBoxes(readChildren(data, moof), 'traf')) {
+      const children = readChildren(data, traf);
+      const tfhd = requireBox(data, children, ['tfhd']);
+      const tfhdFlags = view.getUint32(tfhd.payloadStart) & 0xffffff;
+      const trackId = view.getUint32(tfhd.payloadStart + 4);
+      const trackDefaults = { ...(defaults.get(trackId) ?? { duration: 0, size: 0, flags: 0 }) };
+
+      let cursor = tfhd.payloadStart + 8;
+      let baseOffset = moof.start;
+      if (tfhdFlags & TFHD_BASE_DATA_OFFSET) {
+        baseOffset = Number(view.getBigUint64(cursor));
+        cursor += 8;
+      }
+      if (tfhdFlags & TFHD_SAMPLE_DESCRIPTION_INDEX) {
+        cursor += 4;
+      }
+      if (tfhdFlags & TFHD_DEFAULT_DURATION) {
+        trackDefaults.duration = view.getUint32(cursor);
+        cursor += 4;
+      }
+      if (tfhdFlags & TFHD_DEFAULT_SIZE) {
+        trackDefaults.size = view.getUint32(cursor);
+        cursor += 4;
+      }
+      if (tfhdFlags & TFHD_DEFAULT_FLAGS) {
+        trackDefaults.flags = view.getUint32(cursor);
+      }
+
+      const tfdt = findBox(data, children, ['tfdt']);
+      let dts = nextDts.get(trackId) ?? 0;
+      if (tfdt) {
+        dts = data[tfdt.payloadStart] === 1
+          ? Number(view.getBigUint64(tfdt.payloadStart + 4))
+          : view.getUint32(tfdt.payloadStart + 4);
+      }
+
+      let samples = samplesByTrack.get(trackId);
+      if (!samples) {
+        samples = [];
+        samplesByTrack.set(trackId, samples);
+      }
+
+      let offset = baseOffset;
+      for (const trun of findBoxes(children, 'trun')) {
+        const trunVersion = data[trun.payloadStart];
+        const trunFlags = view.getUint32(trun.payloadStart) & 0xffffff;
+        const count = view.getUint32(trun.payloadStart + 4);
+        let position = trun.payloadStart + 8;
+        if (trunFlags & TRUN_DATA_OFFSET) {
+          offset = baseOffset + view.getInt32(position);
+          position += 4;
+        }
+        let firstSampleFlags: number | null = null;
+        if (trunFlags & TRUN_FIRST_SAMPLE_FLAGS) {
+          firstSampleFlags = view.getUint32(position);
+          position += 4;
+        }
+
+        for (let i = 0; i < count; i++) {
+          let duration = trackDefaults.duration;
+          let size = trackDefaults.size;
+          let flags = i === 0 && firstSampleFlags !== null ? firstSampleFlags : trackDefaults.flags;
+          let cto = 0;
+          if (trunFlags & TRUN_DURATION) {
+            duration = view.getUint32(position);
+            position += 4;
+          }
+          if (trunFlags & TRUN_SIZE) {
+            size = view.getUint32(position);
+            position += 4;
+          }
+          if (trunFlags & TRUN_FLAGS) {
+            flags = view.getUint32(position);
+            position += 4;
+          }
+          if (trunFlags & TRUN_COMPOSITION_OFFSET) {
+            cto = trunVersion === 1 ? view.getInt32(position) : view.getUint32(position);
+            position += 4;
+          }
+          if (position > trun.end) {
+            throw new Error(`Track ${trackId}: trun declares more samples than it holds`);
+          }
+
+          samples.push({ dts, duration, cto, offset, size, sync: (flags & NON_SYNC_SAMPLE) === 0 });
+          dts += duration;
+          offset += size;
+        }
+      }
+      nextDts.set(trackId, dts);
+    }
+  }
+
+  return samplesByTrack;
+}
@@ -0,0 +1,96 @@
+/**
+ * Bytes, or nested lists of bytes, that make up a box payload
+ */
+export type BoxContent = Uint8Array | BoxContent[];
+
+/**
+ * Builds an ISO-BMFF box from its type and payload
+ */
+export function box(type: string, ...content: BoxContent[]): Uint8Array {
+  const payload = concatBytes(content);
+  const result = new Uint8Array(8 + payload.byteLength);
+  const view = new DataView(result.buffer);
+  view.setUint32(0, result.byteLength);
+  for (let i = 0; i < 4; i++) {
+    result[4 + i] = type.charCodeAt(i);
+  }
+  result.set(payload, 8);
+  return result;
+}
+
+/**
+ * Builds a full box, whose payload starts with a version byte and 24 bits of flags
+ */
+export function fullBox(type: string, version: number, flags: number, ...content: BoxContent[]): Uint8Array {
+  return box(type, uint32((version << 24) | (flags & 0xffffff)), ...content);
+}
+
+export function uint8(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff);
+}
+
+export function uint16(value: number): Uint8Array {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+}
+
+export function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+export function int32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value);
+  return bytes;
+}
+
+export function uint64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(Math.max(0, Math.floor(value))));
+  return bytes;
+}
+
+/**
+ * Encodes a four-character code, e.g. a brand
+ */
+export function fourCC(code: string): Uint8Array {
+  return Uint8Array.from(code.slice(0, 4).padEnd(4, ' '), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Flattens box content into a single byte array
+ */
+export function concatBytes(content: BoxContent[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const collect = (items: BoxContent[]) => {
+    for (const item of items) {
+      if (item instanceof Uint8Array) {
+        parts.push(item);
+      } else {
+        collect(item);
+      }
+    }
+  };
+  collect(content);
+
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Copies a byte array into an ArrayBuffer of exactly its length
+ */
+export function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) {
+    return bytes.buffer as ArrayBuffer;
+  }
+  return bytes.slice().buffer;
+}
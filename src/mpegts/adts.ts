@@ -0,0 +1,109 @@
+import { box, concatBytes, fullBox, uint16, uint32 } from '../mp4/writer';
+
+/**
+ * Samples per AAC frame
+ */
+export const AAC_FRAME_SAMPLES = 1024;
+
+/**
+ * Sampling frequencies indexed by the ADTS sampling_frequency_index
+ */
+const SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/**
+ * Stream parameters from an ADTS header
+ */
+export interface AdtsConfig {
+  /** MPEG-4 audio object type, 2 for AAC-LC */
+  objectType: number;
+  sampleRateIndex: number;
+  sampleRate: number;
+  channels: number;
+}
+
+/**
+ * Raw AAC frames read from ADTS data, and any trailing bytes of a frame that continues in the next PES
+ */
+export interface AdtsFrames {
+  config: AdtsConfig | null;
+  frames: Uint8Array[];
+  remainder: Uint8Array;
+}
+
+/**
+ * Splits ADTS data into raw AAC frames, dropping the ADTS headers
+ * Bytes before the first sync word are skipped
+ */
+export function readAdtsFrames(data: Uint8Array): AdtsFrames {
+  const frames: Uint8Array[] = [];
+  let config: AdtsConfig | null = null;
+  let offset = 0;
+
+  while (offset + 7 <= data.byteLength) {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xf6) !== 0xf0) {
+      offset++;
+      continue;
+    }
+
+    const headerLength = data[offset + 1] & 0x01 ? 7 : 9;
+    const frameLength = ((data[offset + 3] & 0x03) << 11) | (data[offset + 4] << 3) | (data[offset + 5] >> 5);
+    if (frameLength < headerLength) {
+      offset++;
+      continue;
+    }
+    if (offset + frameLength > data.byteLength) {
+      break;
+    }
+
+    if (!config) {
+      const sampleRateIndex = (data[offset + 2] >> 2) & 0x0f;
+      config = {
+        objectType: (data[offset + 2] >> 6) + 1,
+        sampleRateIndex,
+        sampleRate: SAMPLE_RATES[sampleRateIndex] ?? 48000,
+        channels: ((data[offset + 2] & 0x01) << 2) | (data[offset + 3] >> 6),
+      };
+    }
+    frames.push(data.subarray(offset + headerLength, offset + frameLength));
+    offset += frameLength;
+  }
+
+  return { config, frames, remainder: data.subarray(offset) };
+}
+
+/**
+ * Builds an `mp4a` sample entry whose `esds` carries the AudioSpecificConfig
+ */
+export function buildMp4aEntry(config: AdtsConfig): Uint8Array {
+  const audioSpecificConfig = uint16((config.objectType << 11) | (config.sampleRateIndex << 7) | (config.channels << 3));
+  const decoderConfig = descriptor(
+    0x04,
+    Uint8Array.of(0x40, 0x15), // MPEG-4 audio, audio stream
+    new Uint8Array(3), // bufferSizeDB
+    uint32(0), // maxBitrate
+    uint32(0), // avgBitrate
+    descriptor(0x05, audioSpecificConfig)
+  );
+  const slConfig = descriptor(0x06, Uint8Array.of(0x02));
+  const esDescriptor = descriptor(0x03, uint16(0), Uint8Array.of(0), decoderConfig, slConfig);
+
+  return box(
+    'mp4a',
+    new Uint8Array(6), // reserved
+    uint16(1), // data_reference_index
+    new Uint8Array(8), // reserved
+    uint16(config.channels),
+    uint16(16), // samplesize
+    new Uint8Array(4), // pre_defined and reserved
+    uint32(config.sampleRate * 65536),
+    fullBox('esds', 0, 0, esDescriptor)
+  );
+}
+
+/**
+ * MPEG-4 descriptor with a one-byte size, enough for the short descriptors of an esds
+ */
+function descriptor(tag: number, ...content: Uint8Array[]): Uint8Array {
+  const payload = concatBytes(content);
+  return concatBytes([Uint8Array.of(tag, payload.byteLength), payload]);
+}
@@ -0,0 +1,205 @@
+import { concatBytes } from '../mp4/writer';
+
+/**
+ * Size of an MPEG-TS packet
+ */
+export const TS_PACKET_SIZE = 188;
+
+const SYNC_BYTE = 0x47;
+const PAT_PID = 0x0000;
+
+/**
+ * PMT stream types the transmuxer understands
+ */
+export const StreamType = {
+  H264: 0x1b,
+  AdtsAac: 0x0f,
+} as const;
+
+/**
+ * Elementary stream declared in the PMT
+ */
+export interface TsStream {
+  pid: number;
+  /** PMT stream_type, e.g. 0x1b for H.264 */
+  streamType: number;
+}
+
+/**
+ * Reassembled PES packet, timestamps in 90 kHz units
+ */
+export interface PesPacket {
+  pts: number | null;
+  dts: number | null;
+  data: Uint8Array;
+}
+
+/**
+ * Elementary streams of a transport stream with their PES packets in arrival order
+ */
+export interface DemuxedTs {
+  streams: TsStream[];
+  packets: Map<number, PesPacket[]>;
+}
+
+/**
+ * Checks whether a buffer starts with MPEG-TS packets
+ * Looks for the sync byte at the start of the first two packets when the buffer is long enough
+ */
+export function isTransportStream(data: Uint8Array): boolean {
+  if (data.byteLength < 1 || data[0] !== SYNC_BYTE) {
+    return false;
+  }
+  return data.byteLength <= TS_PACKET_SIZE || data[TS_PACKET_SIZE] === SYNC_BYTE;
+}
+
+/**
+ * Demuxes a transport stream: reads the first program's PMT and reassembles the PES packets
+ * of its elementary streams
+ * @throws Error when the stream has lost sync or declares no program
+ */
+export function demuxTransportStream(data: Uint8Array): DemuxedTs {
+  let pmtPid: number | null = null;
+  let streams: TsStream[] | null = null;
+  const pending = new Map<number, Uint8Array[]>();
+  const packets = new Map<number, PesPacket[]>();
+
+  const flush = (pid: number) => {
+    const chunks = pending.get(pid);
+    if (chunks && chunks.length > 0) {
+      const pes = parsePes(chunks.length === 1 ? chunks[0] : concatBytes(chunks));
+      if (pes) {
+        packets.get(pid)?.push(pes);
+      }
+    }
+    pending.set(pid, []);
+  };
+
+  for (let offset = 0; offset + TS_PACKET_SIZE <= data.byteLength; offset += TS_PACKET_SIZE) {
+    if (data[offset] !== SYNC_BYTE) {
+      throw new Error(`MPEG-TS packet at offset ${offset} has no sync byte`);
+    }
+
+    const payloadStart = (data[offset + 1] & 0x40) !== 0;
+    const pid = ((data[offset + 1] & 0x1f) << 8) | data[offset + 2];
+    const adaptationControl = (data[offset + 3] >> 4) & 0x03;
+    if (!(adaptationControl & 0x01)) {
+      continue;
+    }
+
+    const headerLength = adaptationControl & 0x02 ? 5 + data[offset + 4] : 4;
+    if (headerLength >= TS_PACKET_SIZE) {
+      continue;
+    }
+    const payload = data.subarray(offset + headerLength, offset + TS_PACKET_SIZE);
+
+    if (pid === PAT_PID && payloadStart) {
+      pmtPid = pmtPid ?? readPat(payload);
+    } else if (pid === pmtPid && payloadStart && !streams) {
+      streams = readPmt(payload);
+      for (const stream of streams) {
+        pending.set(stream.pid, []);
+        packets.set(stream.pid, []);
+      }
+    } else if (pending.has(pid)) {
+      if (payloadStart) {
+        flush(pid);
+      }
+      // Continuation packets before the first PES header carry no usable data
+      const chunks = pending.get(pid) as Uint8Array[];
+      if (payloadStart || chunks.length > 0) {
+        chunks.push(payload);
+      }
+    }
+  }
+
+  if (!streams) {
+    const missing = pmtPid === null ? 'program association table' : 'program map table';
+    throw new Error(`MPEG-TS file has no ${missing}`);
+  }
+  for (const pid of pending.keys()) {
+    flush(pid);
+  }
+
+  return { streams, packets };
+}
+
+/**
+ * Returns the PMT PID of the first program in a PAT
+ */
+function readPat(payload: Uint8Array): number | null {
+  const section = readSection(payload);
+  if (!section) {
+    return null;
+  }
+
+  // Program loop after the 8-byte section header, up to the CRC
+  for (let offset = 8; offset + 4 <= section.length - 4; offset += 4) {
+    const programNumber = (section[offset] << 8) | section[offset + 1];
+    if (programNumber !== 0) {
+      return ((section[offset + 2] & 0x1f) << 8) | section[offset + 3];
+    }
+  }
+  return null;
+}
+
+function readPmt(payload: Uint8Array): TsStream[] {
+  const section = readSection(payload);
+  if (!section) {
+    return [];
+  }
+
+  const programInfoLength = ((section[10] & 0x0f) << 8) | section[11];
+  const streams: TsStream[] = [];
+  let offset = 12 + programInfoLength;
+  while (offset + 5 <= section.length - 4) {
+    const streamType = section[offset];
+    const pid = ((section[offset + 1] & 0x1f) << 8) | section[offset + 2];
+    const infoLength = ((section[offset + 3] & 0x0f) << 8) | section[offset + 4];
+    streams.push({ pid, streamType });
+    offset += 5 + infoLength;
+  }
+  return streams;
+}
+
+/**
+ * Skips the pointer field and returns the PSI section, including its CRC
+ * Sections are expected to fit in one packet, as PAT and PMT practically always do
+ */
+function readSection(payload: Uint8Array): Uint8Array | null {
+  const start = 1 + payload[0];
+  if (start + 3 > payload.byteLength) {
+    return null;
+  }
+  const sectionLength = ((payload[start + 1] & 0x0f) << 8) | payload[start + 2];
+  return payload.subarray(start, Math.min(payload.byteLength, start + 3 + sectionLength));
+}
+
+function parsePes(data: Uint8Array): PesPacket | null {
+  if (data.byteLength < 9 || data[0] !== 0 || data[1] !== 0 || data[2] !== 1) {
+    return null;
+  }
+
+  const timestampFlags = data[7] >> 6;
+  const payloadStart = 9 + data[8];
+  const pts = timestampFlags & 0x02 ? readTimestamp(data, 9) : null;
+  const dts = timestampFlags === 0x03 ? readTimestamp(data, 14) : pts;
+
+  // A non-zero PES_packet_length bounds the payload; video PES usually leave it at zero
+  const packetLength = (data[4] << 8) | data[5];
+  const end = packetLength > 0 ? Math.min(data.byteLength, 6 + packetLength) : data.byteLength;
+  return { pts, dts, data: data.subarray(payloadStart, end) };
+}
+
+/**
+ * Reads a 33-bit PTS or DTS; multiplications keep it exact beyond 32 bits
+ */
+function readTimestamp(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] & 0x0e) * 536870912 +
+    data[offset + 1] * 4194304 +
+    (data[offset + 2] & 0xfe) * 16384 +
+    data[offset + 3] * 128 +
+    (data[offset + 4] >> 1)
+  );
+}
@@ -0,0 +1,232 @@
+import { box, concatBytes, uint16, uint32 } from '../mp4/writer';
+
+/**
+ * NAL unit types the transmuxer acts on
+ */
+export const NalType = {
+  IDR: 5,
+  SPS: 7,
+  PPS: 8,
+  AUD: 9,
+} as const;
+
+/**
+ * Frame size and profile read from a sequence parameter set
+ */
+export interface SpsInfo {
+  width: number;
+  height: number;
+  profile: number;
+  compatibility: number;
+  level: number;
+}
+
+/**
+ * Profiles whose SPS carries chroma format and bit depth fields
+ */
+const HIGH_PROFILES = new Set([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135]);
+
+/**
+ * Splits an Annex B byte stream into NAL units, without their start codes
+ */
+export function splitNalUnits(data: Uint8Array): Uint8Array[] {
+  const units: Uint8Array[] = [];
+  let unitStart = -1;
+  let i = 0;
+
+  while (i + 2 < data.byteLength) {
+    if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+      if (unitStart >= 0) {
+        // A four-byte start code leaves a zero byte at the end of the previous unit
+        let unitEnd = i;
+        while (unitEnd > unitStart && data[unitEnd - 1] === 0) {
+          unitEnd--;
+        }
+        units.push(data.subarray(unitStart, unitEnd));
+      }
+      i += 3;
+      unitStart = i;
+    } else {
+      i++;
+    }
+  }
+
+  if (unitStart >= 0 && unitStart < data.byteLength) {
+    units.push(data.subarray(unitStart));
+  }
+  return units.filter((unit) => unit.byteLength > 0);
+}
+
+export function nalType(unit: Uint8Array): number {
+  return unit[0] & 0x1f;
+}
+
+/**
+ * Reads the frame size and profile of an SPS NAL unit
+ * The size accounts for frame cropping; the sample aspect ratio in the VUI is not applied
+ */
+export function readSps(unit: Uint8Array): SpsInfo {
+  const reader = new BitReader(removeEmulationPrevention(unit.subarray(1)));
+  const profile = reader.bits(8);
+  const compatibility = reader.bits(8);
+  const level = reader.bits(8);
+  reader.ue(); // seq_parameter_set_id
+
+  let chromaFormat = 1;
+  if (HIGH_PROFILES.has(profile)) {
+    chromaFormat = reader.ue();
+    if (chromaFormat === 3) {
+      reader.bits(1); // separate_colour_plane_flag
+    }
+    reader.ue(); // bit_depth_luma_minus8
+    reader.ue(); // bit_depth_chroma_minus8
+    reader.bits(1); // qpprime_y_zero_transform_bypass_flag
+    if (reader.bits(1)) {
+      skipScalingMatrix(reader, chromaFormat === 3 ? 12 : 8);
+    }
+  }
+
+  reader.ue(); // log2_max_frame_num_minus4
+  const pocType = reader.ue();
+  if (pocType === 0) {
+    reader.ue(); // log2_max_pic_order_cnt_lsb_minus4
+  } else if (pocType === 1) {
+    reader.bits(1); // delta_pic_order_always_zero_flag
+    reader.se(); // offset_for_non_ref_pic
+    reader.se(); // offset_for_top_to_bottom_field
+    const cycleLength = reader.ue();
+    for (let i = 0; i < cycleLength; i++) {
+      reader.se();
+    }
+  }
+  reader.ue(); // max_num_ref_frames
+  reader.bits(1); // gaps_in_frame_num_value_allowed_flag
+
+  const widthInMbs = reader.ue() + 1;
+  const heightInMapUnits = reader.ue() + 1;
+  const frameMbsOnly = reader.bits(1);
+  if (!frameMbsOnly) {
+    reader.bits(1); // mb_adaptive_frame_field_flag
+  }
+  reader.bits(1); // direct_8x8_inference_flag
+
+  let crop = { left: 0, right: 0, top: 0, bottom: 0 };
+  if (reader.bits(1)) {
+    crop = { left: reader.ue(), right: reader.ue(), top: reader.ue(), bottom: reader.ue() };
+  }
+  const cropUnitX = chromaFormat === 1 || chromaFormat === 2 ? 2 : 1;
+  const cropUnitY = (chromaFormat === 1 ? 2 : 1) * (2 - frameMbsOnly);
+
+  return {
+    width: widthInMbs * 16 - (crop.left + crop.right) * cropUnitX,
+    height: (2 - frameMbsOnly) * heightInMapUnits * 16 - (crop.top + crop.bottom) * cropUnitY,
+    profile,
+    compatibility,
+    level,
+  };
+}
+
+/**
+ * Builds an `avc1` sample entry with its `avcC` from the first SPS and PPS
+ */
+export function buildAvc1Entry(sps: Uint8Array, pps: Uint8Array, info: SpsInfo): Uint8Array {
+  const avcC = box(
+    'avcC',
+    Uint8Array.of(1, info.profile, info.compatibility, info.level, 0xff, 0xe1),
+    uint16(sps.byteLength),
+    sps,
+    Uint8Array.of(1),
+    uint16(pps.byteLength),
+    pps
+  );
+
+  return box(
+    'avc1',
+    new Uint8Array(6), // reserved
+    uint16(1), // data_reference_index
+    new Uint8Array(16), // pre_defined and reserved
+    uint16(info.width),
+    uint16(info.height),
+    uint32(0x00480000), // 72 dpi
+    uint32(0x00480000),
+    uint32(0), // reserved
+    uint16(1), // frame_count
+    new Uint8Array(32), // compressorname
+    uint16(0x0018), // depth
+    uint16(0xffff), // pre_defined = -1
+    avcC
+  );
+}
+
+/**
+ * Converts NAL units to the length-prefixed form MP4 samples use
+ */
+export function toLengthPrefixed(units: Uint8Array[]): Uint8Array {
+  return concatBytes(units.map((unit) => [uint32(unit.byteLength), unit]));
+}
+
+function skipScalingMatrix(reader: BitReader, count: number): void {
+  for (let i = 0; i < count; i++) {
+    if (!reader.bits(1)) {
+      continue;
+    }
+    const size = i < 6 ? 16 : 64;
+    let last = 8;
+    let next = 8;
+    for (let j = 0; j < size; j++) {
+      if (next !== 0) {
+        next = (last + reader.se() + 256) % 256;
+      }
+      last = next === 0 ? last : next;
+    }
+  }
+}
+
+/**
+ * Drops the 0x03 bytes that protect start code patterns inside a NAL unit
+ */
+function removeEmulationPrevention(data: Uint8Array): Uint8Array {
+  const result: number[] = [];
+  for (let i = 0; i < data.byteLength; i++) {
+    if (i >= 2 && data[i] === 0x03 && data[i - 1] === 0 && data[i - 2] === 0) {
+      continue;
+    }
+    result.push(data[i]);
+  }
+  return Uint8Array.from(result);
+}
+
+/**
+ * Reads fixed-length and Exp-Golomb fields, most significant bit first
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.data[this.position >> 3];
+      if (byte === undefined) {
+        throw new Error('H.264 parameter set is truncated');
+      }
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  ue(): number {
+    let leadingZeros = 0;
+    while (this.bits(1) === 0) {
+      leadingZeros++;
+    }
+    return 2 ** leadingZeros - 1 + this.bits(leadingZeros);
+  }
+
+  se(): number {
+    const value = this.ue();
+    return value % 2 === 1 ? (value + 1) / 2 : -value / 2;
+  }
+}
@@ -0,0 +1,260 @@
+import { concatBytes, toArrayBuffer } from '../mp4/writer';
+import { TS_PACKET_SIZE } from './demux';
+
+/**
+ * Builders for small MPEG-TS files used by the tests; not part of the published build
+ */
+
+const PMT_PID = 0x1000;
+const VIDEO_PID = 0x100;
+const AUDIO_PID = 0x101;
+
+/**
+ * Stream layout of a fixture file; timestamps are in 90 kHz units
+ */
+export interface FixtureTransportStream {
+  /** H.264 640x360 at 25 fps, one access unit per PES */
+  video?: {
+    frames: number;
+    /** Frames between IDR frames; default 25 */
+    gop?: number;
+    /** Frames ahead of the first IDR frame, sent without parameter sets */
+    leadingFrames?: number;
+    /** PTS minus DTS of every frame; default 0 (PTS only) */
+    ptsDelay?: number;
+  };
+  /** AAC-LC stereo at 48 kHz in ADTS */
+  audio?: {
+    frames: number;
+    /** Cut the ADTS stream into PES payloads of this size, splitting frames across packets */
+    pesBytes?: number;
+  };
+  /** Timestamp of the first frames; default 90000 */
+  startPts?: number;
+}
+
+const VIDEO_FRAME_TICKS = 3600;
+const AUDIO_FRAME_TICKS = 1920;
+
+/**
+ * Builds a transport stream: PAT, PMT, then the video PES packets followed by the audio ones
+ */
+export function buildTransportStream(stream: FixtureTransportStream): ArrayBuffer {
+  const start = stream.startPts ?? 90000;
+  const sps = buildSps();
+  const pes: Array<{ pid: number; data: Uint8Array }> = [];
+
+  if (stream.video) {
+    const { frames, gop = 25, leadingFrames = 0, ptsDelay = 0 } = stream.video;
+    for (let i = 0; i < leadingFrames + frames; i++) {
+      const dts = wrap(start + i * VIDEO_FRAME_TICKS);
+      const keyframe = i >= leadingFrames && (i - leadingFrames) % gop === 0;
+      const units = keyframe ? [AUD, sps, PPS, slice(5, i)] : [AUD, slice(1, i)];
+      const header = pesHeader(0xe0, wrap(dts + ptsDelay), ptsDelay ? dts : null, 0);
+      pes.push({ pid: VIDEO_PID, data: concatBytes([header, units.map((unit) => [START_CODE, unit])]) });
+    }
+  }
+
+  if (stream.audio) {
+    const { frames, pesBytes } = stream.audio;
+    const adts = Array.from({ length: frames }, (_, i) => adtsFrame(i));
+    const starts = adts.map((_, i) => adts.slice(0, i).reduce((total, frame) => total + frame.byteLength, 0));
+    const data = concatBytes(adts);
+    const size = pesBytes ?? adts[0].byteLength;
+    for (let offset = 0; offset < data.byteLength; offset += size) {
+      const chunk = data.subarray(offset, offset + size);
+      // The PTS belongs to the first frame that starts in the packet
+      const first = starts.findIndex((frameStart) => frameStart >= offset && frameStart < offset + size);
+      const pts = first >= 0 ? wrap(start + first * AUDIO_FRAME_TICKS) : null;
+      const header = pesHeader(0xc0, pts, null, chunk.byteLength);
+      pes.push({ pid: AUDIO_PID, data: concatBytes([header, chunk]) });
+    }
+  }
+
+  const streams = [
+    ...(stream.video ? [{ type: 0x1b, pid: VIDEO_PID }] : []),
+    ...(stream.audio ? [{ type: 0x0f, pid: AUDIO_PID }] : []),
+  ];
+  const counters = new Map<number, number>();
+  return toArrayBuffer(
+    concatBytes([
+      packetize(0, psi(0x00, [0x00, 0x01, 0xc1, 0x00, 0x00, 0x00, 0x01, 0xe0 | (PMT_PID >> 8), PMT_PID & 0xff]), counters),
+      packetize(PMT_PID, psi(0x02, pmtBody(streams)), counters),
+      ...pes.map((packet) => packetize(packet.pid, packet.data, counters)),
+    ])
+  );
+}
+
+const START_CODE = Uint8Array.of(0, 0, 0, 1);
+const AUD = Uint8Array.of(0x09, 0xf0);
+const PPS = Uint8Array.of(0x68, 0xce, 0x38, 0x80);
+
+/**
+ * SPS for baseline profile, level 3.0, 40x23 macroblocks cropped to 640x360
+ */
+function buildSps(): Uint8Array {
+  const writer = new BitWriter();
+  writer.bits(66, 8); // profile_idc
+  writer.bits(0xc0, 8); // constraint flags
+  writer.bits(30, 8); // level_idc
+  writer.ue(0); // seq_parameter_set_id
+  writer.ue(0); // log2_max_frame_num_minus4
+  writer.ue(2); // pic_order_cnt_type
+  writer.ue(1); // max_num_ref_frames
+  writer.bits(0, 1); // gaps_in_frame_num_value_allowed_flag
+  writer.ue(39); // pic_width_in_mbs_minus1
+  writer.ue(22); // pic_height_in_map_units_minus1
+  writer.bits(1, 1); // frame_mbs_only_flag
+  writer.bits(1, 1); // direct_8x8_inference_flag
+  writer.bits(1, 1); // frame_cropping_flag
+  writer.ue(0);
+  writer.ue(0);
+  writer.ue(0);
+  writer.ue(4); // bottom: 4 x 2 rows
+  writer.bits(0, 1); // vui_parameters_present_flag
+  writer.bits(1, 1); // rbsp_stop_one_bit
+  return concatBytes([Uint8Array.of(0x67), addEmulationPrevention(writer.bytes())]);
+}
+
+/**
+ * Slice NAL unit of the given type with a few payload bytes that identify the frame
+ */
+function slice(type: number, index: number): Uint8Array {
+  return Uint8Array.of(0x60 | type, 0x88, (index & 0x7f) | 0x80, 0x84);
+}
+
+/**
+ * ADTS frame of 16 payload bytes set to the frame index
+ */
+function adtsFrame(index: number): Uint8Array {
+  const length = 7 + 16;
+  const header = Uint8Array.of(
+    0xff,
+    0xf1,
+    (1 << 6) | (3 << 2), // AAC-LC, 48 kHz
+    (2 << 6) | (length >> 11), // stereo
+    (length >> 3) & 0xff,
+    ((length & 0x07) << 5) | 0x1f,
+    0xfc
+  );
+  return concatBytes([header, new Uint8Array(16).fill(index & 0xff)]);
+}
+
+function pesHeader(streamId: number, pts: number | null, dts: number | null, payloadLength: number): Uint8Array {
+  const timestamps = [
+    ...(pts !== null ? [timestamp(dts !== null ? 0x3 : 0x2, pts)] : []),
+    ...(dts !== null ? [timestamp(0x1, dts)] : []),
+  ];
+  const headerDataLength = timestamps.length * 5;
+  const packetLength = payloadLength > 0 ? 3 + headerDataLength + payloadLength : 0;
+  const flags = pts === null ? 0x00 : dts !== null ? 0xc0 : 0x80;
+  return concatBytes([
+    Uint8Array.of(0, 0, 1, streamId, packetLength >> 8, packetLength & 0xff, 0x80, flags, headerDataLength),
+    timestamps,
+  ]);
+}
+
+/**
+ * Encodes a 33-bit PTS or DTS; division keeps it exact beyond 32 bits
+ */
+function timestamp(prefix: number, value: number): Uint8Array {
+  const high = Math.floor(value / 2 ** 30);
+  const middle = Math.floor(value / 2 ** 15) & 0x7fff;
+  const low = value & 0x7fff;
+  return Uint8Array.of(
+    (prefix << 4) | (high << 1) | 1,
+    middle >> 7,
+    ((middle & 0x7f) << 1) | 1,
+    low >> 7,
+    ((low & 0x7f) << 1) | 1
+  );
+}
+
+/**
+ * PSI section with a pointer field; the CRC is not checked by the demuxer and left at zero
+ */
+function psi(tableId: number, body: number[]): Uint8Array {
+  const sectionLength = body.length + 4;
+  return Uint8Array.from([0x00, tableId, 0xb0 | (sectionLength >> 8), sectionLength & 0xff, ...body, 0, 0, 0, 0]);
+}
+
+function pmtBody(streams: Array<{ type: number; pid: number }>): number[] {
+  return [
+    0x00, 0x01, 0xc1, 0x00, 0x00,
+    0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, // PCR PID
+    0xf0, 0x00, // program_info_length
+    ...streams.flatMap((stream) => [stream.type, 0xe0 | (stream.pid >> 8), stream.pid & 0xff, 0xf0, 0x00]),
+  ];
+}
+
+/**
+ * Splits a PES packet or PSI section into transport packets
+ * The last packet of a PES is padded with an adaptation field; sections are followed by 0xff stuffing
+ */
+function packetize(pid: number, data: Uint8Array, counters: Map<number, number>): Uint8Array {
+  const isSection = pid === 0 || pid === PMT_PID;
+  const packets: Uint8Array[] = [];
+  for (let offset = 0; offset < data.byteLength; offset += TS_PACKET_SIZE - 4) {
+    const payload = data.subarray(offset, offset + TS_PACKET_SIZE - 4);
+    const counter = counters.get(pid) ?? 0;
+    counters.set(pid, (counter + 1) & 0x0f);
+
+    const packet = new Uint8Array(TS_PACKET_SIZE).fill(0xff);
+    packet.set([0x47, (offset === 0 ? 0x40 : 0) | (pid >> 8), pid & 0xff, 0x10 | counter]);
+    const stuffing = TS_PACKET_SIZE - 4 - payload.byteLength;
+    if (stuffing > 0 && !isSection) {
+      packet[3] |= 0x20;
+      packet[4] = stuffing - 1;
+      if (stuffing > 1) {
+        packet[5] = 0x00;
+      }
+      packet.set(payload, TS_PACKET_SIZE - payload.byteLength);
+    } else {
+      packet.set(payload, 4);
+    }
+    packets.push(packet);
+  }
+  return concatBytes(packets);
+}
+
+function wrap(value: number): number {
+  return value % 2 ** 33;
+}
+
+function addEmulationPrevention(data: Uint8Array): Uint8Array {
+  const result: number[] = [];
+  for (const byte of data) {
+    if (result.length >= 2 && result[result.length - 1] === 0 && result[result.length - 2] === 0 && byte <= 3) {
+      result.push(0x03);
+    }
+    result.push(byte);
+  }
+  return Uint8Array.from(result);
+}
+
+/**
+ * Writes fixed-length and Exp-Golomb fields, most significant bit first
+ */
+class BitWriter {
+  private values: number[] = [];
+
+  bits(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.values.push((value >> i) & 1);
+    }
+  }
+
+  ue(value: number): void {
+    const length = Math.floor(Math.log2(value + 1));
+    this.bits(0, length);
+    this.bits(value + 1, length + 1);
+  }
+
+  bytes(): Uint8Array {
+    const bytes = new Uint8Array(Math.ceil(this.values.length / 8));
+    this.values.forEach((bit, i) => {
+      bytes[i >> 3] |= bit << (7 - (i & 7));
+    });
+    return bytes;
+  }
+}
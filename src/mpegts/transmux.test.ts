@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { readBoxes } from '../mp4/boxes';
+import { FragmentedMp4 } from '../mp4/fragments';
+import { probeMp4 } from '../mp4/probe';
+import { readFragmentSamples } from '../mp4/tracks';
+import { concatBytes, toArrayBuffer } from '../mp4/writer';
+import { isTransportStream } from './demux';
+import { buildTransportStream, FixtureTransportStream } from './test-fixtures';
+import { transmuxTsBlob, transmuxTsToFragmentedMp4 } from './transmux';
+
+function join({ init, fragments }: FragmentedMp4): ArrayBuffer {
+  return toArrayBuffer(concatBytes([new Uint8Array(init), ...fragments.map((fragment) => new Uint8Array(fragment))]));
+}
+
+/**
+ * Transmuxes a fixture stream and reads back its samples by track ID: 1 for video, 2 for audio when both are present
+ */
+function transmux(stream: FixtureTransportStream) {
+  const buffer = join(transmuxTsToFragmentedMp4(buildTransportStream(stream), { fragmentDuration: 1 }));
+  const data = new Uint8Array(buffer);
+  const boxes = readBoxes(data);
+  const moov = boxes.find((found) => found.type === 'moov')!;
+  return { buffer, samples: readFragmentSamples(data, boxes, moov) };
+}
+
+describe('transmuxTsToFragmentedMp4', () => {
+  it('builds H.264 and AAC tracks with the stream parameters', () => {
+    const { buffer } = transmux({ video: { frames: 50 }, audio: { frames: 94 } });
+    const info = probeMp4(buffer);
+
+    expect(info).toMatchObject({
+      width: 640,
+      height: 360,
+      mimeType: 'video/mp4; codecs="avc1.42C01E,mp4a.40.2"',
+      keyframes: [0, 1],
+    });
+    expect(info.tracks.map((track) => [track.kind, track.duration])).toEqual([
+      ['video', 2],
+      ['audio', (94 * 1024) / 48000],
+    ]);
+    expect(info.tracks[1]).toMatchObject({ sampleRate: 48000, channels: 2 });
+  });
+
+  it('rebases timestamps so the earliest decode time is zero', () => {
+    const { samples } = transmux({ video: { frames: 10, ptsDelay: 7200 }, audio: { frames: 10 }, startPts: 10 * 90000 });
+    const video = samples.get(1)!;
+
+    expect(video[0]).toMatchObject({ dts: 0, cto: 7200, sync: true });
+    expect(video[1]).toMatchObject({ dts: 3600, duration: 3600 });
+    expect(samples.get(2)![0].dts).toBe(0);
+  });
+
+  it('keeps timestamps increasing across the 33-bit wrap', () => {
+    const { samples } = transmux({ video: { frames: 50 }, startPts: 2 ** 33 - 90000 });
+    const video = samples.get(1)!;
+
+    expect(video.map((sample) => sample.dts)).toEqual(video.map((_, i) => i * 3600));
+  });
+
+  it('drops frames ahead of the first IDR frame and its parameter sets', () => {
+    const { samples } = transmux({ video: { frames: 10, leadingFrames: 5 } });
+    const video = samples.get(1)!;
+
+    expect(video).toHaveLength(10);
+    expect(video[0]).toMatchObject({ dts: 0, sync: true });
+  });
+
+  it('joins ADTS frames split across PES packets', () => {
+    const { samples } = transmux({ audio: { frames: 20, pesBytes: 50 } });
+    const audio = samples.get(1)!;
+
+    expect(audio).toHaveLength(20);
+    expect(audio.map((sample) => sample.dts)).toEqual(audio.map((_, i) => i * 1024));
+    expect(audio.every((sample) => sample.size === 16)).toBe(true);
+  });
+
+  it('rejects data that is not a usable transport stream', () => {
+    const stream = new Uint8Array(buildTransportStream({ video: { frames: 2 } }));
+    const withoutTables = stream.slice(2 * 188);
+    const lostSync = stream.slice();
+    lostSync[3 * 188] = 0;
+
+    expect(() => transmuxTsToFragmentedMp4(new ArrayBuffer(400))).toThrow('missing sync byte');
+    expect(() => transmuxTsToFragmentedMp4(toArrayBuffer(withoutTables))).toThrow('no program association table');
+    expect(() => transmuxTsToFragmentedMp4(toArrayBuffer(lostSync))).toThrow(`offset ${3 * 188} has no sync byte`);
+    expect(() => transmuxTsToFragmentedMp4(buildTransportStream({}))).toThrow('no H.264 or AAC samples');
+  });
+});
+
+describe('transmuxTsBlob', () => {
+  it('transmuxes MPEG-TS blobs and leaves other blobs as they are', async () => {
+    const stream = buildTransportStream({ video: { frames: 25 } });
+    expect(isTransportStream(new Uint8Array(stream))).toBe(true);
+
+    const transmuxed = await transmuxTsBlob(new Blob([stream]));
+    expect(transmuxed.type).toBe('video/mp4');
+    expect(probeMp4(await transmuxed.arrayBuffer()).duration).toBe(1);
+
+    const other = new Blob(['not a media file']);
+    expect(await transmuxTsBlob(other)).toBe(other);
+  });
+});
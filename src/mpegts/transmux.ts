@@ -0,0 +1,269 @@
+import { FragmentedMp4 } from '../mp4/fragments';
+import { fragmentTracks, RemuxOptions } from '../mp4/remux';
+import { Mp4Sample, Mp4Track } from '../mp4/tracks';
+import { box, concatBytes, fullBox, uint16, uint32 } from '../mp4/writer';
+import { AAC_FRAME_SAMPLES, AdtsConfig, buildMp4aEntry, readAdtsFrames } from './adts';
+import { demuxTransportStream, isTransportStream, PesPacket, StreamType } from './demux';
+import { buildAvc1Entry, NalType, nalType, readSps, splitNalUnits, toLengthPrefixed } from './h264';
+
+/**
+ * Timescale of MPEG-TS timestamps, used as the video track timescale
+ */
+const TS_TIMESCALE = 90000;
+
+/**
+ * PTS and DTS are 33-bit counters that wrap about every 26.5 hours
+ */
+const TIMESTAMP_WRAP = 2 ** 33;
+
+/**
+ * NAL units that are not copied into samples
+ */
+const OUT_OF_BAND_UNITS = new Set<number>([NalType.SPS, NalType.PPS, NalType.AUD]);
+
+/**
+ * Track built from an elementary stream, before timestamps are rebased
+ */
+interface TrackDraft {
+  handler: 'vide' | 'soun';
+  timescale: number;
+  entry: Uint8Array;
+  width: number;
+  height: number;
+  samples: { dts: number; cto: number; data: Uint8Array; sync: boolean }[];
+}
+
+/**
+ * Transmuxes an MPEG-2 transport stream with H.264 video and ADTS AAC audio into a fragmented MP4
+ * Timestamps are rebased so the earliest decode time is zero; other elementary streams are dropped
+ * @throws Error when the data is not a transport stream or carries no H.264 or AAC stream
+ */
+export function transmuxTsToFragmentedMp4(buffer: ArrayBuffer, options: RemuxOptions = {}): FragmentedMp4 {
+  const data = new Uint8Array(buffer);
+  if (!isTransportStream(data)) {
+    throw new Error('Not an MPEG-TS file: missing sync byte');
+  }
+
+  const { streams, packets } = demuxTransportStream(data);
+  const video = streams.find((stream) => stream.streamType === StreamType.H264);
+  const audio = streams.find((stream) => stream.streamType === StreamType.AdtsAac);
+  const drafts = [
+    video ? buildVideoTrack(unwrapTimestamps(packets.get(video.pid) ?? [])) : null,
+    audio ? buildAudioTrack(unwrapTimestamps(packets.get(audio.pid) ?? [])) : null,
+  ].filter((draft): draft is TrackDraft => draft !== null && draft.samples.length > 0);
+  if (drafts.length === 0) {
+    throw new Error('MPEG-TS file has no H.264 or AAC samples');
+  }
+
+  // Rebase on the earliest decode time across tracks, in seconds so audio and video stay aligned
+  const start = Math.min(...drafts.map((draft) => draft.samples[0].dts / draft.timescale));
+
+  // Sample data is gathered into one buffer that the fragments are cut from
+  const payloads: Uint8Array[] = [];
+  let offset = 0;
+  const tracks = drafts.map((draft, index): Mp4Track => {
+    const base = Math.round(start * draft.timescale);
+    const samples = draft.samples.map((sample, sampleIndex): Mp4Sample => {
+      const next = draft.samples[sampleIndex + 1];
+      const previous = draft.samples[sampleIndex - 1];
+      const duration = next ? next.dts - sample.dts : previous ? sample.dts - previous.dts : defaultDuration(draft);
+      payloads.push(sample.data);
+      offset += sample.data.byteLength;
+      return {
+        dts: Math.max(0, sample.dts - base),
+        duration: Math.max(0, duration),
+        cto: sample.cto,
+        offset: offset - sample.data.byteLength,
+        size: sample.data.byteLength,
+        sync: sample.sync,
+      };
+    });
+    return { ...buildTrackHeaders(draft, index + 1), samples };
+  });
+
+  return fragmentTracks(concatBytes(payloads), tracks, TS_TIMESCALE, options);
+}
+
+/**
+ * Returns a fragmented MP4 version of an MPEG-TS blob, ready to be stored and appended
+ * Blobs that are not MPEG-TS are returned unchanged
+ */
+export async function transmuxTsBlob(blob: Blob, options: RemuxOptions = {}): Promise<Blob> {
+  const header = new Uint8Array(await blob.slice(0, 189).arrayBuffer());
+  if (!isTransportStream(header)) {
+    return blob;
+  }
+
+  const { init, fragments } = transmuxTsToFragmentedMp4(await blob.arrayBuffer(), options);
+  return new Blob([init, ...fragments], { type: 'video/mp4' });
+}
+
+/**
+ * Makes timestamps increase across 33-bit wraps
+ */
+function unwrapTimestamps(packets: PesPacket[]): PesPacket[] {
+  let offset = 0;
+  let previous: number | null = null;
+  return packets.map((packet) => {
+    if (packet.dts !== null && previous !== null && packet.dts + offset < previous - TIMESTAMP_WRAP / 2) {
+      offset += TIMESTAMP_WRAP;
+    }
+    const unwrapped = {
+      ...packet,
+      pts: packet.pts === null ? null : packet.pts + offset,
+      dts: packet.dts === null ? null : packet.dts + offset,
+    };
+    previous = unwrapped.dts ?? previous;
+    return unwrapped;
+  });
+}
+
+/**
+ * One sample per PES packet, the way broadcast encoders packetize access units
+ * Samples before the first SPS, PPS and IDR frame cannot be decoded and are dropped
+ */
+function buildVideoTrack(packets: PesPacket[]): TrackDraft | null {
+  let sps: Uint8Array | null = null;
+  let pps: Uint8Array | null = null;
+  const samples: TrackDraft['samples'] = [];
+
+  for (const packet of packets) {
+    if (packet.dts === null || packet.pts === null) {
+      continue;
+    }
+
+    const units = splitNalUnits(packet.data);
+    sps = sps ?? units.find((unit) => nalType(unit) === NalType.SPS) ?? null;
+    pps = pps ?? units.find((unit) => nalType(unit) === NalType.PPS) ?? null;
+    const sync = units.some((unit) => nalType(unit) === NalType.IDR);
+    if (!sps || !pps || (samples.length === 0 && !sync)) {
+      continue;
+    }
+
+    // Parameter sets live in the avcC; access unit delimiters have no place in MP4 samples
+    const frameUnits = units.filter((unit) => !OUT_OF_BAND_UNITS.has(nalType(unit)));
+    samples.push({ dts: packet.dts, cto: packet.pts - packet.dts, data: toLengthPrefixed(frameUnits), sync });
+  }
+
+  if (!sps || !pps) {
+    return null;
+  }
+  const info = readSps(sps);
+  return {
+    handler: 'vide',
+    timescale: TS_TIMESCALE,
+    entry: buildAvc1Entry(sps, pps, info),
+    width: info.width,
+    height: info.height,
+    samples,
+  };
+}
+
+/**
+ * One sample per AAC frame; frames of a PES follow its PTS at 1024 samples each
+ * ADTS frames split across PES packets are joined before they are read
+ */
+function buildAudioTrack(packets: PesPacket[]): TrackDraft | null {
+  let config: AdtsConfig | null = null;
+  let pending: Uint8Array = new Uint8Array(0);
+  let pendingPts: number | null = null;
+  const frames: { pts: number; data: Uint8Array }[] = [];
+
+  for (const packet of packets) {
+    const pts: number | null = pending.byteLength > 0 ? pendingPts : packet.pts;
+    const read = readAdtsFrames(pending.byteLength > 0 ? concatBytes([pending, packet.data]) : packet.data);
+    config = config ?? read.config;
+    const frameDuration = config ? (AAC_FRAME_SAMPLES * TS_TIMESCALE) / config.sampleRate : 0;
+    if (pts !== null) {
+      read.frames.forEach((frame, index) => frames.push({ pts: pts + index * frameDuration, data: frame }));
+    }
+    pending = read.remainder;
+    pendingPts = pts === null ? null : pts + read.frames.length * frameDuration;
+  }
+
+  if (!config) {
+    return null;
+  }
+  const sampleRate = config.sampleRate;
+  return {
+    handler: 'soun',
+    timescale: sampleRate,
+    entry: buildMp4aEntry(config),
+    width: 0,
+    height: 0,
+    samples: frames.map((frame) => ({
+      dts: Math.round((frame.pts * sampleRate) / TS_TIMESCALE),
+      cto: 0,
+      data: frame.data,
+      sync: true,
+    })),
+  };
+}
+
+/**
+ * Duration of the last sample of a single-sample track
+ */
+function defaultDuration(draft: TrackDraft): number {
+  return draft.handler === 'soun' ? AAC_FRAME_SAMPLES : Math.round(draft.timescale / 25);
+}
+
+function buildTrackHeaders(draft: TrackDraft, id: number): Omit<Mp4Track, 'samples'> {
+  const isVideo = draft.handler === 'vide';
+  const matrix = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+  const tkhd = fullBox(
+    'tkhd',
+    0,
+    0x000003, // enabled, in movie
+    uint32(0), // creation_time
+    uint32(0), // modification_time
+    uint32(id),
+    uint32(0), // reserved
+    uint32(0), // duration
+    new Uint8Array(8), // reserved
+    uint16(0), // layer
+    uint16(0), // alternate_group
+    uint16(isVideo ? 0 : 0x0100), // volume
+    uint16(0), // reserved
+    matrix.map((value) => uint32(value)),
+    uint32(draft.width * 65536),
+    uint32(draft.height * 65536)
+  );
+  const mdhd = fullBox(
+    'mdhd',
+    0,
+    0,
+    uint32(0), // creation_time
+    uint32(0), // modification_time
+    uint32(draft.timescale),
+    uint32(0), // duration
+    uint16(0x55c4), // language: und
+    uint16(0) // pre_defined
+  );
+  const hdlr = fullBox(
+    'hdlr',
+    0,
+    0,
+    uint32(0), // pre_defined
+    Uint8Array.from(draft.handler, (char) => char.charCodeAt(0)),
+    new Uint8Array(12), // reserved
+    Uint8Array.from(`${isVideo ? 'Video' : 'Sound'}Handler\0`, (char) => char.charCodeAt(0))
+  );
+  const mediaHeader = isVideo ? fullBox('vmhd', 0, 1, new Uint8Array(8)) : fullBox('smhd', 0, 0, new Uint8Array(4));
+  const dinf = box('dinf', fullBox('dref', 0, 0, uint32(1), fullBox('url ', 0, 1)));
+
+  return {
+    id,
+    handler: draft.handler,
+    timescale: draft.timescale,
+    boxes: {
+      tkhd,
+      edts: null,
+      mdhd,
+      hdlr,
+      mediaHeader,
+      dinf,
+      stsd: fullBox('stsd', 0, 0, uint32(1), draft.entry),
+    },
+  };
+}
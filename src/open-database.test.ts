@@ -0,0 +1,49 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { openDatabase, StoreDefinition } from './open-database';
+
+let databaseCount = 0;
+
+function definition(dbName: string, storeName: string): StoreDefinition {
+  return {
+    dbName,
+    storeName,
+    createStore: (db) => {
+      db.createObjectStore(storeName);
+    },
+    onClose: () => {},
+  };
+}
+
+function openRaw(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('openDatabase', () => {
+  it('adds a missing store to a database that is already open elsewhere', async () => {
+    const dbName = `open-database-test-${++databaseCount}`;
+    let closed = 0;
+    const first = await openDatabase({ ...definition(dbName, 'first'), onClose: () => closed++ });
+
+    const second = await openDatabase(definition(dbName, 'second'));
+    expect(second.version).toBe(2);
+    expect(Array.from(second.objectStoreNames)).toEqual(['first', 'second']);
+    expect(closed).toBe(1);
+    expect(first.version).toBe(1);
+    second.close();
+  });
+
+  it('rejects an upgrade blocked by a connection that does not close', async () => {
+    const dbName = `open-database-test-${++databaseCount}`;
+    const other = await openRaw(dbName);
+
+    await expect(openDatabase(definition(dbName, 'items'))).rejects.toThrow(
+      `upgrade of ${dbName} is blocked by a connection that did not close`
+    );
+    other.close();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Object store to open, and how to create it
+ */
+export interface StoreDefinition {
+  dbName: string;
+  /** Version to open; when omitted, or older than the database, the database's own version is used */
+  dbVersion?: number;
+  storeName: string;
+  /** Creates the object store and its indexes during an upgrade */
+  createStore: (db: IDBDatabase) => void;
+  /** Called when the connection is closed for another connection's upgrade */
+  onClose: () => void;
+}
+
+/**
+ * Opens an IndexedDB database and makes sure it holds an object store
+ * Several stores can share a database: when the store is missing from a database that is already
+ * at the requested version, the database is upgraded to the next version to add it. Connections
+ * close on `versionchange` so they never block such an upgrade, and reopen when next used.
+ * Other connections to the database must do the same, e.g. in another tab running older code:
+ * an upgrade blocked by a connection that stays open rejects instead of waiting for it
+ */
+export async function openDatabase(definition: StoreDefinition): Promise<IDBDatabase> {
+  let db = await openVersion(definition, definition.dbVersion);
+  if (!db.objectStoreNames.contains(definition.storeName)) {
+    const version = db.version + 1;
+    db.close();
+    db = await openVersion(definition, version);
+  }
+
+  db.onversionchange = () => {
+    db.close();
+    definition.onClose();
+  };
+  return db;
+}
+
+function openVersion(definition: StoreDefinition, version: number | undefined): Promise<IDBDatabase> {
+  const { dbName, storeName, createStore } = definition;
+
+  return new Promise((resolve, reject) => {
+    const request = version === undefined ? indexedDB.open(dbName) : indexedDB.open(dbName, version);
+    let blocked = false;
+
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error(`Failed to open database: upgrade of ${dbName} is blocked by a connection that did not close`));
+    };
+
+    request.onerror = () => {
+      // Another store may have upgraded the database past the requested version
+      if (request.error?.name === 'VersionError' && version === definition.dbVersion) {
+        request.onerror = null;
+        openVersion(definition, undefined).then(resolve, reject);
+        return;
+      }
+      reject(new Error(`Failed to open database: ${request.error?.message}`));
+    };
+
+    request.onsuccess = () => {
+      // The upgrade went through once the blocking connection closed; the caller has moved on
+      if (blocked) {
+        request.result.close();
+        return;
+      }
+      resolve(request.result);
+    };
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        createStore(request.result);
+      }
+    };
+  });
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { OrderedItem, OrderingStrategy, SeparatedOrder, SequentialOrder, ShuffleOrder, WeightedOrder } from './ordering';
+import { QueueItem } from './types/database';
+
+function item(id: number, metadata: Record<string, unknown> = {}): QueueItem {
+  return { id, blob: new Blob(), queueIndex: id, metadata };
+}
+
+/**
+ * Asks a strategy for `slots` picks, as Roll does, and returns the ids picked
+ * @param allow - Narrows the candidates of a slot, standing in for a rule
+ */
+function pick(
+  strategy: OrderingStrategy,
+  items: QueueItem[],
+  slots: number,
+  allow: (item: QueueItem, slot: number) => boolean = () => true
+): Array<number | null> {
+  strategy.reset?.();
+  const history: OrderedItem[] = [];
+  const picked: Array<number | null> = [];
+  for (let slot = 0; slot < slots; slot++) {
+    const candidates = items.filter((candidate) => allow(candidate, slot));
+    const next = strategy.next({ items, candidates, slot, history });
+    if (next) {
+      const { blob: _blob, ...ordered } = next;
+      history.push(ordered);
+    }
+    picked.push(next?.id ?? null);
+  }
+  return picked;
+}
+
+/**
+ * Deterministic stand-in for Math.random
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+describe('SequentialOrder', () => {
+  it('plays items in order, and a held-back item as soon as it is allowed', () => {
+    const items = [item(1), item(2), item(3)];
+
+    expect(pick(new SequentialOrder(), items, 6)).toEqual([1, 2, 3, 1, 2, 3]);
+    expect(pick(new SequentialOrder(), items, 3, (candidate, slot) => candidate.id !== 1 || slot > 0)).toEqual([2, 1, 3]);
+  });
+});
+
+describe('ShuffleOrder', () => {
+  it('plays every item once per pass and never one twice in a row', () => {
+    const items = [item(1), item(2), item(3), item(4)];
+    const picked = pick(new ShuffleOrder({ random: seededRandom(7) }), items, 40);
+
+    for (let pass = 0; pass < 10; pass++) {
+      expect([...picked.slice(pass * 4, pass * 4 + 4)].sort()).toEqual([1, 2, 3, 4]);
+    }
+    expect(picked.some((id, i) => i > 0 && id === picked[i - 1])).toBe(false);
+    expect(picked.slice(0, 4)).not.toEqual(picked.slice(4, 8));
+  });
+
+  it('repeats an item when it is the only candidate', () => {
+    expect(pick(new ShuffleOrder(), [item(1)], 3)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('WeightedOrder', () => {
+  it('spreads plays in proportion to the weights', () => {
+    const items = [item(1, { weight: 2 }), item(2, { weight: 1 })];
+    expect(pick(new WeightedOrder(), items, 6)).toEqual([1, 2, 1, 1, 2, 1]);
+
+    const picked = pick(new WeightedOrder({ key: 'plays' }), [item(1, { plays: 3 }), item(2), item(3, { plays: 'x' })], 50);
+    expect(picked.filter((id) => id === 1)).toHaveLength(30);
+    expect(picked.filter((id) => id === 2)).toHaveLength(10);
+  });
+
+  it('leaves out items weighted 0 unless every candidate is', () => {
+    const items = [item(1, { weight: 0 }), item(2, { weight: 0 }), item(3)];
+    expect(pick(new WeightedOrder(), items, 3)).toEqual([3, 3, 3]);
+
+    expect(pick(new WeightedOrder(), items.slice(0, 2), 3)).toEqual([1, 1, 1]);
+    // The weighted item is held back for the first slot
+    expect(pick(new WeightedOrder(), items, 2, (candidate, slot) => candidate.id !== 3 || slot > 0)).toEqual([1, 3]);
+  });
+
+  it('keeps the claim of a held-back item', () => {
+    const items = [item(1), item(2)];
+    expect(pick(new WeightedOrder(), items, 4, (candidate, slot) => candidate.id !== 1 || slot > 1)).toEqual([2, 2, 1, 1]);
+  });
+});
+
+describe('SeparatedOrder', () => {
+  const ads = [
+    item(1, { advertiser: 'a' }),
+    item(2, { advertiser: 'a' }),
+    item(3, { advertiser: 'b' }),
+    item(4),
+  ];
+
+  it('holds back items that share a value within the slots of a rule', () => {
+    const order = new SeparatedOrder(new SequentialOrder(), [{ key: 'advertiser', slots: 1 }]);
+    expect(pick(order, ads, 8)).toEqual([1, 3, 2, 4, 1, 3, 2, 4]);
+
+    const wider = new SeparatedOrder(new SequentialOrder(), [{ key: 'advertiser', slots: 2 }]);
+    const picked = pick(wider, ads, 8);
+    for (let i = 1; i < picked.length; i++) {
+      const recent = picked.slice(Math.max(0, i - 2), i).map((id) => ads.find((ad) => ad.id === id)!.metadata.advertiser);
+      const advertiser = ads.find((ad) => ad.id === picked[i])!.metadata.advertiser;
+      expect(advertiser === undefined || !recent.includes(advertiser)).toBe(true);
+    }
+  });
+
+  it('relaxes the rules when every candidate breaks them', () => {
+    const order = new SeparatedOrder(new SequentialOrder(), [{ key: 'advertiser', slots: 1 }]);
+    expect(pick(order, ads.slice(0, 2), 4)).toEqual([1, 2, 1, 2]);
+  });
+});
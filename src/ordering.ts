@@ -0,0 +1,223 @@
+import { QueueItem } from './types/database';
+
+/**
+ * Item picked earlier, without its blob
+ */
+export type OrderedItem = Omit<QueueItem, 'blob'>;
+
+/**
+ * What an ordering strategy picks the next item from
+ */
+export interface OrderingContext {
+  /** Every item of the order, in queueIndex order */
+  items: readonly QueueItem[];
+  /** Items that may be picked for this slot; fewer than `items` when a rule holds some back */
+  candidates: readonly QueueItem[];
+  /** Slots filled since the roll was attached or its queue index reset; `items.length` slots make a pass */
+  slot: number;
+  /** Items picked for earlier slots, most recent last */
+  history: readonly OrderedItem[];
+}
+
+/**
+ * Decides which item of the order Roll queues next
+ * Roll asks for each slot once, possibly ahead of time to read the item ahead,
+ * and plays the picks in the order they were made
+ */
+export interface OrderingStrategy {
+  /**
+   * Picks the item for the next slot
+   * @returns One of `context.candidates`, or null to queue nothing for now
+   */
+  next(context: OrderingContext): QueueItem | null;
+  /**
+   * Forgets what was picked so far; called when the strategy is attached
+   */
+  reset?(): void;
+}
+
+/**
+ * Plays the items in queueIndex order, like Roll without a strategy
+ * An item held back by a rule keeps its place in the pass and plays as soon as it is allowed
+ */
+export class SequentialOrder implements OrderingStrategy {
+  /** Ids of the items not yet played in this pass, in order */
+  private remaining: number[] = [];
+
+  next({ items, candidates, slot }: OrderingContext): QueueItem | null {
+    const ids = items.map((item) => item.id!);
+    this.remaining = this.remaining.filter((id) => ids.includes(id));
+    // Passes start with the first item, also after Roll.resetQueueIndex()
+    if (this.remaining.length === 0 || slot % items.length === 0) {
+      this.remaining = ids;
+    }
+
+    const id = this.remaining.find((remainingId) => candidates.some((item) => item.id === remainingId));
+    const picked = id === undefined ? candidates[0] ?? null : candidates.find((item) => item.id === id)!;
+    if (picked) {
+      this.remaining = this.remaining.filter((remainingId) => remainingId !== picked.id);
+    }
+    return picked;
+  }
+
+  reset(): void {
+    this.remaining = [];
+  }
+}
+
+/**
+ * Options for the ShuffleOrder constructor
+ */
+export interface ShuffleOrderOptions {
+  /**
+   * Random number source returning values in [0, 1)
+   * Default: Math.random
+   */
+  random?: () => number;
+}
+
+/**
+ * Plays every item once per pass, in a random order
+ * An item never plays twice in a row, also where one pass ends and the next begins,
+ * unless it is the only candidate
+ */
+export class ShuffleOrder implements OrderingStrategy {
+  private readonly random: () => number;
+  /** Ids of the items not yet played in this pass */
+  private remaining: number[] = [];
+
+  constructor(options: ShuffleOrderOptions = {}) {
+    this.random = options.random ?? Math.random;
+  }
+
+  next({ items, candidates, history }: OrderingContext): QueueItem | null {
+    const ids = items.map((item) => item.id!);
+    this.remaining = this.remaining.filter((id) => ids.includes(id));
+    if (this.remaining.length === 0) {
+      this.remaining = ids;
+    }
+
+    // Items held back by a rule stay in the pass; when only played ones are allowed, one of them replays
+    const unplayed = candidates.filter((item) => this.remaining.includes(item.id!));
+    let choices = unplayed.length > 0 ? unplayed : [...candidates];
+    const last = history[history.length - 1];
+    if (choices.length > 1) {
+      choices = choices.filter((item) => item.id !== last?.id);
+    }
+    if (choices.length === 0) {
+      return null;
+    }
+
+    const picked = choices[Math.floor(this.random() * choices.length)];
+    this.remaining = this.remaining.filter((id) => id !== picked.id);
+    return picked;
+  }
+
+  reset(): void {
+    this.remaining = [];
+  }
+}
+
+/**
+ * Options for the WeightedOrder constructor
+ */
+export interface WeightedOrderOptions {
+  /**
+   * Metadata field holding an item's weight; items without a valid weight count 1
+   * Items weighted 0 are left out, unless no candidate has a weight
+   * Default: 'weight'
+   */
+  key?: string;
+}
+
+/**
+ * Plays items in proportion to their weight, spread evenly rather than in runs
+ * (smooth weighted round-robin): with weights 2 and 1, A and B play as A B A, A B A, ...
+ * An item held back by a rule keeps its claim and plays as soon as it is allowed
+ * When every candidate is weighted 0, the first one plays, so the roll never stops on them
+ */
+export class WeightedOrder implements OrderingStrategy {
+  private readonly key: string;
+  /** Accumulated claim of each item, by id */
+  private credit = new Map<number, number>();
+
+  constructor(options: WeightedOrderOptions = {}) {
+    this.key = options.key ?? 'weight';
+  }
+
+  next({ items, candidates }: OrderingContext): QueueItem | null {
+    const credit = new Map<number, number>();
+    let total = 0;
+    for (const item of items) {
+      const weight = this.getWeight(item);
+      credit.set(item.id!, (this.credit.get(item.id!) ?? 0) + weight);
+      total += weight;
+    }
+    // Items removed from the playlist drop out of the rotation
+    this.credit = credit;
+
+    let picked: QueueItem | null = null;
+    for (const item of candidates) {
+      if (this.getWeight(item) > 0 && (!picked || credit.get(item.id!)! > credit.get(picked.id!)!)) {
+        picked = item;
+      }
+    }
+    if (!picked) {
+      return candidates[0] ?? null;
+    }
+    credit.set(picked.id!, credit.get(picked.id!)! - total);
+    return picked;
+  }
+
+  reset(): void {
+    this.credit.clear();
+  }
+
+  private getWeight(item: QueueItem): number {
+    const weight = item.metadata[this.key];
+    return typeof weight === 'number' && Number.isFinite(weight) && weight >= 0 ? weight : 1;
+  }
+}
+
+/**
+ * Keeps items that share a metadata value apart
+ */
+export interface SeparationRule {
+  /** Metadata field compared, e.g. 'category' or 'advertiser'; items without it are not held back */
+  key: string;
+  /** Slots after an item in which no other item with the same value plays; 1 only rules out back-to-back */
+  slots: number;
+}
+
+/**
+ * Applies separation rules on top of another strategy: candidates that would break a rule are held back
+ * When every candidate breaks a rule the rules are relaxed for that slot, so the roll never stops on them
+ */
+export class SeparatedOrder implements OrderingStrategy {
+  constructor(
+    private readonly inner: OrderingStrategy,
+    private readonly rules: SeparationRule[]
+  ) {}
+
+  next(context: OrderingContext): QueueItem | null {
+    const allowed = context.candidates.filter((item) =>
+      this.rules.every((rule) => isSeparated(item, rule, context.history))
+    );
+    return this.inner.next(allowed.length > 0 ? { ...context, candidates: allowed } : context);
+  }
+
+  reset(): void {
+    this.inner.reset?.();
+  }
+}
+
+/**
+ * Whether an item can play after `history` without breaking a rule
+ */
+function isSeparated(item: QueueItem, rule: SeparationRule, history: readonly OrderedItem[]): boolean {
+  const value = item.metadata[rule.key];
+  if (value === undefined || value === null || rule.slots <= 0) {
+    return true;
+  }
+  return !history.slice(-rule.slots).some((played) => played.metadata[rule.key] === value);
+}
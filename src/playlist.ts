@@ -1,4 +1,5 @@
 import { QueueItem, QueueItemMetadata } from './types/database';
+import { openDatabase } from './open-database';
 
 /**
  * Playlist class that manages a queue of media items stored in IndexedDB
@@ -28,32 +29,22 @@ export class Playlist {
    * Must be called before using other methods
    */
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.dbVersion);
-
-      request.onerror = () => {
-        reject(new Error(`Failed to open database: ${request.error?.message}`));
-      };
-
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Create object store if it doesn't exist
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const objectStore = db.createObjectStore(this.storeName, {
-            keyPath: 'id',
-            autoIncrement: true,
-          });
-          
-          // Create index on queueIndex for efficient queue ordering
-          objectStore.createIndex('queueIndex', 'queueIndex', { unique: false });
-        }
-      };
+    this.db = await openDatabase({
+      dbName: this.dbName,
+      dbVersion: this.dbVersion,
+      storeName: this.storeName,
+      createStore: (db) => {
+        const objectStore = db.createObjectStore(this.storeName, {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+
+        // Create index on queueIndex for efficient queue ordering
+        objectStore.createIndex('queueIndex', 'queueIndex', { unique: false });
+      },
+      onClose: () => {
+        this.db = null;
+      },
     });
   }
 
@@ -397,6 +388,20 @@ export class Playlist {
     return this.currentIndex;
   }
 
+  /**
+   * Gets the name of the IndexedDB database, which other stores can share
+   */
+  getDatabaseName(): string {
+    return this.dbName;
+  }
+
+  /**
+   * Gets the name of the object store holding the queue
+   */
+  getStoreName(): string {
+    return this.storeName;
+  }
+
   /**
    * Resets the current index to the beginning
    */
@@ -522,6 +527,7 @@ export class Playlist {
           metadata: updates.metadata
             ? { ...item.metadata, ...updates.metadata }
             : item.metadata,
+          revision: updates.blob ? (item.revision ?? 0) + 1 : item.revision,
         };
 
         const updateRequest = store.put(updatedItem);
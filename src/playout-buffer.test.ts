@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { PlayoutBuffer, PlayoutBufferOptions } from './playout-buffer';
+import { FakeMediaEnvironment, FakeMediaEnvironmentOptions, fakeMediaData } from './testing';
+
+function setup(options: PlayoutBufferOptions = {}, environmentOptions: FakeMediaEnvironmentOptions = {}) {
+  const env = new FakeMediaEnvironment(environmentOptions);
+  const video = env.createVideoElement();
+  const buffer = new PlayoutBuffer(video, { environment: env, ...options });
+  return { env, video, buffer };
+}
+
+/**
+ * Lets pending promise callbacks run without moving the fake clock
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function ranges(timeRanges: TimeRanges): Array<[number, number]> {
+  return Array.from({ length: timeRanges.length }, (_, i) => [timeRanges.start(i), timeRanges.end(i)]);
+}
+
+describe('PlayoutBuffer', () => {
+  it('appends queued segments in order once the MediaSource opens', async () => {
+    const { env, video, buffer } = setup();
+    const appended: number[] = [];
+    buffer.on('segmentappended', ({ id }) => appended.push(id));
+
+    buffer.enqueue({ id: 1, data: fakeMediaData(2) });
+    buffer.enqueue({ id: 2, data: fakeMediaData(3) });
+    expect(buffer.getBufferState().queueLength).toBe(2);
+
+    await env.clock.advance(100);
+    expect(appended).toEqual([1, 2]);
+    expect(ranges(video.buffered)).toEqual([[0, 5]]);
+    expect(buffer.getBufferState()).toMatchObject({ queueLength: 0, queuedBytes: 0, lastSegmentId: 2 });
+  });
+
+  it('resolves append() once the data is in the SourceBuffer', async () => {
+    const { env, video, buffer } = setup();
+    let settled = false;
+    const appended = buffer.append({ id: 1, data: fakeMediaData(4) }).then(() => {
+      settled = true;
+    });
+
+    await env.clock.flush();
+    expect(settled).toBe(false);
+    await env.clock.advance(100);
+    await appended;
+    expect(ranges(video.buffered)).toEqual([[0, 4]]);
+  });
+
+  it('trims a range and reports it', async () => {
+    const { env, video, buffer } = setup();
+    const trimmed: Array<[number, number]> = [];
+    buffer.on('trimmed', ({ start, end }) => trimmed.push([start, end]));
+
+    buffer.enqueue({ id: 1, data: fakeMediaData(10) });
+    await env.clock.advance(100);
+    buffer.trim(0, 4);
+    await env.clock.advance(100);
+
+    expect(trimmed).toEqual([[0, 4]]);
+    expect(ranges(video.buffered)).toEqual([[4, 10]]);
+  });
+
+  it('holds append() back while the queue is at its segment limit', async () => {
+    const { env, buffer } = setup({ maxQueuedSegments: 1 });
+    await env.clock.flush();
+    // The first segment goes straight to the SourceBuffer, the second one waits behind it
+    buffer.enqueue({ id: 1, data: fakeMediaData(1) });
+    buffer.enqueue({ id: 2, data: fakeMediaData(1) });
+    expect(buffer.getBufferState().queueLength).toBe(1);
+
+    const third = buffer.append({ id: 3, data: fakeMediaData(1) });
+    await settle();
+    expect(buffer.getBufferState()).toMatchObject({ queueLength: 1, tracks: { muxed: { lastSegmentId: null } } });
+
+    await env.clock.advance(100);
+    await third;
+    expect(buffer.getBufferState().lastSegmentId).toBe(3);
+  });
+
+  it('admits concurrent appends one at a time within the segment limit', async () => {
+    const { env, buffer } = setup({ maxQueuedSegments: 1 });
+    const appended: number[] = [];
+    buffer.on('segmentappended', ({ id }) => appended.push(id));
+
+    const appends = Array.from({ length: 10 }, (_, i) => buffer.append({ id: i + 1, data: fakeMediaData(1) }));
+    await settle();
+    expect(buffer.getBufferState().queueLength).toBeLessThanOrEqual(1);
+
+    let maxQueued = 0;
+    buffer.on('segmentappended', () => {
+      maxQueued = Math.max(maxQueued, buffer.getBufferState().queueLength);
+    });
+    for (let step = 0; step < 20 && appended.length < 10; step++) {
+      await env.clock.advance(10);
+      maxQueued = Math.max(maxQueued, buffer.getBufferState().queueLength);
+    }
+    await Promise.all(appends);
+
+    expect(maxQueued).toBeLessThanOrEqual(1);
+    expect(appended).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('counts appends still being prepared against the byte limit', async () => {
+    const { env, buffer } = setup({ maxQueuedBytes: 100 });
+    const appends = Array.from({ length: 5 }, (_, i) => buffer.append({ id: i + 1, blob: new Blob([fakeMediaData(1, 60)]) }));
+    await settle();
+    expect(buffer.getBufferState().queuedBytes).toBeLessThanOrEqual(100);
+
+    for (let step = 0; step < 20; step++) {
+      await env.clock.advance(10);
+      expect(buffer.getBufferState().queuedBytes).toBeLessThanOrEqual(100);
+    }
+    await Promise.all(appends);
+    expect(buffer.getBufferState().lastSegmentId).toBe(5);
+  });
+
+  it('reports a wait for room once while playback frees it', async () => {
+    const { env, video, buffer } = setup({ backBufferSeconds: 1 }, { quotaBytes: 1000 });
+    const actions: string[] = [];
+    buffer.on('quotaexceeded', ({ action }) => actions.push(action));
+
+    buffer.enqueue({ id: 1, data: fakeMediaData(4, 600) });
+    buffer.enqueue({ id: 2, data: fakeMediaData(4, 600) });
+    await env.clock.advance(100);
+    expect(actions).toEqual(['wait']);
+
+    await video.play();
+    await env.clock.advance(4000);
+    // Each retry a second of playback later evicts what has played since
+    expect(actions).toEqual(['wait', 'evict', 'evict']);
+    expect(buffer.getBufferState().lastSegmentId).toBe(2);
+  });
+
+  it('does not repeat the wait while nothing can be evicted', async () => {
+    const { env, video, buffer } = setup({}, { quotaBytes: 1000 });
+    const actions: string[] = [];
+    buffer.on('quotaexceeded', ({ action }) => actions.push(action));
+
+    buffer.enqueue({ id: 1, data: fakeMediaData(4, 600) });
+    buffer.enqueue({ id: 2, data: fakeMediaData(4, 600) });
+    await env.clock.advance(100);
+    await video.play();
+    await env.clock.advance(6000);
+
+    expect(actions).toEqual(['wait']);
+    expect(buffer.getBufferState().queueLength).toBe(1);
+  });
+
+  it('rejects pending appends on reset and stays usable', async () => {
+    const { env, video, buffer } = setup();
+    const pending = buffer.append({ id: 1, data: fakeMediaData(2) });
+    buffer.reset();
+    await expect(pending).rejects.toThrow('PlayoutBuffer reset');
+
+    const appended = buffer.append({ id: 2, data: fakeMediaData(2) });
+    await env.clock.advance(100);
+    await appended;
+    expect(ranges(video.buffered)).toEqual([[0, 2]]);
+  });
+});
@@ -1,79 +1,542 @@
-import { Segment } from './types/segment';
+import { browserEnvironment, MediaSourceLike, PlayoutEnvironment, SourceBufferLike } from './environment';
+import { TypedEventEmitter } from './event-emitter';
+import { prepareSegments } from './prepare-segment';
+import { PlayoutMediaElement } from './types/media-element';
+import { Segment, TrackType } from './types/segment';
+import { PlayoutWorkerClient, supportsWorkerMediaSource } from './worker/playout-worker-client';
 
-interface PlayoutBufferState {
+interface TrackBufferState {
   queueLength: number;
   lastSegmentId: number | null;
 }
 
+export interface PlayoutBufferState {
+  queueLength: number;
+  queuedBytes: number;
+  lastSegmentId: number | null;
+  tracks: Partial<Record<TrackType, TrackBufferState>>;
+}
+
 interface QueuedSegment extends Segment {
   data: ArrayBuffer;
   isInit?: boolean;
+  /** Set once played ranges were evicted to make room for this segment */
+  evicted?: boolean;
+  /** Set while the segment waits for playback to free room, so the wait is reported once */
+  waiting?: boolean;
+  /** In/out points, shared by the halves of a split append so the window is applied once */
+  clip?: ClipWindow;
+  /** Held by the append() call that queued it, whose reservation counts it against the queue limits */
+  reserved?: boolean;
+  /** Settles the promise returned by append() */
+  resolve?: () => void;
+  reject?: (error: unknown) => void;
 }
 
-interface PlayoutBufferOptions {
+interface ClipWindow {
+  inPoint: number;
+  outPoint?: number;
+  applied: boolean;
+}
+
+/**
+ * append() call waiting for the queue to drop below its limits
+ */
+interface CapacityWaiter {
+  byteLength: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Describes how PlayoutBuffer reacted to a QuotaExceededError
+ * - `evict`: played content behind the back-buffer is removed before retrying
+ * - `split`: the append is retried in two halves
+ * - `wait`: nothing can be freed yet, the append is retried after each second of playback; reported once per segment
+ */
+export interface QuotaExceededEvent {
+  track: TrackType;
+  segmentId: number;
+  byteLength: number;
+  action: 'evict' | 'split' | 'wait';
+  range?: { start: number; end: number };
+}
+
+/**
+ * Buffered time range in seconds
+ */
+export interface BufferedRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Events emitted by PlayoutBuffer, keyed by event name
+ */
+export interface PlayoutBufferEvents {
+  /** SourceBuffers were created; `rebuilt` is true when the MediaSource was replaced after a codec switch */
+  sourceopen: { rebuilt: boolean };
+  /** An append completed; `buffered` is the track's buffered range after the append, if any */
+  segmentappended: { id: number; track: TrackType; byteLength: number; isInit: boolean; buffered: BufferedRange | null };
+  /** A range was removed from a track */
+  trimmed: { track: TrackType; start: number; end: number };
+  /** appendBuffer threw or the SourceBuffer reported an error for a segment */
+  appenderror: { id: number; track: TrackType; error: unknown };
+  /** An append hit the SourceBuffer quota */
+  quotaexceeded: QuotaExceededEvent;
+  /** MediaSource.endOfStream() was called after every queued segment was appended */
+  endofstream: void;
+  /** The buffer was closed and released its MediaSource */
+  closed: void;
+}
+
+export interface PlayoutBufferOptions {
+  /**
+   * MIME type of the muxed SourceBuffer, used when `tracks` is not provided
+   * Segments whose codecs differ switch the SourceBuffer to their `variant.mimeType`,
+   * which is detected from the init of MP4 segments when not set
+   * Default: `video/mp4; codecs="avc1.42E01E,mp4a.40.2"`
+   */
   mimeType?: string;
+  /**
+   * MIME type per track for demuxed content, one SourceBuffer is created for each entry
+   */
+  tracks?: Partial<Record<TrackType, string>>;
+  /**
+   * Seconds of played content kept behind currentTime when evicting to recover from a full SourceBuffer
+   * Default: 10
+   */
+  backBufferSeconds?: number;
+  /**
+   * Maximum bytes queued ahead of the SourceBuffers before append() waits
+   * An append() call counts from the moment it is admitted until its data is appended or it fails
+   * A single segment larger than the limit is still accepted once the queue is empty
+   * Default: unlimited
+   */
+  maxQueuedBytes?: number;
+  /**
+   * Maximum segments queued ahead of the SourceBuffers before append() waits
+   * An append() call counts as one segment from the moment it is admitted until its data is appended or it fails
+   * Default: unlimited
+   */
+  maxQueuedSegments?: number;
+  /**
+   * Runs the MediaSource, blob reads and appends in a dedicated worker when the browser supports it,
+   * falling back to the main thread otherwise. Pass a factory to supply your own worker script
+   * In worker mode append() and enqueue() transfer the segment's `data` and `variant.init` to the worker,
+   * which detaches them: copy a buffer that is still needed afterwards, e.g. an init shared by several segments
+   * Default: false
+   */
+  worker?: boolean | (() => Worker);
+  /**
+   * Attaches a new MediaSource to the media element
+   * Default: an object URL assigned to `src`; worker mode hands over the MediaSource handle instead
+   */
+  attachMediaSource?: (mediaSource: MediaSourceLike) => void;
+  /**
+   * Platform services to use instead of the browser globals, e.g. fakes for headless tests
+   * Default: browserEnvironment
+   */
+  environment?: PlayoutEnvironment;
 }
 
-export class PlayoutBuffer {
-  private readonly mediaSource: MediaSource;
-  private source: SourceBuffer | null = null;
-  private readonly queue: QueuedSegment[] = [];
+/**
+ * Appends smaller than this are not split any further on QuotaExceededError
+ */
+const MIN_SPLIT_BYTES = 64 * 1024;
+
+/**
+ * Seconds playback advances before an append waiting for room is retried
+ */
+const ROOM_RETRY_SECONDS = 1;
+
+/**
+ * Starts the bundled worker for `worker: true`
+ * Registered by the library entry rather than imported here, because the worker itself imports this module
+ */
+let defaultWorkerFactory: (() => Worker) | null = null;
+
+/**
+ * Sets the worker that `worker: true` starts
+ */
+export function setDefaultPlayoutWorker(factory: () => Worker): void {
+  defaultWorkerFactory = factory;
+}
+
+/**
+ * SourceBuffer and append queue for a single track
+ */
+interface TrackBuffer {
+  type: TrackType;
+  mimeType: string;
+  source: SourceBufferLike | null;
+  queue: QueuedSegment[];
+  /** Segment whose appendBuffer call has not completed yet */
+  appending: QueuedSegment | null;
+  /** Range whose remove call has not completed yet */
+  removing: BufferedRange | null;
+  /** Last init segment appended, replayed after the MediaSource is rebuilt */
+  lastInit: QueuedSegment | null;
+  pendingTrimRanges: Array<{ start: number; end: number }>;
+  lastSegmentId: number | null;
+  /** Playhead position when appends were paused to wait for playback to free room, null when not waiting */
+  waitingSince: number | null;
+  /** An append window is active, set by the last clipped segment */
+  clipped: boolean;
+  /** Clip window of the last appended file, shared by segments that continue it */
+  lastClip: ClipWindow | undefined;
+  onUpdateEnd: () => void;
+  onError: () => void;
+}
+
+export class PlayoutBuffer extends TypedEventEmitter<PlayoutBufferEvents> {
+  private mediaSource!: MediaSourceLike;
+  private readonly tracks = new Map<TrackType, TrackBuffer>();
+  private readonly defaultTrack: TrackType;
   private lastSegmentId: number | null = null;
-  private pendingTrimRanges: Array<{ start: number; end: number }> = [];
   private objectUrl: string | null = null;
-  private readonly mimeType: string;
+  private pendingRebuild = false;
+  private resumeAfterRebuild = false;
+  private mediaSourceGeneration = 0;
+  /** Incremented when queued and buffered content is discarded, to drop appends still being prepared */
+  private contentGeneration = 0;
+  private endOfStreamRequested = false;
+  private readonly backBufferSeconds: number;
+  private readonly maxQueuedBytes: number;
+  private readonly maxQueuedSegments: number;
+  private readonly capacityWaiters: CapacityWaiter[] = [];
+  /** Bytes and segments of append() calls admitted and not yet appended or failed */
+  private reservedBytes = 0;
+  private reservedSegments = 0;
+  private preparing: Promise<unknown> = Promise.resolve();
+  private readonly attachMediaSource: ((mediaSource: MediaSourceLike) => void) | null;
+  private readonly environment: PlayoutEnvironment;
+  private readonly remote: PlayoutWorkerClient | null = null;
   private readonly boundSourceOpen = this.handleSourceOpen.bind(this);
-  private readonly boundFlush = this.flush.bind(this);
+  private readonly boundDrainCheck = this.checkDrained.bind(this);
+  private readonly boundRoomCheck = this.retryWaitingTracks.bind(this);
 
   constructor(
-    private readonly videoElement: HTMLVideoElement,
+    private readonly videoElement: PlayoutMediaElement,
     options: PlayoutBufferOptions = {}
   ) {
-    this.mimeType = options.mimeType ?? 'video/mp4; codecs="avc1.42E01E,mp4a.40.2"';
-    this.mediaSource = new MediaSource();
-    this.objectUrl = URL.createObjectURL(this.mediaSource);
-    this.videoElement.src = this.objectUrl;
-    this.videoElement.load();
-    this.mediaSource.addEventListener('sourceopen', this.boundSourceOpen);
+    super();
+    const trackTypes = options.tracks ?? {
+      muxed: options.mimeType ?? 'video/mp4; codecs="avc1.42E01E,mp4a.40.2"',
+    };
+    for (const [type, mimeType] of Object.entries(trackTypes) as Array<[TrackType, string | undefined]>) {
+      if (!mimeType) {
+        continue;
+      }
+      const track: TrackBuffer = {
+        type,
+        mimeType,
+        source: null,
+        queue: [],
+        appending: null,
+        removing: null,
+        lastInit: null,
+        pendingTrimRanges: [],
+        lastSegmentId: null,
+        waitingSince: null,
+        clipped: false,
+        lastClip: undefined,
+        onUpdateEnd: () => this.handleUpdateEnd(track),
+        onError: () => this.handleSourceError(track),
+      };
+      this.tracks.set(type, track);
+    }
+    if (this.tracks.size === 0) {
+      throw new Error('PlayoutBuffer requires at least one track');
+    }
+    this.defaultTrack = this.tracks.has('muxed') ? 'muxed' : this.tracks.keys().next().value!;
+    this.backBufferSeconds = options.backBufferSeconds ?? 10;
+    this.maxQueuedBytes = options.maxQueuedBytes ?? Infinity;
+    this.maxQueuedSegments = options.maxQueuedSegments ?? Infinity;
+    this.attachMediaSource = options.attachMediaSource ?? null;
+    this.environment = options.environment ?? browserEnvironment;
+
+    if (options.worker) {
+      const createWorker = typeof options.worker === 'function' ? options.worker : defaultWorkerFactory;
+      if (createWorker && supportsWorkerMediaSource() && isHTMLMediaElement(videoElement)) {
+        this.remote = new PlayoutWorkerClient(
+          createWorker(),
+          videoElement,
+          {
+            mimeType: options.mimeType,
+            tracks: options.tracks,
+            backBufferSeconds: options.backBufferSeconds,
+            maxQueuedBytes: options.maxQueuedBytes,
+            maxQueuedSegments: options.maxQueuedSegments,
+          },
+          (message) => this.relay(message)
+        );
+        return;
+      }
+      console.warn(
+        createWorker
+          ? 'MediaSource in a worker is not supported, using the main thread'
+          : 'No playout worker is registered, using the main thread'
+      );
+    }
+
+    this.openMediaSource();
+  }
+
+  /**
+   * Whether the MediaSource runs in a dedicated worker
+   */
+  get isWorkerMode(): boolean {
+    return this.remote !== null;
   }
 
+  /**
+   * Queues a segment without waiting, ignoring the queue limits
+   * Prefer append() for producers that should be throttled
+   * In worker mode the segment's buffers are transferred and detached, see `worker`
+   */
   enqueue(segment: Segment) {
-    if (segment.variant?.init) {
-      this.queue.push({
-        id: segment.id,
-        data: segment.variant.init,
-        variant: segment.variant,
-        isInit: true,
+    if (this.remote) {
+      this.remote.enqueue(segment);
+      return;
+    }
+
+    if (!segment.data && segment.blob) {
+      // Blob segments need an asynchronous read, append() keeps them in order with the rest
+      this.append(segment).catch((error) => {
+        console.error('Failed to enqueue blob segment', segment.id, error);
       });
+      return;
+    }
+
+    const track = this.tracks.get(segment.track ?? this.defaultTrack);
+    if (!track) {
+      console.warn(`Skipping segment for unconfigured track ${segment.track}`, segment.id);
+      return;
     }
 
     if (!segment.data) {
+      if (segment.variant?.init) {
+        this.pushSegment(track, segment, segment.variant.init);
+      }
       console.warn('Skipping segment without data', segment.id);
       return;
     }
 
-    this.queue.push({
+    this.pushSegment(track, segment, segment.data);
+  }
+
+  /**
+   * Reads and splits a segment the way append() does, without queueing it
+   * Lets callers read and convert upcoming items ahead of their append, several at once;
+   * it runs on the calling thread, also in worker mode
+   */
+  prepare(segment: Segment): Promise<Segment[]> {
+    return prepareSegments(segment, this.environment.readBlob);
+  }
+
+  /**
+   * Queues a segment once the queue is below its configured limits
+   * In worker mode the segment's buffers are transferred and detached, see `worker`
+   * @returns Promise that resolves when the segment data has been appended to its SourceBuffer,
+   * and rejects if the append fails or the buffer is closed first
+   */
+  async append(segment: Segment): Promise<void> {
+    if (this.remote) {
+      return this.remote.append(segment);
+    }
+
+    const track = this.tracks.get(segment.track ?? this.defaultTrack);
+    if (!track) {
+      throw new Error(`PlayoutBuffer has no ${segment.track} track for segment ${segment.id}`);
+    }
+
+    const byteLength = segment.data?.byteLength ?? segment.blob?.size;
+    if (byteLength === undefined) {
+      throw new Error(`Segment ${segment.id} has no data`);
+    }
+
+    const generation = this.contentGeneration;
+    const reservedBytes = byteLength + (segment.variant?.init?.byteLength ?? 0);
+    await this.waitForCapacity(reservedBytes);
+
+    try {
+      // Preparation is chained so segments reach the queue in the order they were appended
+      const prepared = this.preparing.then(() => prepareSegments(segment, this.environment.readBlob));
+      this.preparing = prepared.catch(() => undefined);
+      const segments = await prepared;
+      if (generation !== this.contentGeneration) {
+        throw new Error('PlayoutBuffer reset');
+      }
+
+      // Fragments of one file are cut by a single clip window, also across continuation segments
+      const clip = segment.continuation ? track.lastClip : createClipWindow(segment);
+      track.lastClip = clip;
+      const appends = segments.map((preparedSegment) => {
+        const data = preparedSegment.data!;
+        const target = this.tracks.get(preparedSegment.track ?? track.type) ?? track;
+        return new Promise<void>((resolve, reject) => {
+          this.pushSegment(target, preparedSegment, data, { resolve, reject, reserved: true }, clip);
+        });
+      });
+      await Promise.all(appends);
+    } finally {
+      this.releaseCapacity(reservedBytes);
+    }
+  }
+
+  private pushSegment(
+    track: TrackBuffer,
+    segment: Segment,
+    data: ArrayBuffer,
+    settle: Pick<QueuedSegment, 'resolve' | 'reject' | 'reserved'> = {},
+    clip = createClipWindow(segment)
+  ) {
+    if (segment.variant?.init && data !== segment.variant.init) {
+      track.queue.push({
+        id: segment.id,
+        data: segment.variant.init,
+        track: track.type,
+        variant: segment.variant,
+        isInit: true,
+        reserved: settle.reserved,
+      });
+    }
+
+    const isInit = data === segment.variant?.init;
+    track.queue.push({
       id: segment.id,
-      data: segment.data,
+      data,
+      track: track.type,
       variant: segment.variant,
-      isInit: false,
+      isInit,
+      clip: isInit ? undefined : clip,
+      ...settle,
     });
 
-    this.flush();
+    this.flush(track);
+  }
+
+  private getQueuedBytes(): number {
+    let bytes = 0;
+    for (const track of this.tracks.values()) {
+      for (const queued of track.queue) {
+        bytes += queued.data.byteLength;
+      }
+    }
+    return bytes;
+  }
+
+  /**
+   * Whether an append of `byteLength` bytes fits within the queue limits
+   * Admitted append() calls count through their reservation until their data is appended,
+   * segments queued with enqueue() while they wait in the queue
+   */
+  private hasCapacity(byteLength: number): boolean {
+    let segments = this.reservedSegments;
+    let bytes = this.reservedBytes;
+    for (const track of this.tracks.values()) {
+      for (const queued of track.queue) {
+        if (!queued.reserved) {
+          segments += 1;
+          bytes += queued.data.byteLength;
+        }
+      }
+    }
+    if (segments === 0) {
+      return true;
+    }
+
+    return segments < this.maxQueuedSegments && bytes + byteLength <= this.maxQueuedBytes;
+  }
+
+  /**
+   * Waits until an append fits within the queue limits and reserves room for it
+   * The reservation is taken when the append is admitted, so concurrent callers cannot all pass the check
+   */
+  private waitForCapacity(byteLength: number): Promise<void> {
+    // Earlier callers keep their place in line
+    if (this.capacityWaiters.length === 0 && this.hasCapacity(byteLength)) {
+      this.reserveCapacity(byteLength);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.capacityWaiters.push({ byteLength, resolve, reject });
+    });
+  }
+
+  private reserveCapacity(byteLength: number) {
+    this.reservedBytes += byteLength;
+    this.reservedSegments += 1;
+  }
+
+  /**
+   * Returns the room reserved by an append() call once it was appended or failed
+   */
+  private releaseCapacity(byteLength: number) {
+    this.reservedBytes -= byteLength;
+    this.reservedSegments -= 1;
+    this.releaseCapacityWaiters();
+  }
+
+  private releaseCapacityWaiters() {
+    while (this.capacityWaiters.length > 0 && this.hasCapacity(this.capacityWaiters[0].byteLength)) {
+      const waiter = this.capacityWaiters.shift()!;
+      this.reserveCapacity(waiter.byteLength);
+      waiter.resolve();
+    }
   }
 
   getBufferState(): PlayoutBufferState {
+    if (this.remote) {
+      return this.remote.getBufferState();
+    }
+
+    const tracks: Partial<Record<TrackType, TrackBufferState>> = {};
+    let queueLength = 0;
+    for (const track of this.tracks.values()) {
+      tracks[track.type] = {
+        queueLength: track.queue.length,
+        lastSegmentId: track.lastSegmentId,
+      };
+      queueLength += track.queue.length;
+    }
+
     return {
-      queueLength: this.queue.length,
+      queueLength,
+      queuedBytes: this.getQueuedBytes(),
       lastSegmentId: this.lastSegmentId,
+      tracks,
     };
   }
 
+  /**
+   * Signals that no more segments will be enqueued
+   * MediaSource.endOfStream() is called once every queued segment has been appended
+   */
+  endOfStream() {
+    if (this.remote) {
+      this.remote.endOfStream();
+      return;
+    }
+
+    this.endOfStreamRequested = true;
+    this.checkEndOfStream();
+  }
+
   close() {
-    this.mediaSource.removeEventListener('sourceopen', this.boundSourceOpen);
-    if (this.source) {
-      this.source.removeEventListener('updateend', this.boundFlush);
+    if (this.remote) {
+      this.remote.close();
+      return;
+    }
+
+    const closedError = new Error('PlayoutBuffer closed');
+    this.discardContent(closedError);
+    for (const waiter of this.capacityWaiters.splice(0)) {
+      waiter.reject(closedError);
     }
+
     if (this.mediaSource.readyState === 'open') {
       try {
         this.mediaSource.endOfStream();
@@ -81,97 +544,491 @@ export class PlayoutBuffer {
         console.warn('MediaSource endOfStream failed', error);
       }
     }
-    if (this.objectUrl) {
-      URL.revokeObjectURL(this.objectUrl);
-      this.objectUrl = null;
+    this.videoElement.src = '';
+    this.videoElement.load();
+    this.emit('closed');
+  }
+
+  /**
+   * Drops everything queued and buffered and starts over with a fresh MediaSource
+   * Pending append() promises are rejected; the buffer stays usable
+   */
+  reset() {
+    if (this.remote) {
+      this.remote.reset();
+      return;
+    }
+
+    this.discardContent(new Error('PlayoutBuffer reset'));
+    this.openMediaSource();
+    this.releaseCapacityWaiters();
+  }
+
+  /**
+   * Rejects pending appends and releases the MediaSource along with all queued and buffered content
+   */
+  private discardContent(error: Error) {
+    this.contentGeneration += 1;
+    this.videoElement.removeEventListener('timeupdate', this.boundRoomCheck);
+    this.videoElement.removeEventListener('timeupdate', this.boundDrainCheck);
+    this.videoElement.removeEventListener('waiting', this.boundDrainCheck);
+    this.pendingRebuild = false;
+
+    for (const track of this.tracks.values()) {
+      track.appending?.reject?.(error);
+      for (const queued of track.queue) {
+        queued.reject?.(error);
+      }
+    }
+
+    this.releaseMediaSource();
+    for (const track of this.tracks.values()) {
+      track.queue.length = 0;
+      track.lastInit = null;
+      track.lastSegmentId = null;
+      track.waitingSince = null;
     }
-    this.queue.length = 0;
-    this.source = null;
     this.lastSegmentId = null;
-    this.videoElement.src = '';
+    this.endOfStreamRequested = false;
+  }
+
+  private openMediaSource() {
+    this.mediaSource = this.environment.createMediaSource();
+    this.mediaSource.addEventListener('sourceopen', this.boundSourceOpen);
+    if (this.attachMediaSource) {
+      this.attachMediaSource(this.mediaSource);
+      return;
+    }
+
+    this.objectUrl = this.environment.createObjectURL(this.mediaSource);
+    this.videoElement.src = this.objectUrl;
     this.videoElement.load();
   }
 
+  /**
+   * Detaches listeners from the current MediaSource and its SourceBuffers
+   * Queued segments are kept so they can be appended to a rebuilt MediaSource
+   */
+  private releaseMediaSource() {
+    this.mediaSource.removeEventListener('sourceopen', this.boundSourceOpen);
+    for (const track of this.tracks.values()) {
+      if (track.source) {
+        track.source.removeEventListener('updateend', track.onUpdateEnd);
+        track.source.removeEventListener('error', track.onError);
+      }
+      track.appending = null;
+      track.removing = null;
+      track.pendingTrimRanges.length = 0;
+      track.source = null;
+      track.clipped = false;
+    }
+    if (this.objectUrl) {
+      this.environment.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+
   private handleSourceOpen() {
-    if (this.source) {
+    // All SourceBuffers must be added before the first append, so create them together
+    for (const track of this.tracks.values()) {
+      if (track.source) {
+        continue;
+      }
+
+      if (!this.environment.isTypeSupported(track.mimeType)) {
+        console.warn(`MIME type ${track.mimeType} is not supported by this browser`);
+      }
+
+      try {
+        track.source = this.mediaSource.addSourceBuffer(track.mimeType);
+        track.source.mode = 'sequence';
+        track.source.addEventListener('updateend', track.onUpdateEnd);
+        track.source.addEventListener('error', track.onError);
+      } catch (error) {
+        console.error(`Failed to create SourceBuffer for ${track.type} track`, error);
+      }
+    }
+
+    this.mediaSourceGeneration += 1;
+    this.emit('sourceopen', { rebuilt: this.mediaSourceGeneration > 1 });
+
+    if (this.resumeAfterRebuild) {
+      this.resumeAfterRebuild = false;
+      this.videoElement.play().catch((error) => {
+        console.warn('Failed to resume playback after MediaSource rebuild', error);
+      });
+    }
+
+    for (const track of this.tracks.values()) {
+      this.flush(track);
+    }
+  }
+
+  /**
+   * Switches a track to a new MIME type before its next append
+   * Uses SourceBuffer.changeType when available, otherwise schedules a MediaSource rebuild
+   * @returns false when appends must wait for the rebuild
+   */
+  private switchType(track: TrackBuffer, mimeType: string): boolean {
+    if (!this.environment.isTypeSupported(mimeType)) {
+      console.warn(`MIME type ${mimeType} is not supported by this browser`);
+    }
+
+    if (track.source && typeof track.source.changeType === 'function') {
+      try {
+        track.source.changeType(mimeType);
+        track.mimeType = mimeType;
+        return true;
+      } catch (error) {
+        console.warn(`changeType to ${mimeType} failed on ${track.type} track, rebuilding MediaSource`, error);
+      }
+    }
+
+    track.mimeType = mimeType;
+    this.scheduleRebuild();
+    return false;
+  }
+
+  private scheduleRebuild() {
+    if (this.pendingRebuild) {
+      return;
+    }
+
+    this.pendingRebuild = true;
+    this.videoElement.addEventListener('timeupdate', this.boundDrainCheck);
+    this.videoElement.addEventListener('waiting', this.boundDrainCheck);
+    this.checkDrained();
+  }
+
+  /**
+   * Rebuilds the MediaSource once playback has consumed everything buffered with the old type
+   */
+  private checkDrained() {
+    if (!this.pendingRebuild) {
       return;
     }
 
-    if (!MediaSource.isTypeSupported(this.mimeType)) {
-      console.warn(`MIME type ${this.mimeType} is not supported by this browser`);
+    const buffered = this.videoElement.buffered;
+    const bufferedEnd = buffered.length > 0 ? buffered.end(buffered.length - 1) : 0;
+    if (this.videoElement.currentTime < bufferedEnd - 0.1) {
+      return;
     }
 
-    try {
-      this.source = this.mediaSource.addSourceBuffer(this.mimeType);
-      this.source.mode = 'sequence';
-      this.source.addEventListener('updateend', this.boundFlush);
-      this.flush();
-    } catch (error) {
-      console.error('Failed to create SourceBuffer', error);
+    this.videoElement.removeEventListener('timeupdate', this.boundDrainCheck);
+    this.videoElement.removeEventListener('waiting', this.boundDrainCheck);
+    this.pendingRebuild = false;
+    this.rebuildMediaSource();
+  }
+
+  private rebuildMediaSource() {
+    this.resumeAfterRebuild = !this.videoElement.paused;
+    // Appends still in flight land in the old MediaSource, which is what their callers asked for
+    for (const track of this.tracks.values()) {
+      track.appending?.resolve?.();
     }
+    this.releaseMediaSource();
+
+    // Every SourceBuffer starts empty, so tracks need their init segment again
+    for (const track of this.tracks.values()) {
+      if (track.lastInit && !track.queue[0]?.isInit) {
+        track.queue.unshift(track.lastInit);
+      }
+    }
+
+    this.openMediaSource();
   }
 
-  trim(start: number, end: number) {
+  /**
+   * Removes a time range from every track, or from a single track if given
+   */
+  trim(start: number, end: number, trackType?: TrackType) {
     if (Number.isNaN(start) || Number.isNaN(end)) {
       return;
     }
 
+    if (this.remote) {
+      this.remote.trim(start, end, trackType);
+      return;
+    }
+
     const safeStart = Math.max(0, start);
     const safeEnd = Math.max(safeStart, end);
     if (safeEnd <= safeStart) {
       return;
     }
 
-    this.pendingTrimRanges.push({ start: safeStart, end: safeEnd });
-    this.flush();
+    for (const track of this.tracks.values()) {
+      if (trackType && track.type !== trackType) {
+        continue;
+      }
+      track.pendingTrimRanges.push({ start: safeStart, end: safeEnd });
+      this.flush(track);
+    }
+  }
+
+  private handleUpdateEnd(track: TrackBuffer) {
+    const removed = track.removing;
+    track.removing = null;
+    if (removed) {
+      this.emit('trimmed', { track: track.type, start: removed.start, end: removed.end });
+    }
+
+    const appended = track.appending;
+    track.appending = null;
+    if (appended?.isInit) {
+      track.lastInit = appended;
+    } else if (appended) {
+      track.lastSegmentId = appended.id;
+      this.lastSegmentId = appended.id;
+    }
+    if (appended) {
+      appended.resolve?.();
+      this.emit('segmentappended', {
+        id: appended.id,
+        track: track.type,
+        byteLength: appended.data.byteLength,
+        isInit: appended.isInit ?? false,
+        buffered: this.getTrackBufferedRange(track),
+      });
+    }
+
+    this.flush(track);
+    this.checkEndOfStream();
+  }
+
+  /**
+   * Handles an asynchronous SourceBuffer error raised while processing an append
+   */
+  private handleSourceError(track: TrackBuffer) {
+    const failed = track.appending;
+    track.appending = null;
+    if (failed) {
+      const error = new Error(`SourceBuffer error on ${track.type} track`);
+      console.error(`SourceBuffer error for segment on ${track.type} track`, failed.id);
+      failed.reject?.(error);
+      this.emit('appenderror', { id: failed.id, track: track.type, error });
+    }
+  }
+
+  /**
+   * Returns the buffered range that contains the end of the track, or null when nothing is buffered
+   */
+  private getTrackBufferedRange(track: TrackBuffer): BufferedRange | null {
+    const buffered = track.source?.buffered;
+    if (!buffered || buffered.length === 0) {
+      return null;
+    }
+
+    const last = buffered.length - 1;
+    return { start: buffered.start(last), end: buffered.end(last) };
+  }
+
+  private checkEndOfStream() {
+    if (!this.endOfStreamRequested || this.mediaSource.readyState !== 'open') {
+      return;
+    }
+
+    for (const track of this.tracks.values()) {
+      if (!track.source || track.source.updating || track.queue.length > 0 || track.pendingTrimRanges.length > 0) {
+        return;
+      }
+    }
+
+    this.endOfStreamRequested = false;
+    try {
+      this.mediaSource.endOfStream();
+      this.emit('endofstream');
+    } catch (error) {
+      console.warn('MediaSource endOfStream failed', error);
+    }
   }
 
-  private flush() {
-    // console.log('Processing ahead', this.queue);
-    if (!this.source) {
+  private flush(track: TrackBuffer) {
+    // console.log('Processing ahead', track.type, track.queue);
+    if (!track.source || this.pendingRebuild) {
       return;
     }
 
-    if (this.source.updating) {
+    if (track.source.updating) {
       return;
     }
 
-    if (this.pendingTrimRanges.length > 0) {
-      const range = this.pendingTrimRanges.shift()!;
+    if (track.pendingTrimRanges.length > 0) {
+      const range = track.pendingTrimRanges.shift()!;
       try {
-        this.source.remove(range.start, range.end);
+        track.source.remove(range.start, range.end);
+        track.removing = range;
         return;
       } catch (error) {
-        console.error('SourceBuffer trim failed', error);
+        console.error(`SourceBuffer trim failed on ${track.type} track`, error);
       }
     }
 
-    if (this.queue.length === 0) {
+    if (track.queue.length === 0 || track.waitingSince !== null) {
       return;
     }
 
-    const snapshot = [...this.queue];
+    const snapshot = [...track.queue];
     for (const segment of snapshot) {
-      if (!this.source || this.source.updating) {
+      if (!track.source || track.source.updating) {
         break;
       }
 
-      const queued = this.queue.shift();
+      const queued = track.queue.shift();
       if (!queued) {
         continue;
       }
 
+      const mimeType = queued.variant?.mimeType;
+      if (mimeType && mimeType !== track.mimeType && !this.switchType(track, mimeType)) {
+        track.queue.unshift(queued);
+        break;
+      }
+
       try {
-        this.source.appendBuffer(queued.data);
-        if (!queued.isInit) {
-          this.lastSegmentId = queued.id;
-        }
-        // console.log('Pushed to buffer', queued.data.byteLength);
+        this.updateAppendWindow(track, queued);
+        track.source.appendBuffer(queued.data);
+        track.appending = queued;
+        // console.log('Pushed to buffer', track.type, queued.data.byteLength);
       } catch (error) {
-        console.error('appendBuffer failed for segment', queued.id, error);
-        this.queue.unshift(queued);
+        if (isQuotaExceededError(error)) {
+          track.queue.unshift(queued);
+          this.recoverFromQuotaExceeded(track, queued);
+        } else {
+          // Retrying the same data would fail again and stall the queue, so drop it
+          console.error(`appendBuffer failed for segment on ${track.type} track`, queued.id, error);
+          queued.reject?.(error);
+          this.emit('appenderror', { id: queued.id, track: track.type, error });
+          continue;
+        }
         break;
       }
     }
+
+    this.releaseCapacityWaiters();
   }
+
+  /**
+   * Places a clipped segment at the end of the track, cutting it to its in/out points
+   * The SourceBuffer switches to `segments` mode for the clip, since `sequence` mode ignores
+   * timestampOffset, and back to `sequence` for the next unclipped segment
+   */
+  private updateAppendWindow(track: TrackBuffer, queued: QueuedSegment) {
+    const source = track.source!;
+    const clip = queued.clip;
+
+    if (!clip) {
+      if (track.clipped && !queued.isInit) {
+        source.mode = 'sequence';
+        source.appendWindowEnd = Infinity;
+        source.appendWindowStart = 0;
+        track.clipped = false;
+      }
+      return;
+    }
+
+    if (clip.applied) {
+      return;
+    }
+
+    const start = this.getTrackBufferedRange(track)?.end ?? 0;
+    source.mode = 'segments';
+    source.timestampOffset = start - clip.inPoint;
+    source.appendWindowEnd = Infinity;
+    source.appendWindowStart = start;
+    if (clip.outPoint !== undefined) {
+      source.appendWindowEnd = start + Math.max(0, clip.outPoint - clip.inPoint);
+    }
+    clip.applied = true;
+    track.clipped = true;
+  }
+
+  /**
+   * Frees room for a segment that hit the SourceBuffer quota
+   * First evicts played content behind the back-buffer, then splits the append,
+   * and finally waits for playback to advance when neither is possible
+   */
+  private recoverFromQuotaExceeded(track: TrackBuffer, queued: QueuedSegment) {
+    const source = track.source!;
+    const evictEnd = this.videoElement.currentTime - this.backBufferSeconds;
+    const buffered = source.buffered;
+
+    if (!queued.evicted && buffered.length > 0 && evictEnd > buffered.start(0)) {
+      queued.evicted = true;
+      const range = { start: 0, end: evictEnd };
+      track.pendingTrimRanges.unshift(range);
+      this.emitQuotaExceeded(track, queued, 'evict', range);
+      this.flush(track);
+      return;
+    }
+
+    if (!queued.isInit && queued.data.byteLength >= MIN_SPLIT_BYTES * 2) {
+      const half = Math.floor(queued.data.byteLength / 2);
+      track.queue.splice(
+        0,
+        1,
+        // Only the second half completes the segment for append() callers
+        { ...queued, data: queued.data.slice(0, half), evicted: false, waiting: false, resolve: undefined },
+        { ...queued, data: queued.data.slice(half), evicted: false, waiting: false }
+      );
+      this.emitQuotaExceeded(track, queued, 'split');
+      this.flush(track);
+      return;
+    }
+
+    queued.evicted = false;
+    track.waitingSince = this.videoElement.currentTime;
+    this.videoElement.addEventListener('timeupdate', this.boundRoomCheck);
+    if (!queued.waiting) {
+      queued.waiting = true;
+      this.emitQuotaExceeded(track, queued, 'wait');
+    }
+  }
+
+  /**
+   * Retries the appends waiting for room once playback has moved on far enough to free some
+   */
+  private retryWaitingTracks() {
+    const currentTime = this.videoElement.currentTime;
+    for (const track of this.tracks.values()) {
+      if (track.waitingSince !== null && Math.abs(currentTime - track.waitingSince) >= ROOM_RETRY_SECONDS) {
+        track.waitingSince = null;
+        this.flush(track);
+      }
+    }
+
+    if ([...this.tracks.values()].every((track) => track.waitingSince === null)) {
+      this.videoElement.removeEventListener('timeupdate', this.boundRoomCheck);
+    }
+  }
+
+  private emitQuotaExceeded(
+    track: TrackBuffer,
+    queued: QueuedSegment,
+    action: QuotaExceededEvent['action'],
+    range?: { start: number; end: number }
+  ) {
+    this.emit('quotaexceeded', {
+      track: track.type,
+      segmentId: queued.id,
+      byteLength: queued.data.byteLength,
+      action,
+      range,
+    });
+  }
+}
+
+function createClipWindow(segment: Segment): ClipWindow | undefined {
+  if (segment.inPoint === undefined && segment.outPoint === undefined) {
+    return undefined;
+  }
+  return { inPoint: segment.inPoint ?? 0, outPoint: segment.outPoint, applied: false };
+}
+
+function isHTMLMediaElement(element: PlayoutMediaElement): element is HTMLVideoElement {
+  return typeof HTMLMediaElement !== 'undefined' && element instanceof HTMLMediaElement;
+}
+
+function isQuotaExceededError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'QuotaExceededError';
 }
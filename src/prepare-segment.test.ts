@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { remuxToFragmentedMp4 } from './mp4/remux';
+import { avc1Entry, buildProgressiveMp4, fixtureSamples } from './mp4/test-fixtures';
+import { buildTransportStream } from './mpegts/test-fixtures';
+import { prepareSegments } from './prepare-segment';
+import { buildWebM } from './webm/test-fixtures';
+
+const readBlob = (blob: Blob) => blob.arrayBuffer();
+
+function fragmentedMp4(fragmentCount: number) {
+  const progressive = buildProgressiveMp4([
+    { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(30 * fragmentCount, 1, 30) },
+  ]);
+  return remuxToFragmentedMp4(progressive, { fragmentDuration: 1 });
+}
+
+describe('prepareSegments', () => {
+  it('splits a fragmented MP4 file, with the init on the first segment only', async () => {
+    const { init, fragments } = fragmentedMp4(2);
+    const prepared = await prepareSegments({ id: 7, blob: new Blob([init, ...fragments]) }, readBlob);
+
+    expect(prepared).toHaveLength(2);
+    expect(prepared.map((segment) => segment.data?.byteLength)).toEqual(fragments.map((fragment) => fragment.byteLength));
+    expect(new Uint8Array(prepared[0].variant!.init!)).toEqual(new Uint8Array(init));
+    expect(prepared[1].variant!.init).toBeUndefined();
+    expect(prepared[0].variant!.mimeType).toBe('video/mp4; codecs="avc1.64001F"');
+    expect(prepared.every((segment) => segment.id === 7 && !segment.blob)).toBe(true);
+  });
+
+  it('splits a WebM file into clusters', async () => {
+    const data = buildWebM({
+      tracks: [{ number: 1, type: 1, codecId: 'V_VP9', width: 640, height: 360 }],
+      clusters: [0, 1000].map((timecode) => ({ timecode, blocks: [{ track: 1, timecode: 0, keyframe: true }] })),
+      unknownSizeClusters: true,
+    });
+    const prepared = await prepareSegments({ id: 3, data });
+
+    expect(prepared).toHaveLength(2);
+    expect(prepared[0].variant).toMatchObject({ stream_id: '3', mimeType: 'video/webm; codecs="vp9"' });
+    expect(prepared[0].variant!.init).toBeInstanceOf(ArrayBuffer);
+    expect(prepared[1].variant!.init).toBeUndefined();
+  });
+
+  it('transmuxes an MPEG-TS segment to fragmented MP4', async () => {
+    const data = buildTransportStream({ video: { frames: 50 }, audio: { frames: 94 } });
+    const prepared = await prepareSegments({ id: 4, data });
+
+    expect(prepared).toHaveLength(1);
+    expect(prepared[0].variant!.mimeType).toBe('video/mp4; codecs="avc1.42C01E,mp4a.40.2"');
+    expect(prepared[0].variant!.init).toBeInstanceOf(ArrayBuffer);
+  });
+
+  it('keeps a MIME type set by the caller', async () => {
+    const { init, fragments } = fragmentedMp4(1);
+    const data = await new Blob([init, ...fragments]).arrayBuffer();
+    const prepared = await prepareSegments({ id: 1, data, variant: { stream_id: 'a', mimeType: 'video/mp4' } });
+
+    expect(prepared[0].variant).toMatchObject({ stream_id: 'a', mimeType: 'video/mp4' });
+  });
+
+  it('passes through segments that carry their own init or are not a known container', async () => {
+    const data = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]).buffer;
+    const init = new ArrayBuffer(4);
+
+    expect(await prepareSegments({ id: 1, data })).toEqual([{ id: 1, data, blob: undefined }]);
+    const { fragments } = fragmentedMp4(1);
+    const withInit = await prepareSegments({ id: 2, data: fragments[0], variant: { stream_id: 's', init } });
+    expect(withInit).toHaveLength(1);
+  });
+
+  it('names the segment when a progressive MP4 cannot be split', async () => {
+    const progressive = buildProgressiveMp4([
+      { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(3, 1) },
+    ]);
+
+    await expect(prepareSegments({ id: 5, data: progressive })).rejects.toThrow('Segment 5: MP4 file is not fragmented');
+  });
+});
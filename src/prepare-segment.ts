@@ -0,0 +1,82 @@
+import { isMp4 } from './mp4/boxes';
+import { detectMp4MimeType } from './mp4/codecs';
+import { splitFragmentedMp4 } from './mp4/fragments';
+import { isTransportStream, TS_PACKET_SIZE } from './mpegts/demux';
+import { transmuxTsToFragmentedMp4 } from './mpegts/transmux';
+import { Segment } from './types/segment';
+import { detectWebMMimeType, isWebM, splitWebM } from './webm/webm';
+
+/**
+ * Turns a segment into the segments that are appended to the SourceBuffer
+ * Segments carrying only a blob are read into memory here, so this runs wherever
+ * the MediaSource lives (main thread or worker)
+ * Whole MP4 and WebM files without a `variant.init` are split into their init segment and
+ * fragments (clusters for WebM), and MPEG-TS is transmuxed to fragmented MP4; the init travels
+ * on the first returned segment only, and a missing `variant.mimeType` is filled in from the
+ * codecs declared by the init
+ * @throws Error when the segment is an MP4 file that is not fragmented, or a malformed WebM or MPEG-TS file
+ */
+export async function prepareSegments(
+  segment: Segment,
+  readBlob: (blob: Blob) => Promise<ArrayBuffer> = readBlobAsArrayBuffer
+): Promise<Segment[]> {
+  let data = segment.data;
+  if (!data && segment.blob) {
+    data = await readBlob(segment.blob);
+  }
+  if (!data) {
+    return [segment];
+  }
+
+  const prepared: Segment = { ...segment, data, blob: undefined };
+  const header = new Uint8Array(data, 0, Math.min(data.byteLength, TS_PACKET_SIZE + 1));
+  const container = isMp4(header) ? 'mp4' : isWebM(header) ? 'webm' : isTransportStream(header) ? 'ts' : null;
+  if (segment.variant?.init || !container) {
+    return [prepared];
+  }
+
+  // WebM clusters play the role of MP4 fragments; MPEG-TS is transmuxed to fragmented MP4
+  let file: { init: ArrayBuffer; fragments: ArrayBuffer[] };
+  let mimeType: string | null;
+  try {
+    if (container === 'webm') {
+      const webm = splitWebM(data);
+      file = { init: webm.init, fragments: webm.clusters };
+      mimeType = detectWebMMimeType(webm.init);
+    } else {
+      file = container === 'mp4' ? splitFragmentedMp4(data) : transmuxTsToFragmentedMp4(data);
+      mimeType = detectMp4MimeType(file.init);
+    }
+  } catch (error) {
+    throw new Error(`Segment ${segment.id}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const variant = {
+    stream_id: segment.variant?.stream_id ?? String(segment.id),
+    mimeType: segment.variant?.mimeType ?? mimeType ?? undefined,
+  };
+  return file.fragments.map((fragment, index) => ({
+    ...prepared,
+    data: fragment,
+    variant: index === 0 ? { ...variant, init: file.init } : variant,
+  }));
+}
+
+/**
+ * Reads a blob into an ArrayBuffer
+ * FileReader is available on the main thread and in dedicated workers
+ */
+export function readBlobAsArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (reader.result instanceof ArrayBuffer) {
+        resolve(reader.result);
+      } else {
+        reject(new Error('Failed to convert blob to ArrayBuffer'));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
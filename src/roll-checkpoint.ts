@@ -0,0 +1,120 @@
+import { openDatabase } from './open-database';
+
+/**
+ * Where a roll was when it last saved its position
+ */
+export interface RollCheckpoint {
+  /** Item on air */
+  itemId: number;
+  /** The item's queueIndex, to find its place in the order if it has been removed since */
+  queueIndex: number;
+  /** Seconds from the item's in point */
+  offset: number;
+  /** Passes through the order completed so far */
+  loopCount: number;
+  /** Milliseconds since the epoch */
+  savedAt: number;
+}
+
+/**
+ * Name of the object store checkpoints are kept in, next to the Playlist's
+ */
+const CHECKPOINT_STORE = 'roll-checkpoints';
+
+/**
+ * Keeps the checkpoint of one roll in IndexedDB
+ * Saves never overlap: a save requested while one is in progress replaces any save still waiting
+ */
+export class CheckpointStore {
+  private db: IDBDatabase | null = null;
+  private saving = false;
+  private waiting: RollCheckpoint | null = null;
+
+  /**
+   * @param dbName - Database to keep the checkpoint in, usually the Playlist's
+   * @param key - Identifies the roll, e.g. the Playlist's store name
+   */
+  constructor(
+    private readonly dbName: string,
+    private readonly key: string
+  ) {}
+
+  private async getDB(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = await openDatabase({
+        dbName: this.dbName,
+        storeName: CHECKPOINT_STORE,
+        createStore: (db) => {
+          db.createObjectStore(CHECKPOINT_STORE);
+        },
+        onClose: () => {
+          this.db = null;
+        },
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Returns the saved checkpoint, or null when there is none
+   */
+  async load(): Promise<RollCheckpoint | null> {
+    const db = await this.getDB();
+    const transaction = db.transaction([CHECKPOINT_STORE], 'readonly');
+    const store = transaction.objectStore(CHECKPOINT_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(this.key);
+
+      request.onsuccess = () => {
+        resolve((request.result as RollCheckpoint | undefined) ?? null);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to load checkpoint: ${request.error?.message}`));
+      };
+    });
+  }
+
+  /**
+   * Saves a checkpoint in the background; failures are logged
+   */
+  save(checkpoint: RollCheckpoint): void {
+    if (this.saving) {
+      this.waiting = checkpoint;
+      return;
+    }
+
+    this.saving = true;
+    this.put(checkpoint)
+      .catch((error) => {
+        console.warn('Roll: failed to save checkpoint', error);
+      })
+      .finally(() => {
+        this.saving = false;
+        const waiting = this.waiting;
+        this.waiting = null;
+        if (waiting) {
+          this.save(waiting);
+        }
+      });
+  }
+
+  private async put(checkpoint: RollCheckpoint): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([CHECKPOINT_STORE], 'readwrite');
+    const store = transaction.objectStore(CHECKPOINT_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(checkpoint, this.key);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to save checkpoint: ${request.error?.message}`));
+      };
+    });
+  }
+}
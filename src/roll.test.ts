@@ -0,0 +1,589 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isMp4 } from './mp4/boxes';
+import { splitFragmentedMp4 } from './mp4/fragments';
+import { remuxToFragmentedMp4 } from './mp4/remux';
+import { avc1Entry, buildProgressiveMp4, fixtureSamples } from './mp4/test-fixtures';
+import { buildTransportStream } from './mpegts/test-fixtures';
+import { SequentialOrder } from './ordering';
+import { Playlist } from './playlist';
+import { PlayoutBuffer } from './playout-buffer';
+import { AttachBufferOptions, Roll } from './roll';
+import { CheckpointStore } from './roll-checkpoint';
+import { StallWatchdog } from './stall-watchdog';
+import { FakeMediaEnvironment, FakeMediaEnvironmentOptions, fakeMediaData, FakeVideoElement } from './testing';
+
+let databaseCount = 0;
+const rolls: Roll[] = [];
+
+/**
+ * Builds a roll over a fresh database holding one item per duration, in order
+ */
+async function setup(durations: number[], environmentOptions: FakeMediaEnvironmentOptions = {}) {
+  const env = new FakeMediaEnvironment(environmentOptions);
+  const playlist = new Playlist(`roll-test-${++databaseCount}`);
+  const roll = new Roll(playlist, [], { environment: env });
+  rolls.push(roll);
+  await roll.init();
+
+  const ids: number[] = [];
+  for (const [index, seconds] of durations.entries()) {
+    ids.push(await playlist.add(new Blob([fakeMediaData(seconds)]), { filename: `item-${index}` }));
+  }
+
+  const video = env.createVideoElement();
+  const buffer = new PlayoutBuffer(video, { environment: env });
+  return { env, video, buffer, roll, playlist, ids };
+}
+
+/**
+ * Moves the fake clock in small steps until a promise settles
+ * IndexedDB runs on real timers, so a fixed advance can finish before the roll reaches its append
+ */
+async function advanceUntil<T>(env: FakeMediaEnvironment, promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(
+    () => (settled = true),
+    () => (settled = true)
+  );
+  for (let step = 0; step < 100 && !settled; step++) {
+    await env.clock.advance(10);
+  }
+  return promise;
+}
+
+/**
+ * Attaches the buffer, moving the fake clock until the first item is appended
+ */
+async function attach(
+  { env, video, buffer, roll }: Awaited<ReturnType<typeof setup>>,
+  options: AttachBufferOptions = {}
+): Promise<void> {
+  await advanceUntil(env, roll.attachBuffer(buffer, video, options));
+}
+
+/**
+ * Plays the video element for `ms` of fake time
+ */
+async function play(env: FakeMediaEnvironment, video: FakeVideoElement, ms: number): Promise<void> {
+  await video.play();
+  await env.clock.advance(ms);
+}
+
+/**
+ * Adds an item with probed media of `seconds`, so fixed starts know when the item ends
+ */
+function addProbedItem(playlist: Playlist, seconds: number, metadata: Record<string, unknown> = {}): Promise<number> {
+  const media = { duration: seconds, bitrate: 0, mimeType: null, tracks: [], keyframes: [] };
+  return playlist.add(new Blob([fakeMediaData(seconds)]), { filename: `probed-${seconds}`, media, ...metadata });
+}
+
+function ranges(timeRanges: TimeRanges): Array<[number, number]> {
+  return Array.from({ length: timeRanges.length }, (_, i) => [timeRanges.start(i), timeRanges.end(i)]);
+}
+
+afterEach(() => {
+  for (const roll of rolls.splice(0)) {
+    roll.close();
+  }
+});
+
+describe('Roll', () => {
+  it('queues the first item on attach and the next one as the playhead nears its end', async () => {
+    const context = await setup([3, 3]);
+    const { env, video } = context;
+    await attach(context, { thresholdSeconds: 1 });
+    expect(ranges(video.buffered)).toEqual([[0, 3]]);
+
+    await play(env, video, 2500);
+    expect(ranges(video.buffered)).toEqual([[0, 6]]);
+  });
+
+  it('plays the items in order and starts over after the last one', async () => {
+    const context = await setup([2, 2]);
+    const { env, video, roll, ids } = context;
+    const started: number[] = [];
+    let rollEnds = 0;
+    roll.on('itemStart', ({ item }) => started.push(item.id!));
+    roll.on('rollEnd', () => rollEnds++);
+
+    await attach(context);
+    await play(env, video, 9000);
+
+    expect(started.slice(0, 4)).toEqual([ids[0], ids[1], ids[0], ids[1]]);
+    expect(rollEnds).toBeGreaterThanOrEqual(1);
+  });
+
+  it('stops after one pass when attached without looping', async () => {
+    const context = await setup([2, 2]);
+    const { env, video, roll, ids } = context;
+    const started: number[] = [];
+    let streamEnds = 0;
+    roll.on('itemStart', ({ item }) => started.push(item.id!));
+    roll.on('streamEnd', () => streamEnds++);
+
+    await attach(context, { loop: false });
+    await play(env, video, 8000);
+
+    expect(started).toEqual(ids);
+    expect(streamEnds).toBe(1);
+    expect(ranges(video.buffered)[0][1]).toBe(4);
+  });
+
+  it('trims items that have played out of the buffer', async () => {
+    const context = await setup([2, 2, 2]);
+    const { env, video } = context;
+    await attach(context);
+    await play(env, video, 3000);
+
+    expect(video.currentTime).toBeGreaterThan(2);
+    expect(video.buffered.start(0)).toBe(2);
+  });
+
+  it('points its watchdog at the element on air after a deck swap', async () => {
+    const context = await setup([2, 2, 2]);
+    const { env, video } = context;
+    const standby = env.createVideoElement();
+    const watchdog = new StallWatchdog(video, { clock: env.clock, stallTimeoutMs: 1000 });
+    const stalls: number[] = [];
+    watchdog.on('stall', ({ currentTime }) => stalls.push(currentTime));
+
+    await attach(context, {
+      watchdog,
+      alternate: { playoutBuffer: new PlayoutBuffer(standby, { environment: env }), videoElement: standby },
+    });
+    await play(env, video, 2500);
+    expect(standby.paused).toBe(false);
+    expect(stalls).toEqual([]);
+
+    standby.frozen = true;
+    await env.clock.advance(2000);
+    expect(stalls.length).toBeGreaterThan(0);
+
+    context.roll.detachBuffer();
+    const stallCount = stalls.length;
+    await env.clock.advance(3000);
+    expect(stalls).toHaveLength(stallCount);
+  });
+
+  it('stores progressive MP4 as fragmented MP4 unless told not to', async () => {
+    const { roll, playlist } = await setup([]);
+    const progressive = new Blob([
+      buildProgressiveMp4([
+        { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(150, 1, 30) },
+      ]),
+    ]);
+
+    const remuxed = await roll.upsertItem(progressive, { filename: 'remuxed.mp4' });
+    const stored = await playlist.getItem(remuxed.id);
+    // Five seconds cut into the default 2 s fragments
+    expect(splitFragmentedMp4(await stored!.blob.arrayBuffer()).fragments).toHaveLength(3);
+
+    const kept = await roll.upsertItem(progressive, { filename: 'kept.mp4' }, { fragmentMp4: false });
+    const keptBlob = (await playlist.getItem(kept.id))!.blob;
+    expect(keptBlob.size).toBe(progressive.size);
+    expect(isMp4(new Uint8Array(await keptBlob.arrayBuffer()))).toBe(true);
+  });
+
+  it('stores the detected MIME type and warns when the environment cannot play it', async () => {
+    const { roll, playlist } = await setup([], { isTypeSupported: (type) => !type.includes('avc1') });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const file = new Blob([
+      buildProgressiveMp4([
+        { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(30, 1, 30) },
+      ]),
+    ]);
+
+    const { id } = await roll.upsertItem(file, { filename: 'clip.mp4' });
+    expect(warn).toHaveBeenCalledWith('Roll: item clip.mp4 uses video/mp4; codecs="avc1.64001F", which this environment cannot play');
+    warn.mockRestore();
+    expect((await playlist.getItem(id))!.metadata.mimeType).toBe('video/mp4; codecs="avc1.64001F"');
+  });
+
+  it('ignores an in point beyond the probed duration of an item', async () => {
+    const context = await setup([]);
+    const { playlist, video } = context;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const media = { duration: 3, bitrate: 0, mimeType: null, tracks: [], keyframes: [] };
+    await playlist.add(new Blob([fakeMediaData(3)]), { filename: 'short', media, inPoint: 5 });
+
+    await attach(context, { loop: false });
+    expect(warn).toHaveBeenCalledWith('Roll: ignoring in point beyond the end of the media', expect.any(Number));
+    warn.mockRestore();
+    expect(ranges(video.buffered)).toEqual([[0, 3]]);
+  });
+
+  it('stores MPEG-TS as fragmented MP4 even when MP4 remuxing is off', async () => {
+    const { roll, playlist } = await setup([]);
+    const stream = new Blob([buildTransportStream({ video: { frames: 50 } })]);
+
+    const { id } = await roll.upsertItem(stream, { filename: 'feed.ts' }, { fragmentMp4: false });
+    const item = (await playlist.getItem(id))!;
+    expect(splitFragmentedMp4(await item.blob.arrayBuffer()).fragments.length).toBeGreaterThan(0);
+    expect(item.metadata).toMatchObject({ mimeType: 'video/mp4; codecs="avc1.42C01E"', media: { duration: 2 } });
+  });
+
+  it('clears the probed media of a replaced blob when the new one cannot be probed', async () => {
+    const { roll, playlist } = await setup([]);
+    const { id } = await roll.upsertItem(new Blob([buildTransportStream({ video: { frames: 50 } })]), { filename: 'feed' });
+
+    await roll.upsertItem(new Blob(['not a media file']), { category: 'news' }, { id });
+    const item = (await playlist.getItem(id))!;
+    expect(item.metadata).toMatchObject({ filename: 'feed', category: 'news' });
+    expect(item.metadata.media).toBeUndefined();
+    expect(item.metadata.mimeType).toBeUndefined();
+
+    await roll.upsertItem(new Blob(['not a media file']), { mimeType: 'video/mp4' }, { id });
+    expect((await playlist.getItem(id))!.metadata.mimeType).toBe('video/mp4');
+  });
+
+  it('streams items above the threshold one fragment at a time', async () => {
+    const { init, fragments } = remuxToFragmentedMp4(
+      buildProgressiveMp4([
+        { id: 1, handler: 'vide', timescale: 30, sampleEntry: avc1Entry(), samples: fixtureSamples(120, 1, 30, 200) },
+      ]),
+      { fragmentDuration: 1 }
+    );
+    // The fakes give MP4 data no media time; the fake item ahead keeps the lookahead asking for more
+    const fakeSize = fakeMediaData(2).byteLength;
+    const readSizes = async (streamingThresholdBytes: number) => {
+      const context = await setup([2]);
+      const { env, roll, buffer } = context;
+      await roll.upsertItem(new Blob([init, ...fragments]), { filename: 'large.mp4' });
+      const reads: number[] = [];
+      const appended: number[] = [];
+      const readBlob = env.readBlob.bind(env);
+      env.readBlob = (blob) => {
+        if (blob.size > fakeSize) {
+          reads.push(blob.size);
+        }
+        return readBlob(blob);
+      };
+      buffer.on('segmentappended', ({ byteLength, isInit }) => !isInit && byteLength > fakeSize && appended.push(byteLength));
+
+      await attach(context, { streamingThresholdBytes, loop: false });
+      await env.clock.advance(500);
+      expect(appended).toEqual(fragments.map((fragment) => fragment.byteLength));
+      return reads;
+    };
+
+    expect(await readSizes(1000)).toEqual(fragments.map((fragment) => fragment.byteLength));
+    expect(await readSizes(Infinity)).toEqual([init.byteLength + fragments.reduce((total, fragment) => total + fragment.byteLength, 0)]);
+  });
+
+  it('seeks into an item from its last keyframe before the requested point', async () => {
+    const context = await setup([3]);
+    const { env, video, roll, playlist, ids } = context;
+    const media = {
+      duration: 6,
+      bitrate: 0,
+      mimeType: null,
+      tracks: [{ id: 1, kind: 'video' as const, codec: null, duration: 6, bitrate: 0 }],
+      keyframes: [0, 2, 4],
+    };
+    const target = await playlist.add(new Blob([fakeMediaData(6)]), { filename: 'keyframes', media });
+    const ended: Array<string | null> = [];
+    const started: number[] = [];
+    roll.on('itemEnd', ({ interruption }) => ended.push(interruption));
+    roll.on('itemStart', ({ item }) => started.push(item.id!));
+
+    await attach(context, { loop: false });
+    await play(env, video, 1000);
+    await advanceUntil(env, roll.seek(target, 3));
+
+    expect(ended).toEqual(['seek']);
+    expect(ranges(video.buffered)).toEqual([[0, 4]]);
+    expect(video.currentTime).toBe(1);
+    expect(video.paused).toBe(false);
+    await env.clock.advance(100);
+    expect(started).toEqual([ids[0], target]);
+  });
+
+  it('appends the whole clip when seeking into an item without probed keyframes', async () => {
+    const context = await setup([3, 4]);
+    const { env, video, roll, ids } = context;
+    await attach(context, { loop: false });
+    await advanceUntil(env, roll.seek(ids[1], 2.5));
+
+    expect(ranges(video.buffered)).toEqual([[0, 4]]);
+    expect(video.currentTime).toBe(2.5);
+  });
+
+  it('rejects seeks it cannot perform', async () => {
+    const context = await setup([3]);
+    const { env, playlist, roll, ids } = context;
+    await expect(roll.seek(ids[0], 1)).rejects.toThrow('Roll.seek needs an attached buffer');
+
+    const media = { duration: 3, bitrate: 0, mimeType: null, tracks: [], keyframes: [] };
+    const probed = await playlist.add(new Blob([fakeMediaData(3)]), { filename: 'probed', media });
+    await attach(context);
+    await expect(roll.seek(ids[0], -1)).rejects.toThrow('Invalid seek offset: -1');
+    await expect(roll.seek(9999, 0)).rejects.toThrow('Roll.seek: item 9999 not found');
+    await expect(advanceUntil(env, roll.seek(probed, 3))).rejects.toThrow(`offset 3s is past the end of item ${probed}`);
+  });
+
+  it('breaks in with playNow and replays what the cut flushed', async () => {
+    const context = await setup([4, 4, 2]);
+    const { env, video, roll, ids } = context;
+    const played: Array<[number, string | null]> = [];
+    roll.on('itemEnd', ({ item, interruption }) => played.push([item.id!, interruption]));
+
+    await attach(context, { loop: false });
+    await play(env, video, 1000);
+    expect(ranges(video.buffered)).toEqual([[0, 8]]);
+    await advanceUntil(env, roll.playNow(ids[2]));
+    // Half a second of the item on air is kept, followed by the insert
+    expect(ranges(video.buffered)).toEqual([[0, 3.5]]);
+
+    await env.clock.advance(7000);
+    expect(played).toEqual([
+      [ids[0], 'playNow'],
+      [ids[2], null],
+      [ids[1], null],
+    ]);
+  });
+
+  it('resumes the interrupted item after a playNow insert when asked to', async () => {
+    const context = await setup([4, 4, 2]);
+    const { env, video, roll, ids } = context;
+    const started: Array<[number, number]> = [];
+    roll.on('itemStart', ({ item, offset }) => started.push([item.id!, offset]));
+
+    await attach(context, { loop: false });
+    await play(env, video, 1000);
+    await advanceUntil(env, roll.playNow(ids[2], { resume: true }));
+    await env.clock.advance(6000);
+
+    // Items without probed keyframes resume at the cut
+    expect(started.slice(1)).toEqual([
+      [ids[2], 0],
+      [ids[0], 1.5],
+      [ids[1], 0],
+    ]);
+  });
+
+  it('plays an item after the current one with playNext', async () => {
+    const context = await setup([4, 4, 2]);
+    const { env, video, roll, ids } = context;
+    const started: number[] = [];
+    const ended: Array<string | null> = [];
+    roll.on('itemStart', ({ item }) => started.push(item.id!));
+    roll.on('itemEnd', ({ interruption }) => ended.push(interruption));
+
+    await attach(context, { loop: false });
+    await play(env, video, 1000);
+    await advanceUntil(env, roll.playNext(ids[2]));
+    expect(ranges(video.buffered)).toEqual([[0, 4]]);
+
+    await env.clock.advance(10000);
+    expect(started).toEqual([ids[0], ids[2], ids[1], ids[2]]);
+    expect(ended.slice(0, 3)).toEqual([null, null, null]);
+  });
+
+  it('rejects inserts without an attached buffer or for unknown items', async () => {
+    const context = await setup([2]);
+    const { roll, ids } = context;
+    await expect(roll.playNow(ids[0])).rejects.toThrow('Roll.playNow needs an attached buffer');
+
+    await attach(context);
+    await expect(roll.playNext(9999)).rejects.toThrow('Roll.playNext: item 9999 not found');
+  });
+
+  it('appends the new blob of an item upserted after it was read ahead', async () => {
+    const context = await setup([3, 2]);
+    const { env, video, roll, ids } = context;
+    await attach(context, { loop: false, thresholdSeconds: 1 });
+
+    // Same size and type as the blob read ahead
+    await roll.upsertItem(new Blob([fakeMediaData(5)]), {}, { id: ids[1] });
+    await play(env, video, 2500);
+    expect(ranges(video.buffered)).toEqual([[0, 8]]);
+  });
+
+  it('appends the new blob of an item replaced in the playlist after it was read ahead', async () => {
+    const context = await setup([3, 2]);
+    const { env, video, playlist, ids } = context;
+    await attach(context, { loop: false, thresholdSeconds: 1 });
+
+    // Replaced behind Roll's back, with a blob of the same size and type
+    await playlist.updateItem(ids[1], { blob: new Blob([fakeMediaData(5)]) });
+    await play(env, video, 2500);
+    expect(ranges(video.buffered)).toEqual([[0, 8]]);
+  });
+
+  it('stops reading ahead items that were removed', async () => {
+    const context = await setup([3, 2, 4]);
+    const { env, video, roll, ids } = context;
+    const started: number[] = [];
+    roll.on('itemStart', ({ item }) => started.push(item.id!));
+    await attach(context, { loop: false, thresholdSeconds: 1 });
+
+    await roll.removeItem(ids[1]);
+    await play(env, video, 6000);
+    expect(started).toEqual([ids[0], ids[2]]);
+    expect(ranges(video.buffered)[0][1]).toBe(7);
+  });
+
+  it('queues up to maxItemsAhead items after the one on air within maxBufferedSeconds', async () => {
+    const context = await setup([2, 2, 2, 2, 2]);
+    const { env, video } = context;
+    await attach(context, { loop: false, lookahead: { minBufferedSeconds: 1, maxBufferedSeconds: 5, maxItemsAhead: 2 } });
+
+    await play(env, video, 1500);
+    expect(ranges(video.buffered)).toEqual([[0, 6]]);
+    // The played item is trimmed as the next one comes on air, and one more is queued
+    await env.clock.advance(1000);
+    expect(ranges(video.buffered)).toEqual([[2, 8]]);
+  });
+
+  describe('in schedule mode', () => {
+    it('fills the gap before a fixed start and cuts the item playing when the next one comes due', async () => {
+      const context = await setup([]);
+      const { env, video, roll, playlist } = context;
+      const opener = await addProbedItem(playlist, 2);
+      const news = await addProbedItem(playlist, 2, { startAt: 5000 });
+      const filler = await addProbedItem(playlist, 6, { filler: true });
+      const movie = await addProbedItem(playlist, 10);
+      const weather = await addProbedItem(playlist, 2, { startAt: 9000 });
+      const ended: Array<[number, string | null]> = [];
+      roll.on('itemEnd', ({ item, interruption }) => ended.push([item.id!, interruption]));
+
+      await attach(context, { schedule: { clock: env.clock }, loop: false });
+      await play(env, video, 12000);
+
+      expect(ended).toEqual([
+        [opener, null],
+        [filler, null],
+        [news, null],
+        [movie, 'scheduled start'],
+        [weather, null],
+      ]);
+      expect(roll.getScheduleReport()).toMatchObject([
+        { itemId: opener, filler: false, scheduledStart: null },
+        { itemId: filler, filler: true, plannedEnd: 5000 },
+        { itemId: news, scheduledStart: 5000, plannedStart: 5000, plannedEnd: 7000 },
+        { itemId: movie, plannedStart: 7000, plannedEnd: 9000 },
+        { itemId: weather, scheduledStart: 9000, plannedStart: 9000 },
+      ]);
+      // Actual starts are measured on the playhead, a timer step apart from the plan at most
+      for (const airing of roll.getScheduleReport()) {
+        expect(Math.abs(airing.actualStart! - airing.plannedStart)).toBeLessThanOrEqual(20);
+      }
+    });
+
+    it('skips items whose fixed span is over and joins the one in progress late', async () => {
+      const context = await setup([]);
+      const { env, video, roll, playlist } = context;
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const missed = await addProbedItem(playlist, 2, { startAt: 1000 });
+      const late = await addProbedItem(playlist, 4, { startAt: 4000 });
+      const soft = await addProbedItem(playlist, 2, { startAt: 9000, startMode: 'soft' });
+      const skipped: number[] = [];
+      roll.on('itemSkipped', ({ itemId }) => skipped.push(itemId!));
+
+      await env.clock.advance(5000);
+      await attach(context, { schedule: { clock: env.clock }, loop: false });
+      warn.mockRestore();
+      expect(skipped).toEqual([missed]);
+      // About a second of the item has aired by the time it is appended; IndexedDB decides how much exactly
+      expect(video.buffered.end(0)).toBeCloseTo(3, 1);
+
+      await play(env, video, 4000);
+      // Without fillers, a soft start follows the item before it
+      const [joined, following] = roll.getScheduleReport();
+      expect(joined).toMatchObject({ itemId: late, scheduledStart: 4000, plannedEnd: 8000 });
+      expect(joined.plannedStart).toBeGreaterThanOrEqual(5000);
+      expect(joined.plannedStart).toBeLessThan(5050);
+      expect(following).toMatchObject({ itemId: soft, scheduledStart: 9000 });
+      expect(following.plannedStart).toBeLessThan(9000);
+    });
+
+    it('is not combined with dual-element playout or ordering strategies', async () => {
+      const context = await setup([2]);
+      const { env, buffer, video, roll } = context;
+      const standby = env.createVideoElement();
+      const alternate = { playoutBuffer: new PlayoutBuffer(standby, { environment: env }), videoElement: standby };
+
+      await expect(roll.attachBuffer(buffer, video, { schedule: {}, alternate })).rejects.toThrow(
+        'Schedule mode is not supported in dual-element playout'
+      );
+      await expect(roll.attachBuffer(buffer, video, { schedule: {}, ordering: new SequentialOrder() })).rejects.toThrow(
+        'Ordering strategies are not supported in schedule mode'
+      );
+    });
+  });
+
+  describe('checkpoints', () => {
+    /**
+     * Plays a roll with checkpoints until one inside its second item is saved, then detaches it
+     */
+    async function checkpointSecondItem(context: Awaited<ReturnType<typeof setup>>) {
+      const { env, video, roll, playlist, ids } = context;
+      await attach(context, { checkpoint: { clock: env.clock, intervalSeconds: 1 } });
+      await play(env, video, 4600);
+      roll.detachBuffer();
+
+      // Saves run in the background on IndexedDB's own timers
+      const store = new CheckpointStore(playlist.getDatabaseName(), playlist.getStoreName());
+      await vi.waitFor(async () => expect((await store.load())?.offset).toBe(1));
+      const checkpoint = await store.load();
+      expect(checkpoint).toMatchObject({ itemId: ids[1], queueIndex: 1, offset: 1, loopCount: 0 });
+      // Read from the fake clock, which attaching has moved a few steps past the playhead
+      expect(checkpoint!.savedAt).toBeGreaterThanOrEqual(4000);
+      expect(checkpoint!.savedAt).toBeLessThanOrEqual(env.clock.now());
+    }
+
+    /**
+     * Attaches a new roll over the same playlist with `resume`, as after a reload
+     */
+    async function resume({ env, playlist }: Awaited<ReturnType<typeof setup>>) {
+      const roll = new Roll(playlist, [], { environment: env });
+      rolls.push(roll);
+      await roll.init();
+      const video = env.createVideoElement();
+      const started: Array<[number, number]> = [];
+      roll.on('itemStart', ({ item, offset }) => started.push([item.id!, offset]));
+      await advanceUntil(env, roll.attachBuffer(new PlayoutBuffer(video, { environment: env }), video, { resume: true }));
+      await play(env, video, 3000);
+      return started;
+    }
+
+    it('resumes inside the checkpointed item', async () => {
+      const context = await setup([3, 3, 3]);
+      const { ids } = context;
+      await checkpointSecondItem(context);
+
+      expect(await resume(context)).toEqual([
+        [ids[1], 1],
+        [ids[2], 0],
+      ]);
+    });
+
+    it('resumes with the item that took the place of a removed one', async () => {
+      const context = await setup([3, 3, 3]);
+      const { playlist, ids } = context;
+      await checkpointSecondItem(context);
+      await playlist.remove(ids[1]);
+
+      // Started from its in point, seen at the first timeupdate
+      const [[itemId, offset]] = await resume(context);
+      expect(itemId).toBe(ids[2]);
+      expect(offset).toBeLessThan(0.5);
+    });
+
+    it('leaves the database alone unless asked to checkpoint', async () => {
+      const context = await setup([2, 2]);
+      const { env, video, playlist } = context;
+      await attach(context);
+      await play(env, video, 3000);
+
+      const db = await new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(playlist.getDatabaseName());
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      expect(Array.from(db.objectStoreNames)).not.toContain('roll-checkpoints');
+      db.close();
+    });
+  });
+});
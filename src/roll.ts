@@ -1,8 +1,72 @@
+import { browserEnvironment, Clock, PlayoutEnvironment, systemClock } from './environment';
+import { TypedEventEmitter } from './event-emitter';
+import { isMp4 } from './mp4/boxes';
+import { indexFragmentedMp4Blob, readFragmentStartTime } from './mp4/fragments';
+import { probeMp4Blob } from './mp4/probe';
+import { fragmentMp4Blob } from './mp4/remux';
+import { transmuxTsBlob } from './mpegts/transmux';
+import { OrderedItem, OrderingStrategy } from './ordering';
 import { Playlist } from './playlist';
 import { PlayoutBuffer } from './playout-buffer';
+import { StallWatchdog } from './stall-watchdog';
 import { QueueItem, QueueItemMetadata } from './types/database';
-import { Segment } from './types/segment';
+import { ByteRange, MediaChunkIndex, MediaInfo } from './types/media';
+import { Segment, TrackType } from './types/segment';
+import { RollMediaElement } from './types/media-element';
 import { RollEntry } from './types/roll';
+import { CheckpointStore, RollCheckpoint } from './roll-checkpoint';
+import { indexWebMBlob, probeWebMBlob, readClusterStartTime } from './webm/webm';
+
+/**
+ * Items larger than this are streamed fragment by fragment
+ */
+const DEFAULT_STREAMING_THRESHOLD_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Seconds of buffered content left before the next item is queued
+ */
+const DEFAULT_THRESHOLD_SECONDS = 4;
+
+/**
+ * Seconds between checkpoints of the playhead position while an item plays
+ */
+const DEFAULT_CHECKPOINT_INTERVAL_SECONDS = 5;
+
+/**
+ * Gaps before a scheduled item shorter than this are not filled; the item starts that much early
+ */
+const MIN_FILLER_SECONDS = 0.5;
+
+/**
+ * Content kept ahead of the playhead when a fixed start that is already due cuts the item playing
+ */
+const CUT_MARGIN_SECONDS = 0.5;
+
+/**
+ * Airings kept in the schedule report, oldest dropped first
+ */
+const MAX_SCHEDULE_REPORT_ENTRIES = 1000;
+
+/**
+ * Picks kept for ordering strategies beyond one pass through the playlist, oldest dropped first
+ */
+const MIN_ORDER_HISTORY_ENTRIES = 100;
+
+/**
+ * Playback stops a frame or so short of a fully buffered end; an item this close to its end has ended
+ */
+const END_TOLERANCE_SECONDS = 0.1;
+
+/**
+ * Options for creating a roll
+ */
+export interface RollOptions {
+  /**
+   * Platform services; upserted items are checked against its `isTypeSupported`
+   * Default: `browserEnvironment` where `MediaSource` exists, otherwise no check
+   */
+  environment?: PlayoutEnvironment;
+}
 
 /**
  * Options for upserting an item
@@ -48,6 +112,14 @@ export interface UpsertOptions {
    * Default: true (merge)
    */
   mergeMetadata?: boolean;
+
+  /**
+   * Whether progressive MP4 blobs are remuxed to fragmented MP4 before they are stored
+   * Blobs that are already fragmented, or are not MP4, are stored as they are
+   * MPEG-TS blobs are transmuxed to fragmented MP4 either way, since MSE cannot play them
+   * Default: true
+   */
+  fragmentMp4?: boolean;
 }
 
 /**
@@ -70,23 +142,365 @@ export interface UpsertResult {
   matchedId?: number;
 }
 
+/**
+ * Options for attaching a playout buffer to the roll
+ */
+export interface AttachBufferOptions {
+  /**
+   * Seconds of buffered content left before the next item is queued
+   * Shorthand for `lookahead.minBufferedSeconds`
+   * Default: 4
+   */
+  thresholdSeconds?: number;
+
+  /**
+   * How far ahead of the playhead items are queued, and how many upcoming items are read ahead
+   */
+  lookahead?: LookaheadPolicy;
+
+  /**
+   * Items whose blob is larger than this are streamed: their fragments (or WebM clusters) are read
+   * with `Blob.slice` and appended one by one as the playhead approaches, instead of in one piece
+   * Dual-element playout loads items whole
+   * Default: 32 MiB
+   */
+  streamingThresholdBytes?: number;
+
+  /**
+   * Seconds of played content kept behind the playhead while an item is streamed
+   * Default: 30
+   */
+  backBufferSeconds?: number;
+
+  /**
+   * Start over with the first item after the last one
+   * When false, the roll stops once every item has been queued; `rollEnd` fires either way
+   * Default: true
+   */
+  loop?: boolean;
+
+  /**
+   * Picks the items of the order instead of queueIndex order, e.g. a ShuffleOrder or a WeightedOrder
+   * `rollEnd` then fires after as many items as the playlist holds
+   * Not available in schedule mode
+   */
+  ordering?: OrderingStrategy;
+
+  /**
+   * Continue from the position the roll last checkpointed, e.g. after a page reload, instead of
+   * the first item. Playback resumes inside the item at the saved offset; dual-element playout and
+   * schedule mode restart the item from its in point
+   * Default: false
+   */
+  resume?: boolean;
+
+  /**
+   * Checkpoints the playhead position to IndexedDB while items play, for `resume`
+   * The first save adds a `roll-checkpoints` store to the Playlist's database
+   * Default: no checkpoints
+   */
+  checkpoint?: CheckpointOptions;
+
+  /**
+   * Optional stall watchdog; Roll points it at the element on air, also across the swaps of
+   * dual-element playout, starts it on attach and stops it on detach
+   * When it escalates, the item playing at the stall is skipped
+   */
+  watchdog?: StallWatchdog;
+
+  /**
+   * Second buffer and video element for dual-element playout
+   * Each item plays alone in one element while the next one is prepared in the other, hidden one;
+   * the elements swap visibility when the item ends, giving hard cuts between incompatible items
+   */
+  alternate?: {
+    playoutBuffer: PlayoutBuffer;
+    videoElement: RollMediaElement;
+  };
+
+  /**
+   * Plays items at the wall-clock times in their `startAt` metadata instead of back to back
+   * Not available in dual-element playout
+   */
+  schedule?: ScheduleOptions;
+}
+
+/**
+ * How far ahead of the playhead Roll queues items
+ * Items are queued while less than `minBufferedSeconds` is buffered ahead, and beyond that while less
+ * than `maxBufferedSeconds` is buffered and fewer than `maxItemsAhead` items wait to play
+ * The next `maxItemsAhead` items of the order are also read and converted ahead, concurrently,
+ * so they are ready to append when their turn comes
+ */
+export interface LookaheadPolicy {
+  /**
+   * Seconds buffered ahead below which the next item is always queued
+   * Default: `thresholdSeconds`, 4
+   */
+  minBufferedSeconds?: number;
+  /**
+   * Seconds buffered ahead up to which more items are queued, within `maxItemsAhead`
+   * Default: minBufferedSeconds
+   */
+  maxBufferedSeconds?: number;
+  /**
+   * Items queued after the one playing, outside what `minBufferedSeconds` requires, and items read ahead
+   * Default: 1
+   */
+  maxItemsAhead?: number;
+}
+
+/**
+ * Options for wall-clock scheduled playout
+ */
+export interface ScheduleOptions {
+  /**
+   * Clock the `startAt` times are read against, in milliseconds since the epoch
+   * Default: systemClock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Options for checkpointing the playhead position
+ */
+export interface CheckpointOptions {
+  /**
+   * Seconds between checkpoints while an item plays; one is also saved whenever an item starts
+   * Default: 5
+   */
+  intervalSeconds?: number;
+  /**
+   * Clock the interval and the checkpoints' `savedAt` are read from
+   * Default: systemClock
+   */
+  clock?: Clock;
+}
+
+/**
+ * One airing in schedule mode: when the item was scheduled, planned and seen to air
+ * Times are milliseconds on the schedule clock
+ */
+export interface ScheduleReportEntry {
+  itemId: number;
+  /** The item filled a gap before a scheduled item */
+  filler: boolean;
+  /** The item's `startAt`, or null for items that follow the one before them */
+  scheduledStart: number | null;
+  /** Planned when the item was queued, after cuts, late joins and trimming fillers to their gap */
+  plannedStart: number;
+  /** null when the item's duration is unknown */
+  plannedEnd: number | null;
+  /** Measured from playback; null until the item starts airing */
+  actualStart: number | null;
+  /** null until the next item starts airing or the stream ends */
+  actualEnd: number | null;
+}
+
+/**
+ * Item and playhead position carried by item events
+ */
+export interface RollItemEvent {
+  item: QueueItem;
+  /** Seconds from the item's in point, as in seek() */
+  offset: number;
+}
+
+/**
+ * Payload of itemEnd
+ */
+export interface RollItemEndEvent extends RollItemEvent {
+  /** Why the item stopped before its end, e.g. `seek` or `skipped: <reason>`; null when it played out */
+  interruption: string | null;
+}
+
+/**
+ * Events emitted by Roll
+ * Item events follow the playhead, not the queueing: they fire when an item is seen to play
+ */
+export interface RollEvents {
+  /** The playhead entered an item */
+  itemStart: RollItemEvent;
+  /** The playhead moved within an item, on each `timeupdate` */
+  itemProgress: RollItemEvent;
+  /** The playhead left an item: it played out, or was cut, skipped or sought away from */
+  itemEnd: RollItemEndEvent;
+  /** The last item of the order stopped playing; carries that item */
+  rollEnd: RollItemEndEvent;
+  /** Playback reached the end of what is queued and nothing more will be */
+  streamEnd: void;
+  /** An item was skipped: it could not be appended, kept stalling or missed its scheduled start */
+  itemSkipped: { itemId: number | undefined; reason: string };
+}
+
+/**
+ * Video element and buffer pair used in dual-element playout
+ */
+interface PlayoutDeck {
+  playoutBuffer: PlayoutBuffer;
+  videoElement: RollMediaElement;
+  /** An item is appended and ready to play */
+  loaded: boolean;
+  loading: boolean;
+  /** Item appended to the deck */
+  item: QueueItem | null;
+  /** The item is the last of the order */
+  endsRoll: boolean;
+  onEnded: () => void;
+  onTimeUpdate: () => void;
+}
+
+/**
+ * Item whose fragments are appended one by one, just ahead of the playhead
+ */
+interface ItemStream {
+  item: QueueItem;
+  /** Segment of the first fragment, the template for the rest */
+  segment: Segment;
+  chunks: ByteRange[];
+  /** Index of the next chunk to append */
+  next: number;
+  entry: TimelineEntry;
+  /** The entry's end is only known from what has been buffered so far */
+  growing: boolean;
+}
+
+/**
+ * Span of the buffered timeline occupied by a queued item
+ */
+interface TimelineEntry {
+  item: QueueItem;
+  start: number;
+  end: number;
+  /** Media time the item starts at */
+  inPoint: number;
+  /** The item is the last of the order */
+  endsRoll?: boolean;
+  /** Why the entry was cut short, reported with itemEnd */
+  interruption?: string;
+  /** Schedule mode: the item's airing */
+  report?: ScheduleReportEntry;
+}
+
+/**
+ * Item at the playhead, as last reported by item events
+ */
+interface PlayingItem {
+  /** Timeline entry, or deck in dual-element playout, the item plays from */
+  source: TimelineEntry | PlayoutDeck;
+  item: QueueItem;
+  offset: number;
+}
+
+/**
+ * Item picked to be queued next
+ */
+interface NextItem {
+  item: QueueItem;
+  itemCount: number;
+  /** Schedule mode: where and how the item airs */
+  airing?: PlannedAiring;
+  /** The item was put ahead of the order rather than picked from it */
+  inserted?: InsertedItem;
+}
+
+/**
+ * Item put ahead of the order by playNow() or playNext(), or requeued after such an insert
+ */
+interface InsertedItem {
+  itemId: number;
+  /** Media time to start at, instead of the item's in point */
+  inPoint?: number;
+  /** Buffer position the item starts at, for the first item after a cut */
+  position?: number;
+}
+
+/**
+ * Options for playNow()
+ */
+export interface PlayNowOptions {
+  /**
+   * Resume the interrupted item after the insert, from the last keyframe before the cut,
+   * instead of moving on to the item after it
+   * Default: false
+   */
+  resume?: boolean;
+}
+
+/**
+ * Placement of an item in schedule mode
+ */
+interface PlannedAiring {
+  /** Buffer position the item starts at; before the buffered end when it cuts the item playing */
+  position: number;
+  /** Seconds skipped past the in point when the item joins its fixed start late */
+  joinOffset: number;
+  /** Seconds the item may play, for fillers trimmed to the gap before a scheduled item */
+  maxDuration?: number;
+  report: ScheduleReportEntry;
+}
+
 /**
  * Roll class that manages playlist ordering based on external data source
  * This is the ONLY interface to the Playlist database - all operations go through Roll
  * Updates the queueIndex of items in the playlist based on matching by id
  */
-export class Roll {
+export class Roll extends TypedEventEmitter<RollEvents> {
   private playlist: Playlist;
   private entries: RollEntry[];
+  private environment: PlayoutEnvironment | null;
   private playoutBuffer: PlayoutBuffer | null = null;
-  private videoElement: HTMLVideoElement | null = null;
-  private bufferThresholdSeconds = 4;
+  private videoElement: RollMediaElement | null = null;
+  private lookahead: Required<LookaheadPolicy> = {
+    minBufferedSeconds: DEFAULT_THRESHOLD_SECONDS,
+    maxBufferedSeconds: DEFAULT_THRESHOLD_SECONDS,
+    maxItemsAhead: 1,
+  };
+  /** Upcoming items read and converted ahead of their append, by item id */
+  private prefetched = new Map<number, { revision: number; prepared: Promise<Segment[] | null> }>();
+  /** Incremented when Roll changes a stored item, so read-ahead begun before the change is dropped */
+  private itemsRevision = 0;
+  private streamingThresholdBytes = DEFAULT_STREAMING_THRESHOLD_BYTES;
+  private backBufferSeconds = 30;
+  private loop = true;
+  private ordering: OrderingStrategy | null = null;
+  /** Ids of the items the ordering strategy picked ahead, for the next slots */
+  private plannedOrder: number[] = [];
+  /** Items the ordering strategy picked that were queued, most recent last */
+  private orderHistory: OrderedItem[] = [];
+  private stream: ItemStream | null = null;
   private bufferedQueueIndex = 0;
   private totalItems = 0;
-  private pendingTrimBoundary: number | null = null;
   private nextSegmentScheduled = false;
-  private onRollEndCallback: (() => void) | null = null;
-  private onStreamEndCallback: (() => void) | null = null;
+  private timeline: TimelineEntry[] = [];
+  /** Incremented when seek(), playNow() or playNext() rework the timeline, so queueing that started before leaves it alone */
+  private timelineRevision = 0;
+  /** Append of the queueing in progress */
+  private pendingAppend: Promise<void> | null = null;
+  /** Items put ahead of the order by playNow() and playNext() */
+  private insertQueue: InsertedItem[] = [];
+  private scheduleClock: Clock | null = null;
+  /** Airing span of the next program item when its start is fixed, so it can cut in on time */
+  private upcomingFixedSpan: { start: number; end: number } | null = null;
+  private fillerIndex = 0;
+  private scheduleReport: ScheduleReportEntry[] = [];
+  /** Report entry of the item on air */
+  private airing: ScheduleReportEntry | null = null;
+  private decks: [PlayoutDeck, PlayoutDeck] | null = null;
+  private activeDeck = 0;
+  private swapPending = false;
+  private playing: PlayingItem | null = null;
+  /** streamEnd was emitted; cleared when more content is queued */
+  private streamEnded = false;
+  /** Passes through the order completed, counted when rollEnd fires */
+  private loopCount = 0;
+  private checkpoints: CheckpointStore | null = null;
+  /** Set while checkpointing is on */
+  private checkpointClock: Clock | null = null;
+  private checkpointIntervalMs = DEFAULT_CHECKPOINT_INTERVAL_SECONDS * 1000;
+  private lastCheckpointAt = -Infinity;
+  private watchdog: StallWatchdog | null = null;
+  private removeWatchdogListener: (() => void) | null = null;
   private readonly boundTimeUpdate = this.handleTimeUpdate.bind(this);
   private readonly boundEnded = this.handleEnded.bind(this);
 
@@ -94,10 +508,13 @@ export class Roll {
    * Creates a new Roll instance
    * @param playlist - The Playlist instance to manage (will be initialized internally)
    * @param entries - Unified array of file paths with ordering information
+   * @param options - Platform services
    */
-  constructor(playlist: Playlist, entries: RollEntry[]) {
+  constructor(playlist: Playlist, entries: RollEntry[], options: RollOptions = {}) {
+    super();
     this.playlist = playlist;
     this.entries = entries;
+    this.environment = options.environment ?? (typeof MediaSource !== 'undefined' ? browserEnvironment : null);
   }
 
   /**
@@ -118,6 +535,14 @@ export class Roll {
     return await this.playlist.add(blob, metadata);
   }
 
+  /**
+   * Removes an item from the playlist, along with anything read ahead for it
+   */
+  async removeItem(id: number): Promise<void> {
+    await this.playlist.remove(id);
+    this.forgetPrefetched(id);
+  }
+
   /**
    * Upserts (insert or update) a media file in the playlist
    * Matches existing items by ID or metadata fields, then updates or inserts accordingly
@@ -174,15 +599,20 @@ export class Roll {
       const updateBlob = options.updateBlob !== false; // default true
       const mergeMetadata = options.mergeMetadata !== false; // default true
 
+      const stored = updateBlob ? await this.prepareItemForStorage(blob, metadata, options) : { blob, metadata };
+      // What was probed from the replaced blob is cleared, unless probing the new one or the caller fills it in
+      const probed = updateBlob ? { media: undefined, mimeType: undefined } : {};
+
       const updateData: Partial<QueueItem> = {
-        ...(updateBlob && { blob }),
+        ...(updateBlob && { blob: stored.blob }),
         ...(options.queueIndex !== undefined && { queueIndex: options.queueIndex }),
         metadata: mergeMetadata
-          ? { ...existingItem.metadata, ...metadata }
-          : metadata,
+          ? { ...existingItem.metadata, ...probed, ...stored.metadata }
+          : { ...probed, ...stored.metadata },
       };
 
       await this.playlist.updateItem(matchedId, updateData);
+      this.forgetPrefetched(matchedId);
 
       return {
         id: matchedId,
@@ -191,7 +621,8 @@ export class Roll {
       };
     } else {
       // Insert new item
-      const id = await this.playlist.add(blob, metadata, options.queueIndex);
+      const stored = await this.prepareItemForStorage(blob, metadata, options);
+      const id = await this.playlist.add(stored.blob, stored.metadata, options.queueIndex);
       return {
         id,
         inserted: true,
@@ -199,6 +630,38 @@ export class Roll {
     }
   }
 
+  /**
+   * Converts a blob into the form it is stored in: MPEG-TS is transmuxed to fragmented MP4,
+   * and progressive MP4 is remuxed unless disabled
+   * MP4 and WebM blobs are probed: the results go to `metadata.media` and the MIME type to `metadata.mimeType`,
+   * unless the caller set those fields
+   */
+  private async prepareItemForStorage(
+    blob: Blob,
+    metadata: QueueItemMetadata,
+    options: UpsertOptions
+  ): Promise<{ blob: Blob; metadata: QueueItemMetadata }> {
+    const transmuxed = await transmuxTsBlob(blob);
+    const stored = options.fragmentMp4 === false ? transmuxed : await fragmentMp4Blob(transmuxed);
+
+    const name = String(metadata.filename ?? 'without filename');
+    let media: MediaInfo | null = null;
+    try {
+      media = (await probeMp4Blob(stored)) ?? (await probeWebMBlob(stored));
+    } catch (error) {
+      console.warn(`Roll: could not probe item ${name}`, error);
+    }
+    if (!media) {
+      return { blob: stored, metadata };
+    }
+
+    const mimeType = media.mimeType;
+    if (mimeType && this.environment && !this.environment.isTypeSupported(mimeType)) {
+      console.warn(`Roll: item ${name} uses ${mimeType}, which this environment cannot play`);
+    }
+    return { blob: stored, metadata: { ...(mimeType && { mimeType }), media, ...metadata } };
+  }
+
   /**
    * Batch upserts multiple items
    * More efficient than calling upsertItem multiple times
@@ -339,7 +802,8 @@ export class Roll {
    * Clears all items from the playlist
    */
   async clear(): Promise<void> {
-    return await this.playlist.clear();
+    await this.playlist.clear();
+    this.forgetPrefetched();
   }
 
   /**
@@ -349,32 +813,24 @@ export class Roll {
     return this.entries;
   }
 
-  /**
-   * Sets a callback to be called when the roll completes (all items have been queued once)
-   * If no callback is set, the roll will loop indefinitely (default behavior)
-   * @param callback - Function to call when roll ends, or null to remove callback and enable looping
-   */
-  setOnRollEnd(callback: (() => void) | null): void {
-    this.onRollEndCallback = callback;
-  }
-
-  /**
-   * Sets a callback to be called when the stream ends (playback reaches the end)
-   * @param callback - Function to call when stream ends, or null to remove callback
-   */
-  setOnStreamEnd(callback: (() => void) | null): void {
-    this.onStreamEndCallback = callback;
-  }
-
   /**
    * Resets the queue index to allow the roll to start from the beginning
-   * This is useful when a roll end callback wants to restart the cycle
-   * without detaching and reattaching the buffer
+   * This is useful when a `rollEnd` listener wants to restart a roll attached with `loop: false`
+   * without detaching and reattaching the buffer; queueing resumes right away
    */
   resetQueueIndex(): void {
     this.bufferedQueueIndex = 0;
-    this.pendingTrimBoundary = null;
+    this.plannedOrder = [];
     this.nextSegmentScheduled = false;
+    this.stream = null;
+
+    if (this.decks) {
+      // Once the active element has played out, the first item goes on air as soon as it is loaded
+      this.swapPending = this.swapPending || this.playing === null;
+      void this.loadDeck(this.decks[1 - this.activeDeck]);
+    } else if (this.playoutBuffer) {
+      void this.queueNextSegment();
+    }
   }
 
   /**
@@ -382,20 +838,74 @@ export class Roll {
    */
   async attachBuffer(
     playoutBuffer: PlayoutBuffer,
-    videoElement: HTMLVideoElement,
-    options: { thresholdSeconds?: number } = {}
+    videoElement: RollMediaElement,
+    options: AttachBufferOptions = {}
   ): Promise<void> {
+    if (options.schedule && options.alternate) {
+      throw new Error('Schedule mode is not supported in dual-element playout');
+    }
+    if (options.schedule && options.ordering) {
+      throw new Error('Ordering strategies are not supported in schedule mode');
+    }
+
     this.detachBuffer();
     this.playoutBuffer = playoutBuffer;
     this.videoElement = videoElement;
-    if (options.thresholdSeconds !== undefined) {
-      this.bufferThresholdSeconds = options.thresholdSeconds;
+    const minBufferedSeconds =
+      options.lookahead?.minBufferedSeconds ?? options.thresholdSeconds ?? DEFAULT_THRESHOLD_SECONDS;
+    this.lookahead = {
+      minBufferedSeconds,
+      maxBufferedSeconds: Math.max(minBufferedSeconds, options.lookahead?.maxBufferedSeconds ?? minBufferedSeconds),
+      maxItemsAhead: Math.max(1, options.lookahead?.maxItemsAhead ?? 1),
+    };
+    if (options.streamingThresholdBytes !== undefined) {
+      this.streamingThresholdBytes = options.streamingThresholdBytes;
+    }
+    if (options.backBufferSeconds !== undefined) {
+      this.backBufferSeconds = options.backBufferSeconds;
+    }
+    this.loop = options.loop ?? true;
+    this.ordering = options.ordering ?? null;
+    this.ordering?.reset?.();
+    this.checkpointClock = options.checkpoint ? options.checkpoint.clock ?? systemClock : null;
+    this.checkpointIntervalMs = (options.checkpoint?.intervalSeconds ?? DEFAULT_CHECKPOINT_INTERVAL_SECONDS) * 1000;
+    if (options.watchdog) {
+      const watchdog = options.watchdog;
+      this.watchdog = watchdog;
+      this.removeWatchdogListener = watchdog.on('escalate', ({ stallCount }) => {
+        void this.skipCurrentItem(`playback stalled ${stallCount} times`);
+      });
+      watchdog.setVideoElement(videoElement);
+      watchdog.start();
     }
 
     this.totalItems = await this.playlist.length();
     this.bufferedQueueIndex = 0;
-    this.pendingTrimBoundary = null;
     this.nextSegmentScheduled = false;
+    this.stream = null;
+    this.timeline = [];
+    this.insertQueue = [];
+    this.prefetched.clear();
+    this.plannedOrder = [];
+    this.orderHistory = [];
+    this.scheduleClock = options.schedule ? options.schedule.clock ?? systemClock : null;
+    this.upcomingFixedSpan = null;
+    this.fillerIndex = 0;
+    this.scheduleReport = [];
+    this.airing = null;
+    this.playing = null;
+    this.streamEnded = false;
+    this.loopCount = 0;
+    this.lastCheckpointAt = -Infinity;
+
+    if (options.alternate) {
+      if (options.resume) {
+        await this.resumeFromCheckpoint(false);
+      }
+      await this.attachDecks(playoutBuffer, videoElement, options.alternate);
+      return;
+    }
+
     this.videoElement.addEventListener('timeupdate', this.boundTimeUpdate);
     this.videoElement.addEventListener('ended', this.boundEnded);
 
@@ -404,85 +914,452 @@ export class Roll {
       return;
     }
 
+    if (options.resume && (await this.resumeFromCheckpoint(!this.scheduleClock))) {
+      return;
+    }
     await this.queueNextSegment();
   }
 
+  /**
+   * Sets up dual-element playout: the first item goes into the visible element,
+   * the second one into the hidden alternate element
+   */
+  private async attachDecks(
+    playoutBuffer: PlayoutBuffer,
+    videoElement: RollMediaElement,
+    alternate: { playoutBuffer: PlayoutBuffer; videoElement: RollMediaElement }
+  ): Promise<void> {
+    const createDeck = (deckBuffer: PlayoutBuffer, deckElement: RollMediaElement): PlayoutDeck => {
+      const deck: PlayoutDeck = {
+        playoutBuffer: deckBuffer,
+        videoElement: deckElement,
+        loaded: false,
+        loading: false,
+        item: null,
+        endsRoll: false,
+        onEnded: () => this.handleDeckEnded(deck),
+        onTimeUpdate: () => this.handleDeckTimeUpdate(deck),
+      };
+      deckElement.addEventListener('ended', deck.onEnded);
+      deckElement.addEventListener('timeupdate', deck.onTimeUpdate);
+      return deck;
+    };
+
+    this.decks = [createDeck(playoutBuffer, videoElement), createDeck(alternate.playoutBuffer, alternate.videoElement)];
+    this.activeDeck = 0;
+    this.swapPending = false;
+    this.setDeckVisible(this.decks[0], true);
+    this.setDeckVisible(this.decks[1], false);
+
+    if (this.totalItems === 0) {
+      console.warn('Roll: playlist is empty, nothing to buffer');
+      return;
+    }
+
+    await this.loadDeck(this.decks[0]);
+    void this.loadDeck(this.decks[1]);
+  }
+
   /**
    * Detaches buffer listeners and resets internal buffering state
    */
   detachBuffer(): void {
+    this.endPlayingItem(undefined, 'detached');
+    if (this.decks) {
+      for (const deck of this.decks) {
+        deck.videoElement.removeEventListener('ended', deck.onEnded);
+        deck.videoElement.removeEventListener('timeupdate', deck.onTimeUpdate);
+      }
+      this.decks = null;
+      this.swapPending = false;
+    }
     if (this.videoElement) {
       this.videoElement.removeEventListener('timeupdate', this.boundTimeUpdate);
       this.videoElement.removeEventListener('ended', this.boundEnded);
     }
+    if (this.removeWatchdogListener) {
+      this.removeWatchdogListener();
+      this.removeWatchdogListener = null;
+    }
 
+    this.watchdog?.stop();
+    this.watchdog = null;
     this.playoutBuffer = null;
     this.videoElement = null;
     this.bufferedQueueIndex = 0;
     this.totalItems = 0;
-    this.pendingTrimBoundary = null;
     this.nextSegmentScheduled = false;
+    this.stream = null;
+    this.timeline = [];
+    this.insertQueue = [];
+    this.prefetched.clear();
+    this.plannedOrder = [];
+    this.scheduleClock = null;
+    this.upcomingFixedSpan = null;
+    this.airing = null;
+    this.playing = null;
+    this.checkpointClock = null;
   }
 
-  private handleTimeUpdate(): void {
-    void this.onTimeUpdate();
+  /**
+   * Returns the airings of schedule mode so far: scheduled, planned and actual start and end times
+   * The report is kept across detachBuffer() and cleared when a buffer is attached
+   */
+  getScheduleReport(): ScheduleReportEntry[] {
+    return this.scheduleReport.map((entry) => ({ ...entry }));
   }
 
-  private handleEnded(): void {
-    if (this.onStreamEndCallback) {
-      this.onStreamEndCallback();
+  /**
+   * Seeks to a position within an item and continues the roll from there
+   * The buffer is flushed, the item is appended again from the keyframe (or, for streamed items,
+   * the fragment) at or before the position, and the items after it follow as usual
+   * @param offsetSeconds - Position from the item's in point
+   * @throws Error when no buffer is attached, the item does not exist or the offset is past its end
+   */
+  async seek(itemId: number, offsetSeconds: number): Promise<void> {
+    if (!this.playoutBuffer || !this.videoElement) {
+      throw new Error('Roll.seek needs an attached buffer');
     }
-  }
-
-  private async onTimeUpdate(): Promise<void> {
-    if (!this.videoElement || !this.playoutBuffer) {
-      return;
+    if (this.decks) {
+      throw new Error('Roll.seek is not supported in dual-element playout');
+    }
+    if (!Number.isFinite(offsetSeconds) || offsetSeconds < 0) {
+      throw new Error(`Invalid seek offset: ${offsetSeconds}`);
     }
 
-    const currentTime = this.videoElement.currentTime;
-
-    if (this.pendingTrimBoundary !== null && currentTime >= this.pendingTrimBoundary) {
-      this.playoutBuffer.trim(0, this.pendingTrimBoundary);
-      this.pendingTrimBoundary = null;
-      this.nextSegmentScheduled = false;
+    const items = this.getProgramItems(await this.playlist.getAll());
+    const index = items.findIndex((item) => item.id === itemId);
+    const item = items[index];
+    if (!item?.blob) {
+      throw new Error(`Roll.seek: item ${itemId} not found`);
     }
 
-    const hasMore = await this.hasMoreSegments();
-    
-    // Check for stream end when no more segments and playback is at end
-    if (this.onStreamEndCallback && !hasMore) {
-      const bufferedEnd = this.getBufferedEnd();
-      if (bufferedEnd > 0 && currentTime >= Math.max(0, bufferedEnd - 0.1)) {
-        this.onStreamEndCallback();
-      }
+    const { inPoint = 0, outPoint } = this.getClipWindow(item);
+    const media = this.getMediaInfo(item);
+    const mediaTime = inPoint + offsetSeconds;
+    const end = outPoint ?? media?.duration;
+    if (end !== undefined && mediaTime >= end) {
+      throw new Error(`Roll.seek: offset ${offsetSeconds}s is past the end of item ${itemId}`);
     }
 
-    if (!hasMore) {
+    // Without probed keyframes the whole clip is appended
+    const clipStart = Math.max(inPoint, this.getDecodableStart(item, mediaTime) ?? inPoint);
+
+    this.timelineRevision += 1;
+    const timelineRevision = this.timelineRevision;
+    const playoutBuffer = this.playoutBuffer;
+    const videoElement = this.videoElement;
+    const wasPlaying = !videoElement.paused;
+
+    this.endPlayingItem(undefined, 'seek');
+    // Queueing stays blocked until the sought item is appended
+    this.nextSegmentScheduled = true;
+    this.stream = null;
+    this.timeline = [];
+    this.bufferedQueueIndex = index;
+    playoutBuffer.reset();
+    this.watchdog?.reset();
+
+    const segment = { ...(await this.createSegmentFromItem(item)), inPoint: clipStart };
+    const chunks = await this.indexLargeItem(item);
+    const first = chunks ? await this.findChunkAt(item.blob, chunks, clipStart) : 0;
+    if (timelineRevision !== this.timelineRevision) {
       return;
     }
 
-    if (!this.nextSegmentScheduled && this.shouldQueueNextVideo(currentTime)) {
-      void this.queueNextSegment();
+    try {
+      await playoutBuffer.append(chunks ? this.createChunkSegment(segment, chunks.chunks[first], chunks.init) : segment);
+    } catch (error) {
+      if (timelineRevision === this.timelineRevision) {
+        this.nextSegmentScheduled = false;
+      }
+      throw error;
+    }
+    if (timelineRevision !== this.timelineRevision) {
+      return;
     }
-  }
 
-  private shouldQueueNextVideo(currentTime: number): boolean {
-    if (!this.videoElement) {
-      return false;
+    // After the reset the item starts the timeline at zero
+    const playedDuration = this.getPlayedDuration(item, segment);
+    const entry: TimelineEntry = {
+      item,
+      start: 0,
+      end: playedDuration !== null ? playedDuration : this.getBufferedEnd(),
+      inPoint: clipStart,
+    };
+    this.timeline.push(entry);
+    if (chunks && first + 1 < chunks.chunks.length) {
+      this.stream = { item, segment, chunks: chunks.chunks, next: first + 1, entry, growing: playedDuration === null };
     }
+    this.advanceQueueIndex(items.length, entry);
+    this.recordOrderedPick(item);
+    this.nextSegmentScheduled = false;
+    this.streamEnded = false;
 
-    // For source buffers, videoElement.duration can be Infinity
-    // Use the buffered end time instead, which represents the actual duration of buffered content
-    const bufferedEnd = this.getBufferedEnd();
-    if (bufferedEnd === 0) {
-      return false;
+    videoElement.currentTime = mediaTime - clipStart;
+    if (wasPlaying) {
+      videoElement.play().catch((error) => {
+        console.error('Roll: Failed to resume playback after seek', error);
+      });
     }
+  }
 
-    return bufferedEnd - currentTime <= this.bufferThresholdSeconds;
+  /**
+   * Interrupts what is playing with an item, e.g. for breaking news
+   * Buffered content past a short margin ahead of the playhead is flushed and the item is appended
+   * in its place. Items that were queued after the cut play again after the insert, and the order
+   * continues from there
+   * @throws Error when no buffer is attached or the item does not exist
+   */
+  async playNow(itemId: number, options: PlayNowOptions = {}): Promise<void> {
+    const videoElement = this.requireInsertTarget('playNow');
+    const items = await this.requireInsertItem('playNow', itemId);
+
+    await this.settleQueueing();
+    const position = Math.min(videoElement.currentTime + CUT_MARGIN_SECONDS, this.getBufferedEnd());
+    const requeued = this.cutForInsert(position, items, options.resume ?? false, 'playNow');
+    this.insertQueue = [{ itemId, position }, ...requeued, ...this.insertQueue];
+    await this.queueNextSegment();
   }
 
-  private async queueNextSegment(): Promise<void> {
-    if (!this.playoutBuffer || !this.videoElement) {
+  /**
+   * Plays an item right after the current one, leaving the rest of the order as it is
+   * Content already queued after the current item is flushed and plays again after the insert
+   * @throws Error when no buffer is attached or the item does not exist
+   */
+  async playNext(itemId: number): Promise<void> {
+    const videoElement = this.requireInsertTarget('playNext');
+    await this.requireInsertItem('playNext', itemId);
+
+    await this.settleQueueing();
+    const currentTime = videoElement.currentTime;
+    const current = this.timeline.find((entry) => currentTime >= entry.start && currentTime < entry.end);
+    const position = current?.end ?? this.getBufferedEnd();
+    if (position >= this.getBufferedEnd()) {
+      this.insertQueue.unshift({ itemId });
+      return;
+    }
+
+    const requeued = this.cutForInsert(position, await this.playlist.getAll(), false, 'playNext');
+    this.insertQueue = [{ itemId, position }, ...requeued, ...this.insertQueue];
+  }
+
+  private requireInsertTarget(method: string): RollMediaElement {
+    if (!this.playoutBuffer || !this.videoElement) {
+      throw new Error(`Roll.${method} needs an attached buffer`);
+    }
+    if (this.decks) {
+      throw new Error(`Roll.${method} is not supported in dual-element playout`);
+    }
+    return this.videoElement;
+  }
+
+  private async requireInsertItem(method: string, itemId: number): Promise<QueueItem[]> {
+    const items = await this.playlist.getAll();
+    if (!items.some((item) => item.id === itemId && item.blob)) {
+      throw new Error(`Roll.${method}: item ${itemId} not found`);
+    }
+    return items;
+  }
+
+  /**
+   * Stops the queueing in progress from touching the timeline and waits for its append to land,
+   * so a cut that follows also removes what it appended
+   */
+  private async settleQueueing(): Promise<void> {
+    this.timelineRevision += 1;
+    await this.pendingAppend?.catch(() => undefined);
+    this.nextSegmentScheduled = false;
+    // Positions of earlier cuts no longer hold
+    for (const inserted of this.insertQueue) {
+      delete inserted.position;
+    }
+  }
+
+  /**
+   * Cuts the buffer at `position` for an insert
+   * @param resume - Whether the item playing at the cut continues after the insert
+   * @param interruption - Reported for the item cut
+   * @returns The items to requeue after the insert: the one cut (when resumed) and the ones queued
+   * after it, fillers excepted
+   */
+  private cutForInsert(position: number, items: QueueItem[], resume: boolean, interruption: string): InsertedItem[] {
+    const requeued: InsertedItem[] = [];
+    for (const entry of this.timeline) {
+      const itemId = entry.item.id;
+      if (entry.end <= position || itemId === undefined || entry.report?.filler) {
+        continue;
+      }
+      if (entry.start >= position) {
+        requeued.push({ itemId, inPoint: entry.inPoint });
+        continue;
+      }
+
+      const item = items.find((candidate) => candidate.id === itemId);
+      if (resume && item) {
+        const mediaTime = entry.inPoint + (position - entry.start);
+        const inPoint = Math.max(entry.inPoint, this.getDecodableStart(item, mediaTime) ?? mediaTime);
+        requeued.push({ itemId, inPoint });
+      }
+    }
+
+    if (this.stream) {
+      this.stream.growing = false;
+      this.stream = null;
+    }
+    const currentTime = this.videoElement?.currentTime ?? 0;
+    const wallTime = this.scheduleClock ? this.scheduleClock.now() + (position - currentTime) * 1000 : undefined;
+    this.cutAt(position, interruption, wallTime);
+    return requeued;
+  }
+
+  private handleTimeUpdate(): void {
+    void this.onTimeUpdate();
+  }
+
+  private handleEnded(): void {
+    if (this.airing && this.scheduleClock) {
+      this.airing.actualEnd = this.scheduleClock.now();
+    }
+    if (this.playing) {
+      const { source, offset } = this.playing;
+      this.endPlayingItem('end' in source ? this.getItemOffset(source, source.end) : offset);
+    }
+    this.emitStreamEnd();
+  }
+
+  private async onTimeUpdate(): Promise<void> {
+    if (!this.videoElement || !this.playoutBuffer) {
+      return;
+    }
+
+    const currentTime = this.videoElement.currentTime;
+
+    // A rebuilt MediaSource (codec switch without changeType) restarts the timeline at zero
+    if (this.timeline.length > 0 && this.getBufferedEnd() < this.timeline[0].start) {
+      this.nextSegmentScheduled = false;
+      this.timeline = [];
+    }
+
+    this.trackPlayback(currentTime);
+    this.trimPlayed(currentTime);
+
+    const hasMore = await this.hasMoreSegments();
+    
+    // Check for stream end when no more segments and playback is at end
+    if (!hasMore) {
+      const playableEnd = this.getPlayableEnd();
+      if (playableEnd > 0 && currentTime >= Math.max(0, playableEnd - END_TOLERANCE_SECONDS)) {
+        this.emitStreamEnd();
+      }
+    }
+
+    if (!hasMore) {
+      return;
+    }
+
+    if (!this.nextSegmentScheduled && this.shouldQueueNextVideo(currentTime)) {
+      void this.queueNextSegment();
+    }
+  }
+
+  /**
+   * Skips the item playing at currentTime by seeking to the end of its timeline entry
+   * The next item is queued first when nothing is buffered after the skipped one
+   */
+  private async skipCurrentItem(reason: string): Promise<void> {
+    if (!this.videoElement) {
+      return;
+    }
+
+    if (this.decks) {
+      const item = this.decks[this.activeDeck].item;
+      console.warn(`Roll: skipping item ${item?.id} in the active element: ${reason}`);
+      this.emit('itemSkipped', { itemId: item?.id, reason });
+      this.endPlayingItem(this.videoElement.currentTime, `skipped: ${reason}`);
+      this.swapDecks();
+      return;
+    }
+
+    const currentTime = this.videoElement.currentTime;
+    const entry = this.timeline.find((candidate) => currentTime >= candidate.start && currentTime < candidate.end);
+    if (!entry) {
+      return;
+    }
+
+    console.warn(`Roll: skipping item ${entry.item.id}: ${reason}`);
+    this.emit('itemSkipped', { itemId: entry.item.id, reason });
+    entry.interruption = `skipped: ${reason}`;
+
+    // The rest of a streamed item is dropped; the next item follows what was buffered of it
+    if (this.stream?.entry === entry) {
+      this.stream.growing = false;
+      this.stream = null;
+      this.endTimelineEntry(entry);
+    }
+
+    if (entry === this.timeline[this.timeline.length - 1] && (await this.hasMoreSegments())) {
+      await this.queueNextSegment();
+    }
+
+    if (this.videoElement && this.getBufferedEnd() > entry.end) {
+      this.videoElement.currentTime = entry.end;
+      this.watchdog?.reset();
+    }
+  }
+
+  private shouldQueueNextVideo(currentTime: number): boolean {
+    if (!this.videoElement) {
+      return false;
+    }
+    if (this.isFixedStartDue(currentTime)) {
+      return true;
+    }
+
+    // For source buffers, videoElement.duration can be Infinity
+    // Use the buffered end time instead, which represents the actual duration of buffered content
+    const playableEnd = this.getPlayableEnd();
+    if (playableEnd === 0) {
+      return false;
+    }
+
+    const { minBufferedSeconds, maxBufferedSeconds, maxItemsAhead } = this.lookahead;
+    const bufferedAhead = playableEnd - currentTime;
+    if (bufferedAhead <= minBufferedSeconds) {
+      return true;
+    }
+    const itemsAhead = this.timeline.filter((entry) => entry.start > currentTime).length;
+    return bufferedAhead < maxBufferedSeconds && itemsAhead < maxItemsAhead;
+  }
+
+  /**
+   * Queues more while the lookahead policy asks for it, without waiting for the next `timeupdate`
+   */
+  private async fillLookahead(): Promise<void> {
+    if (
+      this.videoElement &&
+      !this.nextSegmentScheduled &&
+      this.shouldQueueNextVideo(this.videoElement.currentTime) &&
+      (await this.hasMoreSegments())
+    ) {
+      await this.queueNextSegment();
+    }
+  }
+
+  /**
+   * Trims the items that have played out of the buffer: everything before the item at the playhead
+   * Runs on its own schedule, so queueing ahead never waits for it
+   */
+  private trimPlayed(currentTime: number): void {
+    const index = this.timeline.findIndex((entry) => currentTime >= entry.start && currentTime < entry.end);
+    if (index > 0) {
+      this.playoutBuffer?.trim(0, this.timeline[index].start);
+      this.timeline = this.timeline.slice(index);
+    }
+  }
+
+  private async queueNextSegment(): Promise<void> {
+    if (!this.playoutBuffer || !this.videoElement) {
       return;
     }
 
@@ -491,50 +1368,911 @@ export class Roll {
     }
 
     this.nextSegmentScheduled = true;
+    const timelineRevision = this.timelineRevision;
     try {
-      const items = await this.playlist.getAll();
-      this.totalItems = items.length;
-      if (items.length === 0) {
-        this.nextSegmentScheduled = false;
+      if (this.stream && !this.isFixedStartDue(this.videoElement.currentTime)) {
+        await this.queueNextChunk(this.stream);
+        void this.fillLookahead();
         return;
       }
+      if (this.stream) {
+        // Cut in by a fixed start; the rest of the item is not streamed
+        this.stream.growing = false;
+        this.endTimelineEntry(this.stream.entry);
+        this.stream = null;
+      }
 
-      // Loop back to the first item when we reach the end (if no callback is set)
-      const currentIndex = this.bufferedQueueIndex % items.length;
-      const item = items[currentIndex];
-      if (!item.blob) {
-        console.warn('Roll: queue item has no blob data', item.id);
+      const next = await this.pickNextItem();
+      if (!next) {
         this.nextSegmentScheduled = false;
         return;
       }
 
-      const previousBoundary = this.getBufferedEnd();
+      const { item, airing, inserted } = next;
+      const previousBoundary = airing?.position ?? inserted?.position ?? this.getBufferedEnd();
       const segment = await this.createSegmentFromItem(item);
-      this.playoutBuffer.enqueue(segment);
-      this.bufferedQueueIndex += 1;
-
-      // Check if we've just completed a full cycle after incrementing
-      // When bufferedQueueIndex becomes a multiple of items.length, we've queued all items once
-      if (this.onRollEndCallback && this.bufferedQueueIndex > 0 && this.bufferedQueueIndex % items.length === 0) {
-        // We've completed a full cycle, call the callback
-        this.onRollEndCallback();
+      if (airing) {
+        this.applyAiring(item, segment, airing);
       }
-
-      if (previousBoundary > 0 && this.pendingTrimBoundary === null) {
-        this.pendingTrimBoundary = previousBoundary;
-        // nextSegmentScheduled stays true until trim happens
-      } else {
-        // No trim boundary to wait for, clear the flag so next segment can be queued immediately
+      if (inserted) {
+        // An explicit in point places the item through the append window, also right after a cut
+        segment.inPoint = inserted.inPoint ?? segment.inPoint ?? 0;
+      }
+      const chunks = await this.indexLargeItem(item);
+      // Streaming starts at the fragment holding the in point
+      const first = chunks && segment.inPoint ? await this.findChunkAt(item.blob!, chunks, segment.inPoint) : 0;
+      const prefetched = chunks ? null : await this.takePrefetched(item);
+      if (timelineRevision !== this.timelineRevision || !this.playoutBuffer) {
+        return;
+      }
+      if (airing && airing.position < this.getBufferedEnd()) {
+        this.cutAt(airing.position, 'scheduled start', airing.report.plannedStart);
+      }
+      try {
+        // Waits for the append, so a throttled buffer also throttles the roll
+        if (prefetched) {
+          await this.appendPrefetched(segment, prefetched);
+        } else {
+          await this.appendSegment(chunks ? this.createChunkSegment(segment, chunks.chunks[first], chunks.init) : segment);
+        }
+      } catch (error) {
+        if (timelineRevision !== this.timelineRevision) {
+          return;
+        }
+        this.skipUnplayableItem(next, error);
         this.nextSegmentScheduled = false;
+        return;
+      }
+      if (timelineRevision !== this.timelineRevision) {
+        return;
       }
+
+      // Clipped items end at their out point, even if the last frames reach a little further;
+      // probed items end after their media duration
+      const playedDuration = this.getPlayedDuration(item, segment);
+      const entry: TimelineEntry = {
+        item,
+        start: previousBoundary,
+        end: playedDuration !== null ? previousBoundary + playedDuration : this.getBufferedEnd(),
+        inPoint: segment.inPoint ?? 0,
+      };
+      this.timeline.push(entry);
+      if (chunks && first + 1 < chunks.chunks.length) {
+        this.stream = { item, segment, chunks: chunks.chunks, next: first + 1, entry, growing: playedDuration === null };
+      }
+      if (airing) {
+        const { report } = airing;
+        report.plannedEnd = playedDuration !== null ? report.plannedStart + playedDuration * 1000 : null;
+        entry.report = report;
+        this.scheduleReport.push(report);
+        this.scheduleReport.splice(0, this.scheduleReport.length - MAX_SCHEDULE_REPORT_ENTRIES);
+      }
+
+      this.consumeNextItem(next, entry);
+      this.streamEnded = false;
+      this.nextSegmentScheduled = false;
+      void this.prefetchUpcoming();
+      void this.fillLookahead();
     } catch (error) {
       console.error('Roll: Failed to queue next segment', error);
       this.nextSegmentScheduled = false;
     }
   }
 
+  /**
+   * Appends the next fragment of a streamed item and trims played content behind the playhead
+   * The last fragment ends the stream; the next call starts the next item
+   */
+  private async queueNextChunk(stream: ItemStream): Promise<void> {
+    const index = stream.next++;
+    if (index >= stream.chunks.length) {
+      // A concurrent call is appending the last fragment
+      return;
+    }
+
+    const timelineRevision = this.timelineRevision;
+    try {
+      await this.appendSegment(this.createChunkSegment(stream.segment, stream.chunks[index]));
+      if (timelineRevision !== this.timelineRevision) {
+        return;
+      }
+      if (stream.next >= stream.chunks.length && this.stream === stream) {
+        this.stream = null;
+      }
+    } catch (error) {
+      if (timelineRevision !== this.timelineRevision) {
+        return;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`Roll: stopped streaming item ${stream.item.id}: ${reason}`);
+      if (this.stream === stream) {
+        this.stream = null;
+      }
+      this.endTimelineEntry(stream.entry);
+      stream.entry.interruption = `skipped: ${reason}`;
+      this.emit('itemSkipped', { itemId: stream.item.id, reason });
+    }
+
+    if (stream.growing) {
+      stream.entry.end = this.getBufferedEnd();
+    }
+
+    const backBufferEnd = (this.videoElement?.currentTime ?? 0) - this.backBufferSeconds;
+    if (this.playoutBuffer && backBufferEnd > 0) {
+      this.playoutBuffer.trim(0, backBufferEnd);
+    }
+
+    this.nextSegmentScheduled = false;
+  }
+
+  /**
+   * Returns the fragment layout of an item too large to be read in one piece
+   * @returns null for small items and items whose layout cannot be read without reading all of them
+   */
+  private async indexLargeItem(item: QueueItem): Promise<MediaChunkIndex | null> {
+    if (!item.blob || item.blob.size <= this.streamingThresholdBytes) {
+      return null;
+    }
+
+    try {
+      return (await indexFragmentedMp4Blob(item.blob)) ?? (await indexWebMBlob(item.blob));
+    } catch (error) {
+      console.warn(`Roll: could not index item ${item.id}, reading it whole`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Appends a segment of the queueing in progress, which playNow() and playNext() wait for before they cut
+   */
+  private appendSegment(segment: Segment): Promise<void> {
+    const appended = this.playoutBuffer!.append(segment);
+    this.pendingAppend = appended;
+    return appended;
+  }
+
+  /**
+   * Appends an item read ahead by prefetchUpcoming(): its pieces carry the item's clip window,
+   * the first one cutting and the rest continuing it
+   */
+  private appendPrefetched(segment: Segment, prepared: Segment[]): Promise<void> {
+    const playoutBuffer = this.playoutBuffer!;
+    const appended = prepared.reduce<Promise<void>>(
+      (previous, piece, index) =>
+        previous.then(() =>
+          playoutBuffer.append({
+            ...piece,
+            inPoint: segment.inPoint,
+            outPoint: segment.outPoint,
+            continuation: index > 0,
+          })
+        ),
+      Promise.resolve()
+    );
+    this.pendingAppend = appended;
+    return appended;
+  }
+
+  /**
+   * Reads and converts the next items of the order, and the queued inserts, ahead of their append
+   * Several items are prepared at once; reads of items that are no longer upcoming are dropped
+   * Streamed items, and buffers whose MediaSource lives in a worker, read at append time instead
+   */
+  private async prefetchUpcoming(): Promise<void> {
+    if (!this.playoutBuffer || this.playoutBuffer.isWorkerMode || this.decks) {
+      return;
+    }
+
+    const itemsRevision = this.itemsRevision;
+    let items: QueueItem[];
+    try {
+      items = await this.playlist.getAll();
+    } catch (error) {
+      console.warn('Roll: could not read ahead', error);
+      return;
+    }
+    const playoutBuffer = this.playoutBuffer;
+    if (!playoutBuffer || itemsRevision !== this.itemsRevision) {
+      return;
+    }
+
+    const program = this.getProgramItems(items);
+    const window = this.lookahead.maxItemsAhead;
+    const inserted = this.insertQueue.map(({ itemId }) => items.find((item) => item.id === itemId));
+    const remaining = this.loop ? window : Math.max(0, program.length - this.bufferedQueueIndex);
+    const ordered = this.ordering
+      ? this.planOrder(program, Math.min(window, remaining))
+      : Array.from({ length: Math.min(window, program.length) }, (_, offset) => {
+          const index = this.bufferedQueueIndex + offset;
+          return this.loop || index < program.length ? program[index % program.length] : undefined;
+        });
+    const upcoming = [...inserted, ...ordered]
+      .filter((item): item is QueueItem => !!item?.blob && item.id !== undefined)
+      .filter((item) => item.blob.size <= this.streamingThresholdBytes)
+      .slice(0, window);
+
+    const ids = new Set(upcoming.map((item) => item.id!));
+    for (const id of this.prefetched.keys()) {
+      if (!ids.has(id)) {
+        this.prefetched.delete(id);
+      }
+    }
+    for (const item of upcoming) {
+      const revision = item.revision ?? 0;
+      if (this.prefetched.get(item.id!)?.revision !== revision) {
+        this.prefetched.set(item.id!, { revision, prepared: this.prepareItem(playoutBuffer, item) });
+      }
+    }
+  }
+
+  /**
+   * Drops what was read ahead for an item that changed, or for every item
+   */
+  private forgetPrefetched(id?: number): void {
+    this.itemsRevision += 1;
+    if (id === undefined) {
+      this.prefetched.clear();
+    } else {
+      this.prefetched.delete(id);
+    }
+  }
+
+  /**
+   * Reads and splits an item's blob into the segments PlayoutBuffer appends
+   * @returns null when it cannot be prepared; the regular append then reads it again and reports why
+   */
+  private async prepareItem(playoutBuffer: PlayoutBuffer, item: QueueItem): Promise<Segment[] | null> {
+    try {
+      return await playoutBuffer.prepare(await this.createSegmentFromItem(item));
+    } catch (error) {
+      console.warn(`Roll: could not read ahead item ${item.id}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Returns the prepared segments of an item read ahead, or null when it was not
+   * Read-ahead of an older revision of the item, whose blob was replaced outside Roll, is dropped
+   */
+  private async takePrefetched(item: QueueItem): Promise<Segment[] | null> {
+    const prefetched = item.id === undefined ? undefined : this.prefetched.get(item.id);
+    if (!prefetched) {
+      return null;
+    }
+
+    this.prefetched.delete(item.id!);
+    return prefetched.revision === (item.revision ?? 0) ? await prefetched.prepared : null;
+  }
+
+  /**
+   * Returns the index of the last fragment of a streamed item that starts at or before `time`
+   * Fragments whose start cannot be read count as starting after it
+   */
+  private async findChunkAt(blob: Blob, index: MediaChunkIndex, time: number): Promise<number> {
+    const readStartTime = isMp4(new Uint8Array(index.init)) ? readFragmentStartTime : readClusterStartTime;
+    let low = 0;
+    let high = index.chunks.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const start = await readStartTime(blob, index.chunks[middle], index.init);
+      if (start !== null && start <= time + 0.001) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Builds the segment for one fragment of a streamed item
+   * The first fragment carries the init segment; the others continue its clip window
+   */
+  private createChunkSegment(segment: Segment, range: ByteRange, init?: ArrayBuffer): Segment {
+    return {
+      ...segment,
+      blob: segment.blob!.slice(range.start, range.end),
+      continuation: init === undefined,
+      variant: { ...segment.variant!, init },
+    };
+  }
+
+  /**
+   * Ends a timeline entry at what has been buffered of it, e.g. when its stream stops early
+   */
+  private endTimelineEntry(entry: TimelineEntry): void {
+    entry.end = Math.max(entry.start, Math.min(entry.end, this.getBufferedEnd()));
+  }
+
+  /**
+   * Returns the item at the current queue position
+   * Loops back to the first item when the end is reached, unless the roll was attached with `loop: false`
+   */
+  private async pickNextItem(): Promise<NextItem | null> {
+    const items = await this.playlist.getAll();
+    this.totalItems = items.length;
+    if (items.length === 0) {
+      return null;
+    }
+    const inserted = this.pickInsertedItem(items);
+    if (inserted) {
+      return inserted;
+    }
+    if (this.scheduleClock) {
+      return this.pickScheduledItem(items, this.scheduleClock);
+    }
+
+    const item = this.ordering ? this.planOrder(items, 1)[0] : items[this.bufferedQueueIndex % items.length];
+    if (!item) {
+      return null;
+    }
+    if (!item.blob) {
+      console.warn('Roll: queue item has no blob data', item.id);
+      return null;
+    }
+
+    return { item, itemCount: items.length };
+  }
+
+  /**
+   * Moves past an item whose data could not be appended, e.g. a file that is not fragmented MP4
+   */
+  private skipUnplayableItem(next: NextItem, error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`Roll: skipping item ${next.item.id}: ${reason}`);
+    this.consumeNextItem(next, this.getLastQueued());
+    this.emit('itemSkipped', { itemId: next.item.id, reason });
+  }
+
+  /**
+   * Returns the first item of the insert queue that is still in the playlist
+   * It stays in the queue until it is appended or skipped, see `consumeNextItem`
+   */
+  private pickInsertedItem(items: QueueItem[]): NextItem | null {
+    const itemCount = this.getProgramItems(items).length;
+    while (this.insertQueue.length > 0) {
+      const inserted = this.insertQueue[0];
+      const item = items.find((candidate) => candidate.id === inserted.itemId);
+      if (item?.blob) {
+        return { item, itemCount, inserted };
+      }
+      console.warn('Roll: inserted item is no longer in the playlist', inserted.itemId);
+      this.insertQueue.shift();
+    }
+    return null;
+  }
+
+  /**
+   * Moves past an item that was appended or skipped: the queue position for items from the order,
+   * the insert queue for inserted items; fillers rotate when they are picked
+   * @param holder - See advanceQueueIndex()
+   */
+  private consumeNextItem(next: NextItem, holder?: { endsRoll?: boolean }): void {
+    if (next.inserted) {
+      this.insertQueue = this.insertQueue.filter((inserted) => inserted !== next.inserted);
+    } else if (!next.airing?.report.filler) {
+      this.advanceQueueIndex(next.itemCount, holder);
+      this.recordOrderedPick(next.item);
+    }
+  }
+
+  /**
+   * Returns the items the ordering strategy picks for the next `count` slots, asking it only for
+   * slots it has not filled yet; picks of items removed since are dropped with the picks after them
+   */
+  private planOrder(items: QueueItem[], count: number): QueueItem[] {
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const removed = this.plannedOrder.findIndex((id) => !byId.get(id)?.blob);
+    if (removed >= 0) {
+      this.plannedOrder = this.plannedOrder.slice(0, removed);
+    }
+
+    const candidates = items.filter((item) => item.blob && item.id !== undefined);
+    while (this.ordering && this.plannedOrder.length < count && candidates.length > 0) {
+      const planned = this.plannedOrder.map((id) => toOrderedItem(byId.get(id)!));
+      const picked = this.ordering.next({
+        items: candidates,
+        candidates,
+        slot: this.bufferedQueueIndex + this.plannedOrder.length,
+        history: [...this.orderHistory, ...planned],
+      });
+      if (!picked || !candidates.includes(picked)) {
+        break;
+      }
+      this.plannedOrder.push(picked.id!);
+    }
+    return this.plannedOrder.slice(0, count).map((id) => byId.get(id)!);
+  }
+
+  /**
+   * Records an item of the order that was queued or skipped, for the ordering strategy's next picks
+   */
+  private recordOrderedPick(item: QueueItem): void {
+    if (!this.ordering) {
+      return;
+    }
+
+    if (this.plannedOrder[0] === item.id) {
+      this.plannedOrder.shift();
+    } else {
+      // Seeking replaces the planned order
+      this.plannedOrder = [];
+    }
+    this.orderHistory.push(toOrderedItem(item));
+    const limit = Math.max(MIN_ORDER_HISTORY_ENTRIES, this.totalItems);
+    this.orderHistory.splice(0, this.orderHistory.length - limit);
+  }
+
+  /**
+   * Picks what airs when the buffered content runs out in schedule mode: the next program item,
+   * cutting in at its fixed start or joining it late, or a filler for the gap before its start
+   * Program items that missed their fixed start by more than their duration are skipped
+   */
+  private pickScheduledItem(items: QueueItem[], clock: Clock): NextItem | null {
+    const program = this.getProgramItems(items).filter((item) => item.blob);
+    const fillers = items.filter((item) => item.metadata.filler === true && item.blob);
+    if (program.length === 0) {
+      console.warn('Roll: schedule has no program items');
+      return null;
+    }
+
+    const currentTime = this.videoElement?.currentTime ?? 0;
+    const now = clock.now();
+    const wallTimeAt = (position: number) => now + (position - currentTime) * 1000;
+    const bufferedEnd = this.getBufferedEnd();
+    const start = wallTimeAt(bufferedEnd);
+    const createReport = (item: QueueItem, scheduledStart: number | null, plannedStart: number) => ({
+      itemId: item.id!,
+      filler: false,
+      scheduledStart,
+      plannedStart,
+      plannedEnd: null,
+      actualStart: null,
+      actualEnd: null,
+    });
+
+    for (let missed = 0; missed < program.length; missed++) {
+      const index = this.bufferedQueueIndex % program.length;
+      const item = program[index];
+      const scheduledStart = this.getScheduledStart(item);
+      const fixedSpan = this.getFixedSpan(item);
+      this.upcomingFixedSpan = this.getFixedSpan(program[(index + 1) % program.length]);
+
+      if (scheduledStart !== null && scheduledStart - start > MIN_FILLER_SECONDS * 1000 && fillers.length > 0) {
+        const filler = fillers[this.fillerIndex++ % fillers.length];
+        this.upcomingFixedSpan = fixedSpan;
+        return {
+          item: filler,
+          itemCount: program.length,
+          airing: {
+            position: bufferedEnd,
+            joinOffset: 0,
+            maxDuration: (scheduledStart - start) / 1000,
+            report: { ...createReport(filler, null, start), filler: true },
+          },
+        };
+      }
+
+      // Soft starts wait for the item before them; without fillers, early items start early
+      if (!fixedSpan || fixedSpan.start >= start) {
+        return {
+          item,
+          itemCount: program.length,
+          airing: { position: bufferedEnd, joinOffset: 0, report: createReport(item, scheduledStart, start) },
+        };
+      }
+
+      // A fixed start that has passed cuts the item playing; the item joins late, or is skipped once over
+      const cutPosition = currentTime + Math.max(CUT_MARGIN_SECONDS, (fixedSpan.start - now) / 1000);
+      const position = Math.min(bufferedEnd, cutPosition);
+      const plannedStart = wallTimeAt(position);
+      const joinOffset = Math.max(0, (plannedStart - fixedSpan.start) / 1000);
+      if (plannedStart < fixedSpan.end) {
+        return {
+          item,
+          itemCount: program.length,
+          airing: { position, joinOffset, report: createReport(item, scheduledStart, plannedStart) },
+        };
+      }
+
+      console.warn(`Roll: skipping item ${item.id}: missed its scheduled start`);
+      this.advanceQueueIndex(program.length, this.getLastQueued());
+      this.emit('itemSkipped', { itemId: item.id, reason: 'missed its scheduled start' });
+    }
+
+    return null;
+  }
+
+  /**
+   * Applies a schedule placement to an item's segment
+   * The in point is always set, so the item is placed through the append window, also after a cut
+   */
+  private applyAiring(item: QueueItem, segment: Segment, airing: PlannedAiring): void {
+    segment.inPoint = (segment.inPoint ?? 0) + airing.joinOffset;
+    if (airing.maxDuration === undefined) {
+      return;
+    }
+
+    const end = segment.inPoint + airing.maxDuration;
+    const duration = this.getMediaInfo(item)?.duration;
+    if (end < (segment.outPoint ?? duration ?? Infinity)) {
+      segment.outPoint = end;
+    }
+  }
+
+  /**
+   * Removes what is buffered after `position`, so the next item starts there
+   * @param interruption - Reported for the item cut
+   * @param wallTime - Schedule clock time at `position`, the new planned end of the item cut
+   */
+  private cutAt(position: number, interruption: string, wallTime?: number): void {
+    this.playoutBuffer?.trim(position, Infinity);
+    this.timeline = this.timeline.filter((entry) => entry.start < position);
+    for (const entry of this.timeline) {
+      if (entry.end > position) {
+        entry.end = position;
+        entry.interruption = interruption;
+        if (entry.report && wallTime !== undefined) {
+          entry.report.plannedEnd = wallTime;
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether the next program item's fixed start is near and falls within what is queued,
+   * so it has to cut in rather than wait for the queued content to run out
+   */
+  private isFixedStartDue(currentTime: number): boolean {
+    if (!this.upcomingFixedSpan || !this.scheduleClock) {
+      return false;
+    }
+
+    const now = this.scheduleClock.now();
+    const secondsUntil = (this.upcomingFixedSpan.start - now) / 1000;
+    return (
+      now < this.upcomingFixedSpan.end &&
+      secondsUntil <= this.lookahead.minBufferedSeconds &&
+      currentTime + secondsUntil < this.getPlayableEnd()
+    );
+  }
+
+  /**
+   * Maps the playhead back to the timeline and emits the item events
+   * The entry of a streamed item that is still growing is not treated as ending
+   */
+  private trackPlayback(currentTime: number): void {
+    const entry = this.timeline.find((candidate) => {
+      const end = this.stream?.entry === candidate ? candidate.end : candidate.end - END_TOLERANCE_SECONDS;
+      return currentTime >= candidate.start && currentTime < end;
+    });
+
+    if (this.playing && this.playing.source !== entry) {
+      const ended = this.playing.source as TimelineEntry;
+      // Entries cut away or trimmed out of the timeline end where they were last seen
+      const seen = this.timeline.includes(ended) && currentTime >= ended.start;
+      this.endPlayingItem(seen ? this.getItemOffset(ended, Math.min(currentTime, ended.end)) : undefined);
+    }
+    if (!entry) {
+      return;
+    }
+
+    if (!this.playing) {
+      this.trackAiring(entry, currentTime);
+    }
+    this.reportPosition(entry, entry.item, this.getItemOffset(entry, currentTime));
+  }
+
+  /**
+   * Emits itemStart when the playhead entered another item, then itemProgress, and checkpoints
+   * the position: right away for a new item, otherwise at most once per checkpoint interval
+   */
+  private reportPosition(source: TimelineEntry | PlayoutDeck, item: QueueItem, offset: number): void {
+    const started = this.playing?.source !== source;
+    if (started) {
+      this.endPlayingItem();
+      this.playing = { source, item, offset };
+      this.emit('itemStart', { item, offset });
+    }
+    this.playing!.offset = offset;
+    this.emit('itemProgress', { item, offset });
+
+    if (item.id === undefined || !this.checkpointClock) {
+      return;
+    }
+    const now = this.checkpointClock.now();
+    if (started || now - this.lastCheckpointAt >= this.checkpointIntervalMs) {
+      this.lastCheckpointAt = now;
+      this.getCheckpointStore().save({
+        itemId: item.id,
+        queueIndex: item.queueIndex,
+        offset,
+        loopCount: this.loopCount,
+        savedAt: now,
+      });
+    }
+  }
+
+  /**
+   * Emits itemEnd for the item at the playhead, and rollEnd when it is the last of the order
+   * @param offset - Where the item stopped; defaults to the last position reported
+   * @param interruption - Why it stopped early; defaults to the reason its timeline entry was cut
+   */
+  private endPlayingItem(offset?: number, interruption?: string): void {
+    if (!this.playing) {
+      return;
+    }
+
+    const { source, item } = this.playing;
+    const event = {
+      item,
+      offset: offset ?? this.playing.offset,
+      interruption: interruption ?? ('end' in source ? source.interruption : undefined) ?? null,
+    };
+    this.playing = null;
+    this.emit('itemEnd', event);
+    if (source.endsRoll) {
+      this.loopCount += 1;
+      this.emit('rollEnd', event);
+    }
+  }
+
+  private getCheckpointStore(): CheckpointStore {
+    if (!this.checkpoints) {
+      this.checkpoints = new CheckpointStore(this.playlist.getDatabaseName(), this.playlist.getStoreName());
+    }
+    return this.checkpoints;
+  }
+
+  /**
+   * Continues from the saved checkpoint. The checkpointed item is found by id, wherever it moved in the
+   * order; when it has been removed, the roll continues with the item that took its place
+   * @param seekInside - Seek to the checkpointed offset instead of starting the item from its in point
+   * @returns true when the item was sought into and queued, false when the caller queues from the restored position
+   */
+  private async resumeFromCheckpoint(seekInside: boolean): Promise<boolean> {
+    let checkpoint: RollCheckpoint | null = null;
+    try {
+      checkpoint = await this.getCheckpointStore().load();
+    } catch (error) {
+      console.warn('Roll: could not load checkpoint, starting from the first item', error);
+    }
+    if (!checkpoint) {
+      return false;
+    }
+
+    const items = this.getProgramItems(await this.playlist.getAll());
+    const index = items.findIndex((item) => item.id === checkpoint.itemId);
+    this.loopCount = checkpoint.loopCount;
+    if (index < 0) {
+      const following = items.findIndex((item) => item.queueIndex >= checkpoint.queueIndex);
+      this.bufferedQueueIndex = Math.max(0, following);
+      return false;
+    }
+
+    this.bufferedQueueIndex = index;
+    if (this.ordering) {
+      // The strategy picks what follows the checkpointed item
+      this.plannedOrder = [checkpoint.itemId];
+    }
+    if (!seekInside) {
+      return false;
+    }
+    try {
+      await this.seek(checkpoint.itemId, checkpoint.offset);
+      return true;
+    } catch (error) {
+      // E.g. the item was shortened and the offset is past its end
+      console.warn('Roll: could not resume inside the checkpointed item, continuing after it', error);
+      this.bufferedQueueIndex = index + 1;
+      this.plannedOrder = [];
+      return false;
+    }
+  }
+
+  private emitStreamEnd(): void {
+    if (!this.streamEnded) {
+      this.streamEnded = true;
+      this.emit('streamEnd');
+    }
+  }
+
+  /**
+   * Returns the offset from an item's in point of a position on the timeline
+   */
+  private getItemOffset(entry: TimelineEntry, position: number): number {
+    const { inPoint = 0 } = this.getClipWindow(entry.item);
+    return Math.max(0, entry.inPoint - inPoint + position - entry.start);
+  }
+
+  /**
+   * Returns the timeline entry, or deck, of the item queued last
+   */
+  private getLastQueued(): { endsRoll?: boolean } | undefined {
+    return this.decks ? this.decks[this.activeDeck] : this.timeline[this.timeline.length - 1];
+  }
+
+  /**
+   * Records when the item at the playhead started airing, which is when the one before it stopped
+   */
+  private trackAiring(entry: TimelineEntry, currentTime: number): void {
+    if (!entry.report || entry.report === this.airing || !this.scheduleClock) {
+      return;
+    }
+
+    const started = this.scheduleClock.now() - (currentTime - entry.start) * 1000;
+    if (this.airing) {
+      this.airing.actualEnd = started;
+    }
+    entry.report.actualStart = started;
+    this.airing = entry.report;
+  }
+
+  /**
+   * Reads an item's scheduled start from its `startAt` metadata: epoch milliseconds or a date string
+   */
+  private getScheduledStart(item: QueueItem): number | null {
+    const value = item.metadata.startAt;
+    const time = typeof value === 'string' ? Date.parse(value) : value;
+    return typeof time === 'number' && Number.isFinite(time) ? time : null;
+  }
+
+  /**
+   * Returns the span an item with a fixed start airs in, or null for other items
+   * The end is open when the item's duration is unknown
+   */
+  private getFixedSpan(item: QueueItem): { start: number; end: number } | null {
+    const start = this.getScheduledStart(item);
+    if (start === null || item.metadata.startMode === 'soft') {
+      return null;
+    }
+
+    const { inPoint = 0, outPoint } = this.getClipWindow(item);
+    const end = outPoint ?? this.getMediaInfo(item)?.duration;
+    return { start, end: end === undefined ? Infinity : start + (end - inPoint) * 1000 };
+  }
+
+  /**
+   * Returns the items the roll cycles through; in schedule mode fillers only fill gaps
+   */
+  private getProgramItems(items: QueueItem[]): QueueItem[] {
+    return this.scheduleClock ? items.filter((item) => item.metadata.filler !== true) : items;
+  }
+
+  /**
+   * Moves the queue position past an item that was appended
+   * @param holder - Timeline entry or deck of the item queued last, marked to emit rollEnd
+   * when it stops playing if the order is complete
+   */
+  private advanceQueueIndex(itemCount: number, holder?: { endsRoll?: boolean }): void {
+    this.bufferedQueueIndex += 1;
+
+    // When bufferedQueueIndex becomes a multiple of the item count, we've queued all items once
+    if (holder && this.bufferedQueueIndex % itemCount === 0) {
+      holder.endsRoll = true;
+    }
+  }
+
+  /**
+   * Loads the next item alone into a deck and ends its stream, so `ended` fires at the item boundary
+   */
+  private async loadDeck(deck: PlayoutDeck, failures = 0): Promise<void> {
+    if (deck.loading || deck.loaded) {
+      return;
+    }
+
+    // Marked before anything is awaited, so a swap in the meantime waits for the deck
+    deck.loading = true;
+    let retry = false;
+    try {
+      // With nothing left to load, a pending swap still runs below and ends the stream
+      const next = (await this.hasMoreSegments()) ? await this.pickNextItem() : null;
+      if (next) {
+        const segment = await this.createSegmentFromItem(next.item);
+        try {
+          await deck.playoutBuffer.append(segment);
+          deck.playoutBuffer.endOfStream();
+          deck.loaded = true;
+          deck.item = next.item;
+          deck.endsRoll = false;
+          this.consumeNextItem(next, deck);
+          this.streamEnded = false;
+        } catch (error) {
+          this.skipUnplayableItem(next, error);
+          deck.playoutBuffer.reset();
+          // Give up once every item has failed in a row
+          retry = failures + 1 < next.itemCount;
+        }
+      }
+    } catch (error) {
+      console.error('Roll: Failed to load item into playout element', error);
+    } finally {
+      deck.loading = false;
+    }
+
+    if (retry) {
+      return this.loadDeck(deck, failures + 1);
+    }
+
+    if (this.swapPending && this.decks && deck !== this.decks[this.activeDeck]) {
+      this.swapPending = false;
+      this.swapDecks();
+    }
+  }
+
+  private handleDeckEnded(deck: PlayoutDeck): void {
+    if (!this.decks || deck !== this.decks[this.activeDeck]) {
+      return;
+    }
+
+    this.swapDecks();
+  }
+
+  /**
+   * Emits the item events of the active element; the hidden one is not on air
+   */
+  private handleDeckTimeUpdate(deck: PlayoutDeck): void {
+    if (!this.decks || deck !== this.decks[this.activeDeck] || !deck.item) {
+      return;
+    }
+
+    // Decks are loaded with the clip window, so element time is the offset from the in point
+    this.reportPosition(deck, deck.item, deck.videoElement.currentTime);
+  }
+
+  /**
+   * Cuts to the standby element and reloads the element that just finished with the next item
+   */
+  private swapDecks(): void {
+    if (!this.decks) {
+      return;
+    }
+
+    const current = this.decks[this.activeDeck];
+    const next = this.decks[1 - this.activeDeck];
+    if (this.playing?.source === current) {
+      this.endPlayingItem(current.videoElement.currentTime);
+    }
+    if (!next.loaded) {
+      if (next.loading) {
+        this.swapPending = true;
+      } else {
+        this.emitStreamEnd();
+      }
+      return;
+    }
+
+    // Start the incoming element before hiding the outgoing one so no empty frame shows in between
+    this.setDeckVisible(next, true);
+    next.videoElement.play().catch((error) => {
+      console.error('Roll: Failed to start playout element', error);
+    });
+    this.setDeckVisible(current, false);
+    current.videoElement.pause();
+
+    this.activeDeck = 1 - this.activeDeck;
+    this.playoutBuffer = next.playoutBuffer;
+    this.videoElement = next.videoElement;
+    this.watchdog?.setVideoElement(next.videoElement);
+
+    current.loaded = false;
+    current.item = null;
+    current.playoutBuffer.reset();
+    void this.loadDeck(current);
+  }
+
+  private setDeckVisible(deck: PlayoutDeck, visible: boolean): void {
+    deck.videoElement.style.visibility = visible ? 'visible' : 'hidden';
+  }
+
   private async hasMoreSegments(): Promise<boolean> {
-    const length = await this.playlist.length();
+    if (this.stream || this.insertQueue.length > 0) {
+      return true;
+    }
+
+    const length = this.scheduleClock
+      ? this.getProgramItems(await this.playlist.getAll()).length
+      : await this.playlist.length();
     this.totalItems = length;
     // return this.bufferedQueueIndex < length;
     
@@ -542,17 +2280,21 @@ export class Roll {
       return false;
     }
 
-    // If callback is set, stop after completing one full cycle
-    if (this.onRollEndCallback) {
+    // Without looping, stop after completing one full cycle
+    if (!this.loop) {
       return this.bufferedQueueIndex < length;
     }
 
-    // If no callback, loop indefinitely (always return true if there are items)
     return true;
   }
 
+  /**
+   * Builds the segment for an item
+   * The blob is read by PlayoutBuffer right before appending, on the worker thread in worker mode,
+   * and MP4 and WebM files are split into their init segment and fragments there
+   * Large items are instead streamed one fragment at a time, see `queueNextChunk`
+   */
   private async createSegmentFromItem(item: QueueItem): Promise<Segment> {
-    const data = await this.blobToArrayBuffer(item.blob);
     const segmentId =
       (item.metadata.originalIndex as number | undefined) ??
       item.queueIndex ??
@@ -563,28 +2305,84 @@ export class Roll {
       (item.metadata.stream_id as string | undefined) ??
       'main-stream';
 
+    const { inPoint, outPoint } = this.getClipWindow(item);
+
     return {
       id: segmentId,
-      data,
+      blob: item.blob,
+      track: item.metadata.track as TrackType | undefined,
+      inPoint,
+      outPoint,
       variant: {
         stream_id: streamId,
+        mimeType: item.metadata.mimeType as string | undefined,
       },
     };
   }
 
-  private blobToArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        if (reader.result instanceof ArrayBuffer) {
-          resolve(reader.result);
-        } else {
-          reject(new Error('Failed to convert blob to ArrayBuffer'));
-        }
-      };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsArrayBuffer(blob);
-    });
+  /**
+   * Reads the in/out points of an item from its metadata, ignoring invalid values
+   */
+  private getClipWindow(item: QueueItem): { inPoint?: number; outPoint?: number } {
+    const toSeconds = (value: unknown): number | undefined =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+    let inPoint = toSeconds(item.metadata.inPoint);
+    let outPoint = toSeconds(item.metadata.outPoint);
+
+    const duration = this.getMediaInfo(item)?.duration;
+    if (duration !== undefined) {
+      if (inPoint !== undefined && inPoint >= duration) {
+        console.warn('Roll: ignoring in point beyond the end of the media', item.id);
+        inPoint = undefined;
+      }
+      if (outPoint !== undefined && outPoint >= duration) {
+        outPoint = undefined;
+      }
+    }
+
+    if (inPoint !== undefined && outPoint !== undefined && outPoint <= inPoint) {
+      console.warn('Roll: ignoring out point that is not after the in point', item.id);
+      return { inPoint };
+    }
+
+    return { inPoint, outPoint };
+  }
+
+  /**
+   * Returns how long an item plays: up to its out point, or to the end of its probed media
+   * @returns null when neither is known and only the buffer can tell
+   */
+  private getPlayedDuration(item: QueueItem, segment: Segment): number | null {
+    if (segment.outPoint !== undefined) {
+      return segment.outPoint - (segment.inPoint ?? 0);
+    }
+
+    const media = this.getMediaInfo(item);
+    return media ? Math.max(0, media.duration - (segment.inPoint ?? 0)) : null;
+  }
+
+  /**
+   * Returns the media facts probed on upsert, or null for items stored without them
+   */
+  private getMediaInfo(item: QueueItem): MediaInfo | null {
+    const media = item.metadata.media as MediaInfo | undefined;
+    return media && typeof media.duration === 'number' && media.duration > 0 ? media : null;
+  }
+
+  /**
+   * Returns the latest point at or before `mediaTime` an item can start decoding from:
+   * its last keyframe there, or `mediaTime` itself for audio-only items
+   * @returns null when the item's keyframes were not probed
+   */
+  private getDecodableStart(item: QueueItem, mediaTime: number): number | null {
+    const media = this.getMediaInfo(item);
+    if (!media) {
+      return null;
+    }
+    if (!media.tracks.some((track) => track.kind === 'video')) {
+      return mediaTime;
+    }
+    return media.keyframes.filter((time) => time <= mediaTime).pop() ?? 0;
   }
 
   private getBufferedEnd(): number {
@@ -600,6 +2398,20 @@ export class Roll {
     return buffered.end(buffered.length - 1);
   }
 
+  /**
+   * Returns where playback of the queued items ends: the end of the last timeline entry,
+   * bounded by what is actually buffered
+   */
+  private getPlayableEnd(): number {
+    const bufferedEnd = this.getBufferedEnd();
+    const last = this.timeline[this.timeline.length - 1];
+    if (!last) {
+      return bufferedEnd;
+    }
+
+    return Math.min(last.end, bufferedEnd);
+  }
+
   /**
    * Updates the ordering index of items in the playlist based on the `entries` metadata
    * Matches items by metadata that references the original entry file or index.
@@ -768,3 +2580,9 @@ export class Roll {
   }
 }
 
+/**
+ * Returns the fields of an item ordering strategies look back at, without its blob
+ */
+function toOrderedItem({ blob: _blob, ...item }: QueueItem): OrderedItem {
+  return item;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { PlayoutBuffer } from './playout-buffer';
+import { StallWatchdog } from './stall-watchdog';
+import { FakeMediaEnvironment, fakeMediaData } from './testing';
+
+/**
+ * Creates a playing element with `seconds` of media buffered
+ */
+async function createPlayingElement(env: FakeMediaEnvironment, seconds: number) {
+  const video = env.createVideoElement();
+  const buffer = new PlayoutBuffer(video, { environment: env });
+  const appended = buffer.append({ id: 1, data: fakeMediaData(seconds) });
+  await env.clock.advance(100);
+  await appended;
+  await video.play();
+  return video;
+}
+
+describe('StallWatchdog', () => {
+  it('nudges a frozen playhead and escalates repeated stalls', async () => {
+    const env = new FakeMediaEnvironment();
+    const video = await createPlayingElement(env, 30);
+    const watchdog = new StallWatchdog(video, { clock: env.clock, stallTimeoutMs: 1000, escalateAfter: 2 });
+    const stalls: number[] = [];
+    let escalations = 0;
+    watchdog.on('stall', ({ stallCount }) => stalls.push(stallCount));
+    watchdog.on('escalate', () => escalations++);
+
+    watchdog.start();
+    await env.clock.advance(1000);
+    expect(stalls).toEqual([]);
+
+    video.frozen = true;
+    await env.clock.advance(5000);
+    watchdog.stop();
+
+    expect(stalls.slice(0, 2)).toEqual([1, 2]);
+    expect(escalations).toBeGreaterThanOrEqual(1);
+  });
+
+  it('jumps a small gap between buffered ranges', async () => {
+    const env = new FakeMediaEnvironment();
+    const video = env.createVideoElement();
+    const buffer = new PlayoutBuffer(video, { environment: env });
+    buffer.enqueue({ id: 1, data: fakeMediaData(2) });
+    await env.clock.advance(100);
+    // A clipped segment is placed at the buffered end; moving the window start leaves a hole
+    buffer.enqueue({ id: 2, data: fakeMediaData(2), inPoint: 0 });
+    await env.clock.advance(100);
+    buffer.trim(2, 2.3);
+    await env.clock.advance(100);
+
+    const watchdog = new StallWatchdog(video, { clock: env.clock });
+    const jumps: number[] = [];
+    watchdog.on('gapjump', ({ to }) => jumps.push(to));
+    watchdog.start();
+    await video.play();
+    await env.clock.advance(3000);
+    watchdog.stop();
+
+    expect(jumps).toHaveLength(1);
+    expect(jumps[0]).toBeCloseTo(2.35);
+    expect(video.currentTime).toBeGreaterThan(2.35);
+  });
+
+  it('watches the element it was pointed at last', async () => {
+    const env = new FakeMediaEnvironment();
+    const first = await createPlayingElement(env, 30);
+    const second = await createPlayingElement(env, 30);
+    const watchdog = new StallWatchdog(first, { clock: env.clock, stallTimeoutMs: 1000 });
+    let stalls = 0;
+    watchdog.on('stall', () => stalls++);
+
+    watchdog.start();
+    watchdog.setVideoElement(second);
+    first.frozen = true;
+    await env.clock.advance(3000);
+    expect(stalls).toBe(0);
+
+    second.frozen = true;
+    await env.clock.advance(3000);
+    watchdog.stop();
+    expect(stalls).toBeGreaterThan(0);
+  });
+});
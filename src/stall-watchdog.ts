@@ -0,0 +1,212 @@
+import { Clock, systemClock } from './environment';
+import { TypedEventEmitter } from './event-emitter';
+import { RollMediaElement } from './types/media-element';
+
+export interface StallWatchdogOptions {
+  /**
+   * How often playback is sampled, in milliseconds
+   * Default: 500
+   */
+  pollIntervalMs?: number;
+  /**
+   * How long currentTime may stay still with data buffered ahead before it counts as a stall
+   * Default: 2000
+   */
+  stallTimeoutMs?: number;
+  /**
+   * Largest gap between buffered ranges that is jumped over, in seconds
+   * Default: 0.5
+   */
+  maxGapSeconds?: number;
+  /**
+   * Number of stalls within `escalationWindowMs` that escalates to listeners
+   * Default: 3
+   */
+  escalateAfter?: number;
+  /**
+   * Window in which stalls are counted for escalation, in milliseconds
+   * Default: 30000
+   */
+  escalationWindowMs?: number;
+  /**
+   * Timer source for polling
+   * Default: systemClock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Events emitted by StallWatchdog, keyed by event name
+ */
+export interface StallWatchdogEvents {
+  /** Playback was moved over a hole between buffered ranges */
+  gapjump: { from: number; to: number };
+  /** currentTime stopped advancing while data was buffered ahead; playback was nudged forward */
+  stall: { currentTime: number; bufferedAhead: number; stallCount: number };
+  /** Stalls kept repeating within the escalation window */
+  escalate: { currentTime: number; stallCount: number };
+}
+
+/**
+ * Seconds a stall nudge moves the playhead forward
+ */
+const NUDGE_SECONDS = 0.1;
+
+/**
+ * Tolerance when deciding whether currentTime is inside a buffered range
+ */
+const RANGE_EPSILON = 0.05;
+
+/**
+ * Watches a video element for frozen playback
+ * Jumps small gaps between buffered ranges, nudges the playhead when the decoder stalls
+ * with data buffered, and escalates repeated stalls so the roll can skip the item
+ */
+export class StallWatchdog extends TypedEventEmitter<StallWatchdogEvents> {
+  private readonly pollIntervalMs: number;
+  private readonly stallTimeoutMs: number;
+  private readonly maxGapSeconds: number;
+  private readonly escalateAfter: number;
+  private readonly escalationWindowMs: number;
+  private readonly clock: Clock;
+  private timer: unknown = null;
+  private lastTime: number | null = null;
+  private stillSince: number | null = null;
+  private stallTimes: number[] = [];
+
+  constructor(
+    private videoElement: RollMediaElement,
+    options: StallWatchdogOptions = {}
+  ) {
+    super();
+    this.pollIntervalMs = options.pollIntervalMs ?? 500;
+    this.stallTimeoutMs = options.stallTimeoutMs ?? 2000;
+    this.maxGapSeconds = options.maxGapSeconds ?? 0.5;
+    this.escalateAfter = options.escalateAfter ?? 3;
+    this.escalationWindowMs = options.escalationWindowMs ?? 30000;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Starts sampling playback
+   */
+  start(): void {
+    if (this.timer !== null) {
+      return;
+    }
+
+    this.reset();
+    this.timer = this.clock.setInterval(() => this.check(), this.pollIntervalMs);
+  }
+
+  /**
+   * Stops sampling playback
+   */
+  stop(): void {
+    if (this.timer !== null) {
+      this.clock.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.reset();
+  }
+
+  /**
+   * Watches another video element from the next poll on, e.g. the one that went on air in
+   * dual-element playout; stalls counted on the previous element are forgotten
+   */
+  setVideoElement(videoElement: RollMediaElement): void {
+    this.videoElement = videoElement;
+    this.reset();
+  }
+
+  /**
+   * Forgets stalls counted so far, e.g. after the offending item was skipped
+   */
+  reset(): void {
+    this.lastTime = null;
+    this.stillSince = null;
+    this.stallTimes = [];
+  }
+
+  /**
+   * Samples playback once; called on every poll
+   */
+  check(): void {
+    const video = this.videoElement;
+    if (video.paused || video.ended || video.seeking || video.readyState === 0) {
+      this.lastTime = null;
+      this.stillSince = null;
+      return;
+    }
+
+    const currentTime = video.currentTime;
+    if (this.jumpGap(currentTime)) {
+      this.lastTime = null;
+      this.stillSince = null;
+      return;
+    }
+
+    const now = this.clock.now();
+    if (this.lastTime === null || Math.abs(currentTime - this.lastTime) > 0.001) {
+      this.lastTime = currentTime;
+      this.stillSince = now;
+      return;
+    }
+
+    const bufferedAhead = this.getBufferedAhead(currentTime);
+    if (bufferedAhead <= NUDGE_SECONDS || this.stillSince === null || now - this.stillSince < this.stallTimeoutMs) {
+      return;
+    }
+
+    this.stallTimes = this.stallTimes.filter((time) => now - time < this.escalationWindowMs);
+    this.stallTimes.push(now);
+    this.stillSince = now;
+    this.emit('stall', { currentTime, bufferedAhead, stallCount: this.stallTimes.length });
+
+    if (this.stallTimes.length >= this.escalateAfter) {
+      const stallCount = this.stallTimes.length;
+      this.stallTimes = [];
+      this.emit('escalate', { currentTime, stallCount });
+      return;
+    }
+
+    video.currentTime = currentTime + NUDGE_SECONDS;
+  }
+
+  /**
+   * Moves playback to the next buffered range when it sits at the end of a range,
+   * or in a hole, and the next range starts within maxGapSeconds
+   * @returns true when playback was moved
+   */
+  private jumpGap(currentTime: number): boolean {
+    const buffered = this.videoElement.buffered;
+    for (let i = 0; i < buffered.length; i++) {
+      const start = buffered.start(i);
+      if (start <= currentTime + RANGE_EPSILON) {
+        continue;
+      }
+
+      const previousEnd = i > 0 ? buffered.end(i - 1) : 0;
+      const inHoleOrAtEnd = currentTime >= previousEnd - RANGE_EPSILON;
+      if (!inHoleOrAtEnd || start - currentTime > this.maxGapSeconds) {
+        return false;
+      }
+
+      this.videoElement.currentTime = start + RANGE_EPSILON;
+      this.emit('gapjump', { from: currentTime, to: start + RANGE_EPSILON });
+      return true;
+    }
+
+    return false;
+  }
+
+  private getBufferedAhead(currentTime: number): number {
+    const buffered = this.videoElement.buffered;
+    for (let i = 0; i < buffered.length; i++) {
+      if (currentTime >= buffered.start(i) - RANGE_EPSILON && currentTime < buffered.end(i)) {
+        return buffered.end(i) - currentTime;
+      }
+    }
+    return 0;
+  }
+}
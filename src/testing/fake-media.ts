@@ -0,0 +1,711 @@
+import { Clock, MediaSourceLike, PlayoutEnvironment, SourceBufferLike } from '../environment';
+import { MediaElementEventType, RollMediaElement } from '../types/media-element';
+
+/**
+ * Marker at the start of buffers produced by fakeMediaData
+ */
+const FAKE_MEDIA_MAGIC = 0x464d4441; // 'FMDA'
+
+/**
+ * Bytes taken by the fake media header: magic + float64 duration
+ */
+const FAKE_MEDIA_HEADER_BYTES = 12;
+
+/**
+ * Tolerance when merging adjacent buffered ranges
+ */
+const MERGE_EPSILON = 0.001;
+
+/**
+ * Builds a buffer the fake SourceBuffer treats as `seconds` of media
+ * Buffers without the fake header are treated as init segments and add no media time
+ * @param byteLength - Total size, padded with zeros; useful to exercise quota limits
+ */
+export function fakeMediaData(seconds: number, byteLength = FAKE_MEDIA_HEADER_BYTES): ArrayBuffer {
+  const buffer = new ArrayBuffer(Math.max(byteLength, FAKE_MEDIA_HEADER_BYTES));
+  const view = new DataView(buffer);
+  view.setUint32(0, FAKE_MEDIA_MAGIC);
+  view.setFloat64(4, seconds);
+  return buffer;
+}
+
+/**
+ * Reads the duration encoded by fakeMediaData
+ * @returns Seconds of media, or null for buffers without the fake header
+ */
+export function readFakeMediaDuration(data: BufferSource): number | null {
+  const view = ArrayBuffer.isView(data)
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+  if (view.byteLength < FAKE_MEDIA_HEADER_BYTES || view.getUint32(0) !== FAKE_MEDIA_MAGIC) {
+    return null;
+  }
+  return view.getFloat64(4);
+}
+
+interface ScheduledTimer {
+  id: number;
+  due: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+/**
+ * Clock whose time only moves when advance() is called
+ * Timers run in due order; pending promise callbacks are drained between timers
+ */
+export class FakeClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers: ScheduledTimer[] = [];
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return this.schedule(callback, ms, null);
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer.id !== handle);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    return this.schedule(callback, ms, Math.max(1, ms));
+  }
+
+  clearInterval(handle: unknown): void {
+    this.clearTimeout(handle);
+  }
+
+  /**
+   * Moves time forward, running every timer that falls due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    await settle();
+
+    for (;;) {
+      const timer = this.nextDue(target);
+      if (!timer) {
+        break;
+      }
+
+      this.time = timer.due;
+      if (timer.interval === null) {
+        this.clearTimeout(timer.id);
+      } else {
+        timer.due += timer.interval;
+      }
+      timer.callback();
+      await settle();
+    }
+
+    this.time = target;
+  }
+
+  /**
+   * Runs timers that are already due and drains pending promise callbacks
+   */
+  async flush(): Promise<void> {
+    await this.advance(0);
+  }
+
+  private schedule(callback: () => void, ms: number, interval: number | null): number {
+    const id = this.nextId++;
+    this.timers.push({ id, due: this.time + Math.max(0, ms), interval, callback });
+    return id;
+  }
+
+  private nextDue(target: number): ScheduledTimer | null {
+    let next: ScheduledTimer | null = null;
+    for (const timer of this.timers) {
+      if (timer.due <= target && (!next || timer.due < next.due)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
+
+/**
+ * Waits one macrotask so chained promises (blob reads, appends) can run
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => globalThis.setTimeout(resolve, 0));
+}
+
+/**
+ * Immutable TimeRanges over [start, end] pairs
+ */
+export class FakeTimeRanges implements TimeRanges {
+  constructor(private readonly ranges: ReadonlyArray<readonly [number, number]> = []) {}
+
+  get length(): number {
+    return this.ranges.length;
+  }
+
+  start(index: number): number {
+    return this.at(index)[0];
+  }
+
+  end(index: number): number {
+    return this.at(index)[1];
+  }
+
+  private at(index: number): readonly [number, number] {
+    const range = this.ranges[index];
+    if (!range) {
+      throw new DOMException(`Index ${index} is out of range`, 'IndexSizeError');
+    }
+    return range;
+  }
+}
+
+/**
+ * Minimal listener registry shared by the fakes
+ */
+class FakeEventTarget<T extends string> {
+  private readonly listeners = new Map<T, Set<() => void>>();
+
+  addEventListener(type: T, listener: () => void): void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+  }
+
+  removeEventListener(type: T, listener: () => void): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Calls every listener of an event
+   */
+  dispatch(type: T): void {
+    for (const listener of [...(this.listeners.get(type) ?? [])]) {
+      listener();
+    }
+  }
+}
+
+interface BufferedChunk {
+  start: number;
+  end: number;
+  bytes: number;
+}
+
+/**
+ * Options for the fake SourceBuffers created by FakeMediaEnvironment
+ */
+export interface FakeSourceBufferOptions {
+  /**
+   * Simulated time an append or remove takes, in milliseconds
+   * Default: 10
+   */
+  operationMs?: number;
+  /**
+   * Bytes a SourceBuffer holds before appendBuffer throws QuotaExceededError
+   * Default: Infinity
+   */
+  quotaBytes?: number;
+}
+
+/**
+ * In-memory SourceBuffer
+ * Places fakeMediaData buffers on the timeline honouring mode, timestampOffset and the append window,
+ * and completes every operation asynchronously on the clock
+ */
+export class FakeSourceBuffer extends FakeEventTarget<'updateend' | 'error'> implements SourceBufferLike {
+  timestampOffset = 0;
+  appendWindowStart = 0;
+  appendWindowEnd = Infinity;
+  /** Set to make the next append fail with an `error` event */
+  failNextAppend = false;
+  /** Every buffer passed to appendBuffer, in order */
+  readonly appended: ArrayBuffer[] = [];
+  private appendMode: AppendMode = 'segments';
+  private chunks: BufferedChunk[] = [];
+  private groupEnd = 0;
+  private pendingGroupStart: number | null = null;
+  private busy = false;
+  private readonly operationMs: number;
+  private readonly quotaBytes: number;
+
+  constructor(
+    public mimeType: string,
+    private readonly clock: FakeClock,
+    options: FakeSourceBufferOptions = {}
+  ) {
+    super();
+    this.operationMs = options.operationMs ?? 10;
+    this.quotaBytes = options.quotaBytes ?? Infinity;
+  }
+
+  get mode(): AppendMode {
+    return this.appendMode;
+  }
+
+  set mode(mode: AppendMode) {
+    this.assertIdle();
+    if (mode === 'sequence') {
+      this.pendingGroupStart = this.groupEnd;
+    }
+    this.appendMode = mode;
+  }
+
+  get updating(): boolean {
+    return this.busy;
+  }
+
+  get buffered(): TimeRanges {
+    return new FakeTimeRanges(mergeChunks(this.chunks));
+  }
+
+  /**
+   * Bytes currently held
+   */
+  get bufferedBytes(): number {
+    return this.chunks.reduce((total, chunk) => total + chunk.bytes, 0);
+  }
+
+  appendBuffer(data: BufferSource): void {
+    this.assertIdle();
+    if (this.bufferedBytes + data.byteLength > this.quotaBytes) {
+      throw new DOMException('SourceBuffer is full', 'QuotaExceededError');
+    }
+
+    const copy = toArrayBuffer(data);
+    this.appended.push(copy);
+    this.busy = true;
+    this.clock.setTimeout(() => {
+      this.busy = false;
+      if (this.failNextAppend) {
+        this.failNextAppend = false;
+        this.dispatch('error');
+      } else {
+        this.place(copy);
+      }
+      this.dispatch('updateend');
+    }, this.operationMs);
+  }
+
+  remove(start: number, end: number): void {
+    this.assertIdle();
+    this.busy = true;
+    this.clock.setTimeout(() => {
+      this.busy = false;
+      this.chunks = this.chunks.flatMap((chunk) => cutChunk(chunk, start, end));
+      this.dispatch('updateend');
+    }, this.operationMs);
+  }
+
+  changeType(type: string): void {
+    this.assertIdle();
+    this.mimeType = type;
+    this.pendingGroupStart = this.groupEnd;
+  }
+
+  private place(data: ArrayBuffer): void {
+    const duration = readFakeMediaDuration(data);
+    if (duration === null) {
+      return;
+    }
+
+    if (this.appendMode === 'sequence' && this.pendingGroupStart !== null) {
+      this.timestampOffset = this.pendingGroupStart;
+      this.pendingGroupStart = null;
+    }
+
+    const start = Math.max(this.timestampOffset, this.appendWindowStart);
+    const end = Math.min(this.timestampOffset + duration, this.appendWindowEnd);
+    if (this.appendMode === 'sequence') {
+      this.timestampOffset += duration;
+    }
+    if (end <= start) {
+      return;
+    }
+
+    const bytes = Math.round(data.byteLength * ((end - start) / duration));
+    this.chunks = this.chunks.flatMap((chunk) => cutChunk(chunk, start, end));
+    this.chunks.push({ start, end, bytes });
+    this.chunks.sort((a, b) => a.start - b.start);
+    this.groupEnd = Math.max(this.groupEnd, end);
+  }
+
+  private assertIdle(): void {
+    if (this.busy) {
+      throw new DOMException('SourceBuffer is updating', 'InvalidStateError');
+    }
+  }
+}
+
+/**
+ * In-memory MediaSource
+ * Opens when a FakeVideoElement loads its object URL
+ */
+export class FakeMediaSource extends FakeEventTarget<'sourceopen'> implements MediaSourceLike {
+  readonly sourceBuffers: FakeSourceBuffer[] = [];
+  private state: ReadyState = 'closed';
+
+  constructor(
+    private readonly environment: FakeMediaEnvironment,
+    private readonly sourceBufferOptions: FakeSourceBufferOptions
+  ) {
+    super();
+  }
+
+  get readyState(): ReadyState {
+    return this.state;
+  }
+
+  addSourceBuffer(type: string): FakeSourceBuffer {
+    if (this.state !== 'open') {
+      throw new DOMException('MediaSource is not open', 'InvalidStateError');
+    }
+    if (!this.environment.isTypeSupported(type)) {
+      throw new DOMException(`Unsupported type ${type}`, 'NotSupportedError');
+    }
+
+    const sourceBuffer = new FakeSourceBuffer(type, this.environment.clock, this.sourceBufferOptions);
+    this.sourceBuffers.push(sourceBuffer);
+    return sourceBuffer;
+  }
+
+  endOfStream(): void {
+    if (this.state !== 'open' || this.sourceBuffers.some((sourceBuffer) => sourceBuffer.updating)) {
+      throw new DOMException('MediaSource cannot end now', 'InvalidStateError');
+    }
+    this.state = 'ended';
+  }
+
+  /**
+   * Ranges buffered on every SourceBuffer, as the media element sees them
+   */
+  get buffered(): FakeTimeRanges {
+    const [first, ...rest] = this.sourceBuffers.map((sourceBuffer) => toPairs(sourceBuffer.buffered));
+    if (!first) {
+      return new FakeTimeRanges();
+    }
+    return new FakeTimeRanges(rest.reduce(intersectRanges, first));
+  }
+
+  /** @internal Called by FakeVideoElement when it loads the object URL */
+  open(): void {
+    if (this.state !== 'closed') {
+      return;
+    }
+    this.state = 'open';
+    this.dispatch('sourceopen');
+  }
+
+  /** @internal Called by FakeVideoElement when it loads another source */
+  detach(): void {
+    this.state = 'closed';
+  }
+}
+
+/**
+ * Options for FakeMediaEnvironment
+ */
+export interface FakeMediaEnvironmentOptions extends FakeSourceBufferOptions {
+  /**
+   * Decides which MIME types are playable
+   * Default: every type
+   */
+  isTypeSupported?: (type: string) => boolean;
+}
+
+/**
+ * PlayoutEnvironment backed by the in-memory fakes and a FakeClock
+ * @example
+ * const env = new FakeMediaEnvironment();
+ * const video = env.createVideoElement();
+ * const buffer = new PlayoutBuffer(video, { environment: env });
+ * await buffer.append({ id: 1, data: fakeMediaData(4) });
+ * await env.clock.advance(1000);
+ */
+export class FakeMediaEnvironment implements PlayoutEnvironment {
+  readonly clock: FakeClock;
+  /** Every MediaSource created, newest last */
+  readonly mediaSources: FakeMediaSource[] = [];
+  private readonly urls = new Map<string, FakeMediaSource>();
+  private nextUrl = 1;
+  private readonly typeSupported: (type: string) => boolean;
+  private readonly sourceBufferOptions: FakeSourceBufferOptions;
+
+  constructor(options: FakeMediaEnvironmentOptions = {}, clock: FakeClock = new FakeClock()) {
+    this.clock = clock;
+    this.typeSupported = options.isTypeSupported ?? (() => true);
+    this.sourceBufferOptions = { operationMs: options.operationMs, quotaBytes: options.quotaBytes };
+  }
+
+  createMediaSource(): FakeMediaSource {
+    const mediaSource = new FakeMediaSource(this, this.sourceBufferOptions);
+    this.mediaSources.push(mediaSource);
+    return mediaSource;
+  }
+
+  isTypeSupported(type: string): boolean {
+    return this.typeSupported(type);
+  }
+
+  createObjectURL(mediaSource: MediaSourceLike): string {
+    const url = `blob:fake/${this.nextUrl++}`;
+    this.urls.set(url, mediaSource as FakeMediaSource);
+    return url;
+  }
+
+  revokeObjectURL(url: string): void {
+    this.urls.delete(url);
+  }
+
+  readBlob(blob: Blob): Promise<ArrayBuffer> {
+    return blob.arrayBuffer();
+  }
+
+  /**
+   * Looks up the MediaSource behind an object URL
+   */
+  resolveObjectURL(url: string): FakeMediaSource | null {
+    return this.urls.get(url) ?? null;
+  }
+
+  /**
+   * Creates a video element that plays MediaSources from this environment
+   */
+  createVideoElement(options: FakeVideoElementOptions = {}): FakeVideoElement {
+    return new FakeVideoElement(this, options);
+  }
+}
+
+/**
+ * Options for FakeVideoElement
+ */
+export interface FakeVideoElementOptions {
+  /**
+   * How often the playhead moves and `timeupdate` fires, in milliseconds
+   * Default: 250
+   */
+  tickMs?: number;
+}
+
+/**
+ * In-memory video element driven by the environment's clock
+ * The playhead advances through buffered ranges while playing, fires `waiting` when it runs out
+ * of data and `ended` when it reaches the end of an ended MediaSource
+ */
+export class FakeVideoElement extends FakeEventTarget<MediaElementEventType> implements RollMediaElement {
+  readonly style = { visibility: '' };
+  /** Set to freeze the playhead while data is buffered, e.g. to exercise StallWatchdog */
+  frozen = false;
+  private source = '';
+  private position = 0;
+  private isPaused = true;
+  private hasEnded = false;
+  private isWaiting = false;
+  private mediaSource: FakeMediaSource | null = null;
+  private timer: number | null = null;
+  private readonly tickMs: number;
+
+  constructor(
+    private readonly environment: FakeMediaEnvironment,
+    options: FakeVideoElementOptions = {}
+  ) {
+    super();
+    this.tickMs = options.tickMs ?? 250;
+  }
+
+  get src(): string {
+    return this.source;
+  }
+
+  set src(url: string) {
+    this.source = url;
+  }
+
+  get currentTime(): number {
+    return this.position;
+  }
+
+  set currentTime(time: number) {
+    this.position = Math.max(0, time);
+    this.hasEnded = false;
+    this.dispatch('timeupdate');
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  get ended(): boolean {
+    return this.hasEnded;
+  }
+
+  get seeking(): boolean {
+    return false;
+  }
+
+  get readyState(): number {
+    if (!this.mediaSource) {
+      return 0;
+    }
+    return this.bufferedAhead() > 0 ? 4 : 1;
+  }
+
+  get buffered(): TimeRanges {
+    return this.mediaSource?.buffered ?? new FakeTimeRanges();
+  }
+
+  load(): void {
+    this.mediaSource?.detach();
+    this.position = 0;
+    this.hasEnded = false;
+    this.isWaiting = false;
+    this.mediaSource = this.environment.resolveObjectURL(this.source);
+
+    const mediaSource = this.mediaSource;
+    if (mediaSource) {
+      this.environment.clock.setTimeout(() => mediaSource.open(), 0);
+    }
+  }
+
+  play(): Promise<void> {
+    if (this.hasEnded) {
+      this.position = 0;
+      this.hasEnded = false;
+    }
+    this.isPaused = false;
+    if (this.timer === null) {
+      this.timer = this.environment.clock.setInterval(() => this.tick(), this.tickMs);
+    }
+    return Promise.resolve();
+  }
+
+  pause(): void {
+    this.isPaused = true;
+    this.stopTimer();
+  }
+
+  /**
+   * Stops the playback timer; call when the element is no longer needed
+   */
+  dispose(): void {
+    this.pause();
+    this.mediaSource?.detach();
+    this.mediaSource = null;
+  }
+
+  private tick(): void {
+    if (this.isPaused || this.hasEnded || this.frozen) {
+      return;
+    }
+
+    const ahead = this.bufferedAhead();
+    if (ahead > 0) {
+      this.isWaiting = false;
+      this.position += Math.min(ahead, this.tickMs / 1000);
+      this.dispatch('timeupdate');
+      return;
+    }
+
+    if (this.mediaSource?.readyState === 'ended') {
+      this.hasEnded = true;
+      this.isPaused = true;
+      this.stopTimer();
+      this.dispatch('timeupdate');
+      this.dispatch('ended');
+      return;
+    }
+
+    if (!this.isWaiting) {
+      this.isWaiting = true;
+      this.dispatch('waiting');
+    }
+  }
+
+  private bufferedAhead(): number {
+    const buffered = this.buffered;
+    for (let i = 0; i < buffered.length; i++) {
+      if (this.position >= buffered.start(i) - MERGE_EPSILON && this.position < buffered.end(i)) {
+        return buffered.end(i) - this.position;
+      }
+    }
+    return 0;
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      this.environment.clock.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+function toArrayBuffer(data: BufferSource): ArrayBuffer {
+  if (ArrayBuffer.isView(data)) {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  }
+  return data.slice(0);
+}
+
+/**
+ * Removes [start, end) from a chunk, scaling its byte count with what is left
+ */
+function cutChunk(chunk: BufferedChunk, start: number, end: number): BufferedChunk[] {
+  if (end <= chunk.start || start >= chunk.end) {
+    return [chunk];
+  }
+
+  const duration = chunk.end - chunk.start;
+  const pieces: BufferedChunk[] = [];
+  if (start > chunk.start) {
+    pieces.push({ start: chunk.start, end: start, bytes: Math.round(chunk.bytes * ((start - chunk.start) / duration)) });
+  }
+  if (end < chunk.end) {
+    pieces.push({ start: end, end: chunk.end, bytes: Math.round(chunk.bytes * ((chunk.end - end) / duration)) });
+  }
+  return pieces;
+}
+
+function mergeChunks(chunks: BufferedChunk[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const chunk of chunks) {
+    const last = ranges[ranges.length - 1];
+    if (last && chunk.start <= last[1] + MERGE_EPSILON) {
+      last[1] = Math.max(last[1], chunk.end);
+    } else {
+      ranges.push([chunk.start, chunk.end]);
+    }
+  }
+  return ranges;
+}
+
+function toPairs(ranges: TimeRanges): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < ranges.length; i++) {
+    pairs.push([ranges.start(i), ranges.end(i)]);
+  }
+  return pairs;
+}
+
+function intersectRanges(a: Array<[number, number]>, b: Array<[number, number]>): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  for (const [aStart, aEnd] of a) {
+    for (const [bStart, bEnd] of b) {
+      const start = Math.max(aStart, bStart);
+      const end = Math.min(aEnd, bEnd);
+      if (end > start) {
+        result.push([start, end]);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,6 @@
+/**
+ * In-memory fakes for running PlayoutBuffer, Roll and StallWatchdog without a browser
+ * Published as the `mse-playout/testing` entry point, not re-exported from lib.ts, so they stay out of the main bundle
+ */
+
+export * from './fake-media';
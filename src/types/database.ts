@@ -17,9 +17,17 @@ export interface QueueItem {
    */
   queueIndex: number;
 
+  /**
+   * Incremented by Playlist.updateItem each time the blob is replaced; undefined until the first replacement
+   */
+  revision?: number;
+
   /**
    * Flexible metadata object that can store any additional information
    * about the queue item (e.g., filename, mimeType, duration, etc.)
+   * `inPoint` and `outPoint` (seconds) restrict playback to part of the item
+   * `startAt`, `startMode` and `filler` place the item in Roll's schedule mode
+   * `mimeType` and `media` (a MediaInfo) are filled in by Roll.upsertItem when the blob is probed
    */
   metadata: Record<string, unknown>;
 }
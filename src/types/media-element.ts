@@ -0,0 +1,33 @@
+/**
+ * Subset of HTMLVideoElement that PlayoutBuffer drives
+ * HTMLVideoElement satisfies it; in worker mode the worker uses a mirror of the main-thread element
+ */
+export interface PlayoutMediaElement {
+  src: string;
+  currentTime: number;
+  readonly paused: boolean;
+  readonly buffered: TimeRanges;
+  load(): void;
+  play(): Promise<void>;
+  addEventListener(type: 'timeupdate' | 'waiting', listener: () => void): void;
+  removeEventListener(type: 'timeupdate' | 'waiting', listener: () => void): void;
+}
+
+/**
+ * Events of the media element that Roll and StallWatchdog listen to
+ */
+export type MediaElementEventType = 'timeupdate' | 'waiting' | 'ended';
+
+/**
+ * Subset of HTMLVideoElement that Roll and StallWatchdog drive
+ * HTMLVideoElement satisfies it; `testing/` provides an in-memory fake
+ */
+export interface RollMediaElement extends PlayoutMediaElement {
+  readonly ended: boolean;
+  readonly seeking: boolean;
+  readonly readyState: number;
+  readonly style: { visibility: string };
+  pause(): void;
+  addEventListener(type: MediaElementEventType, listener: () => void): void;
+  removeEventListener(type: MediaElementEventType, listener: () => void): void;
+}
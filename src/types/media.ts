@@ -0,0 +1,79 @@
+/**
+ * Facts about one track of a media file, read from its headers and sample tables
+ */
+export interface MediaTrackInfo {
+  id: number;
+  kind: 'video' | 'audio' | 'other';
+  /**
+   * RFC 6381 codec string, e.g. `avc1.64001F`, or null when the codec is unknown
+   */
+  codec: string | null;
+  /**
+   * Duration in seconds
+   */
+  duration: number;
+  /**
+   * Average bitrate in bits per second
+   */
+  bitrate: number;
+  /**
+   * Display size, for video tracks
+   */
+  width?: number;
+  height?: number;
+  /**
+   * Sample rate in Hz and channel count, for audio tracks
+   */
+  sampleRate?: number;
+  channels?: number;
+}
+
+/**
+ * Facts about a media file, probed on ingest and stored in `QueueItem.metadata.media`
+ */
+export interface MediaInfo {
+  /**
+   * Duration in seconds, the longest track
+   */
+  duration: number;
+  /**
+   * Display size of the first video track
+   */
+  width?: number;
+  height?: number;
+  /**
+   * Average bitrate of all tracks in bits per second
+   */
+  bitrate: number;
+  /**
+   * MIME type with codecs, e.g. `video/mp4; codecs="avc1.64001F,mp4a.40.2"`
+   */
+  mimeType: string | null;
+  tracks: MediaTrackInfo[];
+  /**
+   * Presentation times in seconds of the sync samples of the first video track
+   */
+  keyframes: number[];
+}
+
+/**
+ * Byte range [start, end) of a blob
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Layout of a stored media file, for reading it one media segment at a time with `Blob.slice`
+ */
+export interface MediaChunkIndex {
+  /**
+   * Init segment, assembled from the file's headers
+   */
+  init: ArrayBuffer;
+  /**
+   * One range per media segment (MP4 fragment or WebM cluster), in file order
+   */
+  chunks: ByteRange[];
+}
@@ -15,6 +15,8 @@ export interface RollEntry {
 
   /**
    * Optional metadata to store with the item
+   * `inPoint` and `outPoint` (seconds) restrict playback to part of the file
+   * `startAt`, `startMode` and `filler` place the item in Roll's schedule mode
    */
   metadata?: Record<string, unknown>;
 }
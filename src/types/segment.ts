@@ -1,12 +1,49 @@
+/**
+ * Track types a PlayoutBuffer can hold a SourceBuffer for.
+ * `muxed` carries audio and video in a single SourceBuffer.
+ */
+export type TrackType = 'muxed' | 'video' | 'audio';
+
 /**
  * Represents a video segment that can be appended to the SourceBuffer
  */
 export interface Segment {
   id: number;
   data?: ArrayBuffer;
+  /**
+   * Item data that has not been read yet
+   * Segments without `data` are prepared from it right before they are appended,
+   * on the worker thread when PlayoutBuffer runs in worker mode
+   */
+  blob?: Blob;
+  /**
+   * SourceBuffer the segment is routed to
+   * Defaults to the muxed track, or the first configured track if there is none
+   */
+  track?: TrackType;
+  /**
+   * Optional in point in seconds, relative to the segment's media timestamps
+   * Media before it is cut with the SourceBuffer append window
+   */
+  inPoint?: number;
+  /**
+   * Optional out point in seconds, relative to the segment's media timestamps
+   * Media after it is cut with the SourceBuffer append window
+   */
+  outPoint?: number;
+  /**
+   * Whether the segment continues the file of the previous segment on its track,
+   * e.g. the next fragment of an item that is streamed fragment by fragment
+   * It is cut by that file's in/out points instead of opening a clip window of its own
+   */
+  continuation?: boolean;
   variant?: {
     stream_id: string;
     init?: ArrayBuffer;
+    /**
+     * MIME type with codecs of this variant, e.g. `video/mp4; codecs="hvc1.1.6.L93.B0"`
+     * When it differs from the previous segment on the same track the SourceBuffer type is switched
+     */
+    mimeType?: string;
   };
 }
-
@@ -0,0 +1,221 @@
+/**
+ * EBML element located in a buffer
+ * Offsets are absolute within the buffer that was parsed
+ */
+export interface EbmlElement {
+  /** Element ID including its length marker, e.g. 0x1A45DFA3 for the EBML header */
+  id: number;
+  /** Offset of the first byte of the element ID */
+  start: number;
+  /** Offset of the first byte of the payload */
+  dataStart: number;
+  /** Offset just past the payload; for elements of unknown size, where the next sibling starts */
+  end: number;
+  /** Whether the size field was the reserved "unknown" value, as written by live muxers */
+  unknownSize: boolean;
+}
+
+/**
+ * Element IDs used by the WebM parser
+ */
+export const EbmlId = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  DisplayWidth: 0x54b0,
+  DisplayHeight: 0x54ba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+} as const;
+
+/**
+ * Top-level children of a Segment; an element of unknown size ends where one of these starts
+ */
+const SEGMENT_CHILDREN = new Set<number>([
+  EbmlId.SeekHead, EbmlId.Info, EbmlId.Tracks, EbmlId.Cluster, EbmlId.Cues,
+  0x1043a770, // Chapters
+  0x1254c367, // Tags
+  0x1941a469, // Attachments
+  EbmlId.EBML,
+  EbmlId.Segment,
+]);
+
+/**
+ * Whether an element ID is a top-level child of a Segment, which ends any element of unknown size before it
+ */
+export function isSegmentChild(id: number): boolean {
+  return SEGMENT_CHILDREN.has(id);
+}
+
+/**
+ * Reads the elements laid out back to back in [start, end)
+ * @throws Error when an element header is malformed or its payload runs past `end`
+ */
+export function readElements(data: Uint8Array, start = 0, end = data.byteLength): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const id = readVint(data, offset, end, true);
+    const size = readVint(data, offset + id.length, end, false);
+    const dataStart = offset + id.length + size.length;
+
+    let elementEnd: number;
+    if (size.unknown) {
+      elementEnd = findUnknownSizeEnd(data, id.value, dataStart, end);
+    } else {
+      elementEnd = dataStart + size.value;
+      if (elementEnd > end) {
+        throw new Error(`Truncated EBML element 0x${id.value.toString(16)} at offset ${offset}`);
+      }
+    }
+
+    elements.push({ id: id.value, start: offset, dataStart, end: elementEnd, unknownSize: size.unknown });
+    offset = elementEnd;
+  }
+
+  return elements;
+}
+
+/**
+ * Reads the children of a master element
+ */
+export function readChildElements(data: Uint8Array, element: EbmlElement): EbmlElement[] {
+  return readElements(data, element.dataStart, element.end);
+}
+
+/**
+ * Finds the first element with an ID among siblings
+ */
+export function findElement(elements: EbmlElement[], id: number): EbmlElement | null {
+  return elements.find((element) => element.id === id) ?? null;
+}
+
+/**
+ * Reads an unsigned integer element of up to 6 bytes
+ */
+export function readUint(data: Uint8Array, element: EbmlElement): number {
+  let value = 0;
+  for (let i = element.dataStart; i < element.end; i++) {
+    value = value * 256 + data[i];
+  }
+  return value;
+}
+
+/**
+ * Reads a 4- or 8-byte float element
+ */
+export function readFloat(data: Uint8Array, element: EbmlElement): number {
+  const view = new DataView(data.buffer, data.byteOffset + element.dataStart, element.end - element.dataStart);
+  if (view.byteLength === 4) {
+    return view.getFloat32(0);
+  }
+  return view.byteLength === 8 ? view.getFloat64(0) : 0;
+}
+
+/**
+ * Reads an ASCII or UTF-8 string element, dropping trailing padding
+ */
+export function readString(data: Uint8Array, element: EbmlElement): string {
+  return new TextDecoder().decode(data.subarray(element.dataStart, element.end)).replace(/\0+$/, '');
+}
+
+/**
+ * Encodes an element ID and an 8-byte size field, for rewriting elements of unknown size
+ */
+export function encodeElementHeader(id: number, size: number | null): Uint8Array {
+  const idBytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    idBytes.unshift(value & 0xff);
+  }
+
+  const sizeBytes = new Uint8Array(8);
+  if (size === null) {
+    sizeBytes.set([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+  } else {
+    let remaining = size;
+    for (let i = 7; i > 0; i--) {
+      sizeBytes[i] = remaining % 256;
+      remaining = Math.floor(remaining / 256);
+    }
+    sizeBytes[0] = 0x01;
+  }
+
+  return Uint8Array.from([...idBytes, ...sizeBytes]);
+}
+
+/**
+ * Reads a variable-length integer
+ * @param keepMarker - Keep the length marker bit, as element IDs do
+ */
+export function readVint(
+  data: Uint8Array,
+  offset: number,
+  end: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } {
+  const first = offset < end ? data[offset] : 0;
+  if (first === 0) {
+    throw new Error(`Invalid EBML variable-length integer at offset ${offset}`);
+  }
+
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) {
+    length++;
+  }
+  if (offset + length > end) {
+    throw new Error(`Truncated EBML variable-length integer at offset ${offset}`);
+  }
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    allOnes = allOnes && data[offset + i] === 0xff;
+  }
+
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+/**
+ * Finds where an element of unknown size ends: at the next element that cannot be its child
+ */
+function findUnknownSizeEnd(data: Uint8Array, id: number, dataStart: number, end: number): number {
+  if (id === EbmlId.Segment) {
+    return end;
+  }
+
+  let offset = dataStart;
+  while (offset < end) {
+    const child = readVint(data, offset, end, true);
+    if (SEGMENT_CHILDREN.has(child.value)) {
+      return offset;
+    }
+    const size = readVint(data, offset + child.length, end, false);
+    if (size.unknown) {
+      return end;
+    }
+    offset += child.length + size.length + size.value;
+  }
+  return Math.min(offset, end);
+}
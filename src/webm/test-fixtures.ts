@@ -0,0 +1,121 @@
+import { BoxContent, concatBytes, toArrayBuffer } from '../mp4/writer';
+import { EbmlId, encodeElementHeader } from './ebml';
+
+/**
+ * Builders for small WebM files used by the tests; not part of the published build
+ */
+
+/**
+ * Track of a fixture file
+ */
+export interface FixtureWebMTrack {
+  number: number;
+  /** Matroska TrackType: 1 for video, 2 for audio */
+  type: 1 | 2;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  width?: number;
+  height?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+/**
+ * Cluster of a fixture file; each block is a SimpleBlock of `size` frame bytes, or with `group` a BlockGroup
+ * whose non-keyframes carry a ReferenceBlock
+ */
+export interface FixtureCluster {
+  timecode: number;
+  blocks: Array<{ track: number; timecode: number; keyframe?: boolean; size?: number; group?: boolean }>;
+}
+
+export interface FixtureWebM {
+  tracks: FixtureWebMTrack[];
+  clusters: FixtureCluster[];
+  /** Segment duration in timecode units; left out when undefined */
+  duration?: number;
+  /** Write clusters with the unknown size used by live muxers */
+  unknownSizeClusters?: boolean;
+}
+
+/**
+ * Builds an EBML element of known size
+ */
+export function element(id: number, ...content: BoxContent[]): Uint8Array {
+  const payload = concatBytes(content);
+  return concatBytes([encodeElementHeader(id, payload.byteLength), payload]);
+}
+
+/**
+ * Builds a WebM file: EBML header, then a Segment with Info, Tracks and the clusters
+ * Timecodes are in milliseconds, the default TimecodeScale
+ */
+export function buildWebM(file: FixtureWebM): ArrayBuffer {
+  const header = element(EbmlId.EBML, element(0x4282, text('webm')));
+  const info = element(
+    EbmlId.Info,
+    element(EbmlId.TimecodeScale, uint(1000000)),
+    file.duration !== undefined ? element(EbmlId.Duration, float(file.duration)) : []
+  );
+  const tracks = element(EbmlId.Tracks, file.tracks.map(buildTrackEntry));
+  const clusters = file.clusters.map((cluster) => {
+    const payload = concatBytes([element(EbmlId.Timecode, uint(cluster.timecode)), cluster.blocks.map(buildBlock)]);
+    return file.unknownSizeClusters
+      ? concatBytes([encodeElementHeader(EbmlId.Cluster, null), payload])
+      : element(EbmlId.Cluster, payload);
+  });
+
+  return toArrayBuffer(concatBytes([header, element(EbmlId.Segment, info, tracks, clusters)]));
+}
+
+function buildTrackEntry(track: FixtureWebMTrack): Uint8Array {
+  const video = track.width !== undefined && track.height !== undefined
+    ? element(EbmlId.Video, element(EbmlId.PixelWidth, uint(track.width)), element(EbmlId.PixelHeight, uint(track.height)))
+    : [];
+  const audio = track.sampleRate !== undefined
+    ? element(EbmlId.Audio, element(EbmlId.SamplingFrequency, float(track.sampleRate)), element(EbmlId.Channels, uint(track.channels ?? 2)))
+    : [];
+  return element(
+    EbmlId.TrackEntry,
+    element(EbmlId.TrackNumber, uint(track.number)),
+    element(EbmlId.TrackType, uint(track.type)),
+    element(EbmlId.CodecID, text(track.codecId)),
+    track.codecPrivate ? element(EbmlId.CodecPrivate, track.codecPrivate) : [],
+    video,
+    audio
+  );
+}
+
+function buildBlock(block: FixtureCluster['blocks'][number]): Uint8Array {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | block.track;
+  new DataView(header.buffer).setInt16(1, block.timecode);
+  if (block.group) {
+    // Block flags carry no keyframe bit; a ReferenceBlock to the previous frame marks non-keyframes
+    return element(
+      EbmlId.BlockGroup,
+      element(EbmlId.Block, header, new Uint8Array(block.size ?? 8)),
+      block.keyframe ? [] : element(EbmlId.ReferenceBlock, Uint8Array.of(0xff))
+    );
+  }
+  header[3] = block.keyframe ? 0x80 : 0x00;
+  return element(EbmlId.SimpleBlock, header, new Uint8Array(block.size ?? 8));
+}
+
+function uint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return Uint8Array.from(bytes.length > 0 ? bytes : [0]);
+}
+
+function float(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+function text(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { EbmlId, readElements } from './ebml';
+import { buildWebM, FixtureCluster, FixtureWebM, FixtureWebMTrack } from './test-fixtures';
+import {
+  detectWebMCodecs,
+  detectWebMMimeType,
+  indexWebMBlob,
+  isWebM,
+  probeWebM,
+  probeWebMBlob,
+  readClusterStartTime,
+  splitWebM,
+} from './webm';
+
+const VP9: FixtureWebMTrack = { number: 1, type: 1, codecId: 'V_VP9', width: 640, height: 360 };
+const OPUS: FixtureWebMTrack = { number: 2, type: 2, codecId: 'A_OPUS', sampleRate: 48000, channels: 2 };
+
+/**
+ * One cluster per second: a 100-byte keyframe and a 50-byte frame of video, and two 20-byte audio frames
+ */
+function clusters(count: number): FixtureCluster[] {
+  return Array.from({ length: count }, (_, i) => ({
+    timecode: i * 1000,
+    blocks: [
+      { track: 1, timecode: 0, keyframe: true, size: 100 },
+      { track: 2, timecode: 0, keyframe: true, size: 20 },
+      { track: 1, timecode: 500, size: 50 },
+      { track: 2, timecode: 500, keyframe: true, size: 20 },
+    ],
+  }));
+}
+
+function file(overrides: Partial<FixtureWebM> = {}): ArrayBuffer {
+  return buildWebM({ tracks: [VP9, OPUS], clusters: clusters(3), duration: 3000, ...overrides });
+}
+
+describe('splitWebM', () => {
+  it('returns an init segment with an unknown-size Segment and one buffer per cluster', () => {
+    const split = splitWebM(file());
+    const init = new Uint8Array(split.init);
+    const [header, segment] = readElements(init);
+
+    expect(isWebM(init)).toBe(true);
+    expect(header.id).toBe(EbmlId.EBML);
+    expect(segment).toMatchObject({ id: EbmlId.Segment, unknownSize: true });
+    expect(readElements(init, segment.dataStart).map((element) => element.id)).toEqual([EbmlId.Info, EbmlId.Tracks]);
+    expect(split.clusters).toHaveLength(3);
+  });
+
+  it('gives clusters of unknown size their real size', () => {
+    const split = splitWebM(file({ unknownSizeClusters: true }));
+
+    expect(split.clusters).toHaveLength(3);
+    for (const cluster of split.clusters) {
+      const elements = readElements(new Uint8Array(cluster));
+      expect(elements).toEqual([expect.objectContaining({ id: EbmlId.Cluster, unknownSize: false, end: cluster.byteLength })]);
+    }
+  });
+
+  it('rejects files that are not WebM or have no clusters', () => {
+    expect(() => splitWebM(new Uint8Array([0, 0, 0, 1]).buffer)).toThrow('missing EBML header');
+    expect(() => splitWebM(file({ clusters: [] }))).toThrow('no clusters');
+  });
+});
+
+describe('detectWebMCodecs', () => {
+  it('maps CodecIDs to the codec strings of WebM MIME types', () => {
+    expect(detectWebMCodecs(file())).toEqual(['vp9', 'opus']);
+    expect(detectWebMMimeType(file())).toBe('video/webm; codecs="vp9,opus"');
+    expect(detectWebMMimeType(file({ tracks: [OPUS] }))).toBe('audio/webm; codecs="opus"');
+  });
+
+  it('reads the full AV1 codec string from CodecPrivate', () => {
+    const av1 = { ...VP9, codecId: 'V_AV1', codecPrivate: Uint8Array.of(0x81, 0x08, 0x40, 0x00) };
+    expect(detectWebMMimeType(file({ tracks: [av1] }))).toBe('video/webm; codecs="av01.0.08M.10"');
+    expect(detectWebMCodecs(file({ tracks: [{ ...av1, codecPrivate: undefined }] }))).toEqual(['av01']);
+  });
+});
+
+describe('probeWebM', () => {
+  it('reads duration, size, tracks, bitrates and keyframes', () => {
+    const info = probeWebM(file());
+
+    expect(info).toMatchObject({
+      duration: 3,
+      width: 640,
+      height: 360,
+      mimeType: 'video/webm; codecs="vp9,opus"',
+      keyframes: [0, 1, 2],
+    });
+    // SimpleBlock payloads include the 4-byte block header
+    expect(info.tracks).toEqual([
+      { id: 1, kind: 'video', codec: 'vp9', duration: 3, bitrate: 1264, width: 640, height: 360 },
+      { id: 2, kind: 'audio', codec: 'opus', duration: 3, bitrate: 384, sampleRate: 48000, channels: 2 },
+    ]);
+  });
+
+  it('falls back to the last block timecode without a Duration', () => {
+    expect(probeWebM(file({ duration: undefined })).duration).toBe(2.5);
+  });
+
+  it('counts a BlockGroup as a keyframe only without a ReferenceBlock', () => {
+    const grouped = clusters(3).map((cluster) => ({
+      ...cluster,
+      blocks: cluster.blocks.map((block) => (block.track === 1 ? { ...block, group: true } : block)),
+    }));
+    const info = probeWebM(file({ clusters: grouped }));
+
+    expect(info.keyframes).toEqual([0, 1, 2]);
+    expect(info.tracks[0].bitrate).toBe(1264);
+  });
+});
+
+describe('probeWebMBlob', () => {
+  it('reads the same facts as probeWebM without reading frame data', async () => {
+    const large = clusters(3).map((cluster) => ({
+      ...cluster,
+      blocks: cluster.blocks.map((block) => (block.keyframe && block.track === 1 ? { ...block, size: 10000 } : block)),
+    }));
+    for (const buffer of [file(), file({ clusters: large, unknownSizeClusters: true, duration: undefined })]) {
+      expect(await probeWebMBlob(new Blob([buffer]))).toEqual(probeWebM(buffer));
+    }
+  });
+
+  it('returns null for other files', async () => {
+    expect(await probeWebMBlob(new Blob(['not a media file']))).toBeNull();
+  });
+});
+
+describe('indexWebMBlob', () => {
+  it('indexes clusters by byte range and reads their start times', async () => {
+    const buffer = file();
+    const blob = new Blob([buffer]);
+    const index = (await indexWebMBlob(blob))!;
+
+    expect(new Uint8Array(index.init)).toEqual(new Uint8Array(splitWebM(buffer).init));
+    expect(index.chunks).toHaveLength(3);
+    expect(index.chunks[2].end).toBe(buffer.byteLength);
+    const starts = await Promise.all(index.chunks.map((range) => readClusterStartTime(blob, range, index.init)));
+    expect(starts).toEqual([0, 1, 2]);
+  });
+
+  it('returns null for clusters of unknown size and for other files', async () => {
+    expect(await indexWebMBlob(new Blob([file({ unknownSizeClusters: true })]))).toBeNull();
+    expect(await indexWebMBlob(new Blob(['not a media file']))).toBeNull();
+  });
+});
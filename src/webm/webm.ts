@@ -0,0 +1,510 @@
+import { formatAv1Codec, formatMimeType } from '../codec-strings';
+import { concatBytes, toArrayBuffer } from '../mp4/writer';
+import { ByteRange, MediaChunkIndex, MediaInfo, MediaTrackInfo } from '../types/media';
+import {
+  EbmlElement,
+  EbmlId,
+  encodeElementHeader,
+  findElement,
+  isSegmentChild,
+  readChildElements,
+  readElements,
+  readFloat,
+  readString,
+  readUint,
+  readVint,
+} from './ebml';
+
+/**
+ * WebM file split into what MSE expects: one initialization segment followed by media segments
+ */
+export interface SplitWebM {
+  /** EBML header, Segment header, Info and Tracks */
+  init: ArrayBuffer;
+  /** One entry per Cluster */
+  clusters: ArrayBuffer[];
+}
+
+/**
+ * Default TimecodeScale: timecodes are in milliseconds
+ */
+const DEFAULT_TIMECODE_SCALE = 1000000;
+
+/**
+ * Bytes read at once when walking element headers of a blob; runs of small elements cost one read
+ */
+const READ_WINDOW_BYTES = 4096;
+
+/**
+ * Bytes at the start of a block payload that cover its header: track number, timecode and flags
+ */
+const BLOCK_HEADER_BYTES = 11;
+
+/**
+ * Block of a cluster, as far as probing needs it
+ */
+interface BlockSummary {
+  track: number;
+  /** Absolute timecode, in TimecodeScale units */
+  timecode: number;
+  keyframe: boolean;
+  /** Payload size, including the block header */
+  bytes: number;
+}
+
+/**
+ * Checks whether a buffer starts with an EBML header
+ */
+export function isWebM(data: Uint8Array): boolean {
+  return data.byteLength >= 4 && data[0] === 0x1a && data[1] === 0x45 && data[2] === 0xdf && data[3] === 0xa3;
+}
+
+/**
+ * Splits a WebM file into its initialization segment and clusters
+ * The Segment is re-declared with an unknown size and clusters of unknown size get their real size,
+ * so each part can be appended on its own
+ * @throws Error when the file is not WebM or has no Tracks or Clusters
+ */
+export function splitWebM(buffer: ArrayBuffer): SplitWebM {
+  const data = new Uint8Array(buffer);
+  const { header, segment, children } = readWebM(data);
+
+  const info = findElement(children, EbmlId.Info);
+  const tracks = findElement(children, EbmlId.Tracks);
+  if (!info || !tracks) {
+    throw new Error(`WebM file is missing its ${info ? 'Tracks' : 'Info'} element`);
+  }
+
+  const clusters = children.filter((element) => element.id === EbmlId.Cluster);
+  if (clusters.length === 0) {
+    throw new Error('WebM file contains no clusters');
+  }
+
+  const init = concatBytes([
+    data.subarray(header.start, header.end),
+    encodeElementHeader(segment.id, null),
+    data.subarray(info.start, info.end),
+    data.subarray(tracks.start, tracks.end),
+  ]);
+
+  return {
+    init: toArrayBuffer(init),
+    clusters: clusters.map((cluster) =>
+      toArrayBuffer(
+        concatBytes([
+          encodeElementHeader(cluster.id, cluster.end - cluster.dataStart),
+          data.subarray(cluster.dataStart, cluster.end),
+        ])
+      )
+    ),
+  };
+}
+
+/**
+ * Indexes the clusters of a WebM blob without reading its media data
+ * Only the EBML header, Info and Tracks are read, to build the init segment
+ * @returns null for blobs that are not WebM, and for clusters of unknown size, which can only be
+ * found by reading through them
+ */
+export async function indexWebMBlob(blob: Blob): Promise<MediaChunkIndex | null> {
+  const reader = new BlobReader(blob);
+  const header = await readBlobElement(reader, 0, blob.size);
+  if (!header || header.id !== EbmlId.EBML) {
+    return null;
+  }
+  const segment = await readBlobElement(reader, header.end, blob.size);
+  if (!segment || segment.id !== EbmlId.Segment) {
+    return null;
+  }
+
+  const end = segment.unknownSize ? blob.size : Math.min(segment.end, blob.size);
+  const parts: EbmlElement[] = [];
+  const chunks: ByteRange[] = [];
+  for (let offset = segment.dataStart; offset < end; ) {
+    const element = await readBlobElement(reader, offset, end);
+    if (!element || element.unknownSize) {
+      return null;
+    }
+    if (element.id === EbmlId.Info || element.id === EbmlId.Tracks) {
+      parts.push(element);
+    } else if (element.id === EbmlId.Cluster) {
+      chunks.push({ start: element.start, end: element.end });
+    }
+    offset = element.end;
+  }
+  if (parts.length < 2 || chunks.length === 0) {
+    return null;
+  }
+
+  const read = async (element: EbmlElement) => new Uint8Array(await blob.slice(element.start, element.end).arrayBuffer());
+  const init = concatBytes([
+    await read(header),
+    encodeElementHeader(EbmlId.Segment, null),
+    ...(await Promise.all(parts.map(read))),
+  ]);
+  return { init: toArrayBuffer(init), chunks };
+}
+
+/**
+ * Reads when a cluster of an indexed blob starts, in seconds, from its Timecode element
+ * Only the cluster's first elements are read; the TimecodeScale comes from the init segment
+ * @returns null when the cluster has no Timecode ahead of its blocks
+ */
+export async function readClusterStartTime(blob: Blob, range: ByteRange, init: ArrayBuffer): Promise<number | null> {
+  const reader = new BlobReader(blob);
+  const cluster = await readBlobElement(reader, range.start, range.end);
+  if (!cluster || cluster.id !== EbmlId.Cluster) {
+    return null;
+  }
+
+  for (let offset = cluster.dataStart; offset < cluster.end; ) {
+    const element = await readBlobElement(reader, offset, cluster.end);
+    if (!element || element.id === EbmlId.SimpleBlock || element.id === EbmlId.BlockGroup) {
+      return null;
+    }
+    if (element.id === EbmlId.Timecode) {
+      const timecode = await readBlobUint(reader, element);
+
+      const initData = new Uint8Array(init);
+      const info = findElement(readWebM(initData).children, EbmlId.Info);
+      const timecodeScale = readTimecodeScale(initData, info ? readChildElements(initData, info) : []);
+      return (timecode * timecodeScale) / 1e9;
+    }
+    offset = element.end;
+  }
+  return null;
+}
+
+/**
+ * Reads the codec strings of a WebM file's tracks, e.g. `['vp9', 'opus']`
+ */
+export function detectWebMCodecs(buffer: ArrayBuffer): string[] {
+  const data = new Uint8Array(buffer);
+  const { children } = readWebM(data);
+  const tracks = findElement(children, EbmlId.Tracks);
+  if (!tracks) {
+    return [];
+  }
+
+  return readTrackEntries(data, tracks).flatMap((track) => (track.codec ? [track.codec] : []));
+}
+
+/**
+ * Builds the full MIME type of a WebM file, e.g. `video/webm; codecs="vp9,opus"`
+ * @returns null when no codec could be identified
+ */
+export function detectWebMMimeType(buffer: ArrayBuffer): string | null {
+  return formatMimeType('webm', detectWebMCodecs(buffer));
+}
+
+/**
+ * Reads duration, dimensions, codecs, bitrates and the keyframe index of a WebM file
+ * @throws Error when the file is not WebM or is malformed
+ */
+export function probeWebM(buffer: ArrayBuffer): MediaInfo {
+  const data = new Uint8Array(buffer);
+  const { children } = readWebM(data);
+
+  const blocks: BlockSummary[] = [];
+  for (const cluster of children.filter((element) => element.id === EbmlId.Cluster)) {
+    const clusterChildren = readChildElements(data, cluster);
+    const timecodeElement = findElement(clusterChildren, EbmlId.Timecode);
+    const clusterTimecode = timecodeElement ? readUint(data, timecodeElement) : 0;
+
+    for (const child of clusterChildren) {
+      const groupChildren = child.id === EbmlId.BlockGroup ? readChildElements(data, child) : [];
+      const block = child.id === EbmlId.BlockGroup ? findElement(groupChildren, EbmlId.Block) : child;
+      if (!block || (block.id !== EbmlId.SimpleBlock && block.id !== EbmlId.Block)) {
+        continue;
+      }
+      const referenced = findElement(groupChildren, EbmlId.ReferenceBlock) !== null;
+      blocks.push(summarizeBlock(data.subarray(block.dataStart, block.end), block, clusterTimecode, referenced));
+    }
+  }
+
+  return summarizeWebM(data, children, blocks);
+}
+
+/**
+ * Probes a WebM blob, reading its Info and Tracks and the headers of its blocks but no frame data
+ * @returns null for blobs that are not WebM
+ * @throws Error when the file has no Segment
+ */
+export async function probeWebMBlob(blob: Blob): Promise<MediaInfo | null> {
+  const reader = new BlobReader(blob);
+  const header = await readBlobElement(reader, 0, blob.size);
+  if (!header || header.id !== EbmlId.EBML) {
+    return null;
+  }
+  const segment = await readBlobElement(reader, header.end, blob.size);
+  if (!segment || segment.id !== EbmlId.Segment) {
+    throw new Error('WebM file is missing its Segment element');
+  }
+
+  const end = Math.min(segment.end, blob.size);
+  const parts: Uint8Array[] = [];
+  const blocks: BlockSummary[] = [];
+  for (let offset = segment.dataStart; offset < end; ) {
+    const element = await readBlobElement(reader, offset, end);
+    if (!element) {
+      break;
+    }
+    if (element.id === EbmlId.Cluster) {
+      offset = await readClusterBlocks(reader, element, blocks);
+      continue;
+    }
+    if (element.id === EbmlId.Info || element.id === EbmlId.Tracks) {
+      parts.push(new Uint8Array(await blob.slice(element.start, element.end).arrayBuffer()));
+    }
+    offset = element.end;
+  }
+
+  const data = concatBytes(parts);
+  return summarizeWebM(data, readElements(data), blocks);
+}
+
+/**
+ * Reads the block headers of a cluster of a blob, leaving the frame data unread
+ * @returns Where the cluster ends; for a cluster of unknown size, where the next top-level element starts
+ */
+async function readClusterBlocks(reader: BlobReader, cluster: EbmlElement, blocks: BlockSummary[]): Promise<number> {
+  let clusterTimecode = 0;
+  let offset = cluster.dataStart;
+  while (offset < cluster.end) {
+    const child = await readBlobElement(reader, offset, cluster.end);
+    if (!child || isSegmentChild(child.id)) {
+      break;
+    }
+
+    if (child.id === EbmlId.Timecode) {
+      clusterTimecode = await readBlobUint(reader, child);
+    } else if (child.id === EbmlId.SimpleBlock) {
+      blocks.push(summarizeBlock(await readBlockHeader(reader, child), child, clusterTimecode, false));
+    } else if (child.id === EbmlId.BlockGroup) {
+      let block: EbmlElement | null = null;
+      let referenced = false;
+      for (let groupOffset = child.dataStart; groupOffset < child.end; ) {
+        const element = await readBlobElement(reader, groupOffset, child.end);
+        if (!element) {
+          break;
+        }
+        block = element.id === EbmlId.Block ? element : block;
+        referenced = referenced || element.id === EbmlId.ReferenceBlock;
+        groupOffset = element.end;
+      }
+      if (block) {
+        blocks.push(summarizeBlock(await readBlockHeader(reader, block), block, clusterTimecode, referenced));
+      }
+    }
+    offset = child.end;
+  }
+  return offset;
+}
+
+function readBlockHeader(reader: BlobReader, block: EbmlElement): Promise<Uint8Array> {
+  return reader.read(block.dataStart, Math.min(block.end, block.dataStart + BLOCK_HEADER_BYTES));
+}
+
+/**
+ * Reads a SimpleBlock, or the Block of a BlockGroup, from the start of its payload
+ * @param referenced - Whether the Block's BlockGroup has a ReferenceBlock, which makes it depend on
+ * other frames; SimpleBlocks carry a keyframe flag instead
+ */
+function summarizeBlock(header: Uint8Array, block: EbmlElement, clusterTimecode: number, referenced: boolean): BlockSummary {
+  const track = readVint(header, 0, header.byteLength, false);
+  const relative = new DataView(header.buffer, header.byteOffset + track.length, 2).getInt16(0);
+  const flags = header[track.length + 2];
+  return {
+    track: track.value,
+    timecode: clusterTimecode + relative,
+    keyframe: block.id === EbmlId.SimpleBlock ? (flags & 0x80) !== 0 : !referenced,
+    bytes: block.end - block.dataStart,
+  };
+}
+
+/**
+ * Builds the media facts of a WebM file from its Segment's Info and Tracks and its blocks
+ * @param children - Elements holding at least Info and Tracks
+ */
+function summarizeWebM(data: Uint8Array, children: EbmlElement[], blocks: BlockSummary[]): MediaInfo {
+  const info = findElement(children, EbmlId.Info);
+  const infoChildren = info ? readChildElements(data, info) : [];
+  const timecodeScale = readTimecodeScale(data, infoChildren);
+  const toSeconds = (timecode: number) => (timecode * timecodeScale) / 1e9;
+
+  const tracksElement = findElement(children, EbmlId.Tracks);
+  const entries = tracksElement ? readTrackEntries(data, tracksElement) : [];
+  const videoTrack = entries.find((entry) => entry.info.kind === 'video');
+
+  // Per-track sizes, the keyframe index and the end of the last frame
+  const bytesByTrack = new Map<number, number>();
+  const keyframes: number[] = [];
+  let lastTimecode = 0;
+  for (const block of blocks) {
+    bytesByTrack.set(block.track, (bytesByTrack.get(block.track) ?? 0) + block.bytes);
+    lastTimecode = Math.max(lastTimecode, block.timecode);
+    if (videoTrack && block.track === videoTrack.number && block.keyframe) {
+      keyframes.push(toSeconds(block.timecode));
+    }
+  }
+
+  const durationElement = findElement(infoChildren, EbmlId.Duration);
+  const duration = durationElement ? toSeconds(readFloat(data, durationElement)) : toSeconds(lastTimecode);
+  const tracks = entries.map((entry) => ({
+    ...entry.info,
+    duration,
+    bitrate: duration > 0 ? Math.round(((bytesByTrack.get(entry.number) ?? 0) * 8) / duration) : 0,
+  }));
+  const codecs = tracks.flatMap((track) => (track.codec ? [track.codec] : []));
+
+  return {
+    duration,
+    width: videoTrack?.info.width,
+    height: videoTrack?.info.height,
+    bitrate: tracks.reduce((total, track) => total + track.bitrate, 0),
+    mimeType: formatMimeType('webm', codecs),
+    tracks,
+    keyframes,
+  };
+}
+
+/**
+ * Reads the TimecodeScale of a Segment from the children of its Info element
+ */
+function readTimecodeScale(data: Uint8Array, infoChildren: EbmlElement[]): number {
+  const scaleElement = findElement(infoChildren, EbmlId.TimecodeScale);
+  return scaleElement ? readUint(data, scaleElement) : DEFAULT_TIMECODE_SCALE;
+}
+
+function readWebM(data: Uint8Array): { header: EbmlElement; segment: EbmlElement; children: EbmlElement[] } {
+  if (!isWebM(data)) {
+    throw new Error('Not a WebM file: missing EBML header');
+  }
+
+  const topLevel = readElements(data);
+  const header = topLevel[0];
+  const segment = findElement(topLevel, EbmlId.Segment);
+  if (!segment) {
+    throw new Error('WebM file is missing its Segment element');
+  }
+
+  return { header, segment, children: readChildElements(data, segment) };
+}
+
+interface TrackEntry {
+  number: number;
+  codec: string | null;
+  info: Omit<MediaTrackInfo, 'duration' | 'bitrate'>;
+}
+
+function readTrackEntries(data: Uint8Array, tracks: EbmlElement): TrackEntry[] {
+  return readChildElements(data, tracks)
+    .filter((element) => element.id === EbmlId.TrackEntry)
+    .map((element) => {
+      const children = readChildElements(data, element);
+      const uint = (id: number) => {
+        const child = findElement(children, id);
+        return child ? readUint(data, child) : undefined;
+      };
+
+      const number = uint(EbmlId.TrackNumber) ?? 0;
+      const type = uint(EbmlId.TrackType);
+      const codecId = findElement(children, EbmlId.CodecID);
+      const codecPrivate = findElement(children, EbmlId.CodecPrivate);
+      const privateData = codecPrivate ? data.subarray(codecPrivate.dataStart, codecPrivate.end) : null;
+      const codec = codecId ? toCodecString(readString(data, codecId), privateData) : null;
+      const kind = type === 1 ? 'video' : type === 2 ? 'audio' : 'other';
+      const info: TrackEntry['info'] = { id: number, kind, codec };
+
+      const video = findElement(children, EbmlId.Video);
+      if (video) {
+        const videoChildren = readChildElements(data, video);
+        const size = (displayId: number, pixelId: number) => {
+          const child = findElement(videoChildren, displayId) ?? findElement(videoChildren, pixelId);
+          return child ? readUint(data, child) : undefined;
+        };
+        info.width = size(EbmlId.DisplayWidth, EbmlId.PixelWidth);
+        info.height = size(EbmlId.DisplayHeight, EbmlId.PixelHeight);
+      }
+
+      const audio = findElement(children, EbmlId.Audio);
+      if (audio) {
+        const audioChildren = readChildElements(data, audio);
+        const frequency = findElement(audioChildren, EbmlId.SamplingFrequency);
+        const channels = findElement(audioChildren, EbmlId.Channels);
+        info.sampleRate = frequency ? readFloat(data, frequency) : 8000;
+        info.channels = channels ? readUint(data, channels) : 1;
+      }
+
+      return { number, codec, info };
+    });
+}
+
+/**
+ * Maps a Matroska CodecID to the codec string used in WebM MIME types
+ * AV1 carries an av1C record in CodecPrivate, which gives the full `av01.P.LLT.DD` string
+ */
+function toCodecString(codecId: string, codecPrivate: Uint8Array | null): string | null {
+  switch (codecId) {
+    case 'V_VP8':
+      return 'vp8';
+    case 'V_VP9':
+      return 'vp9';
+    case 'V_AV1':
+      return (codecPrivate && formatAv1Codec(codecPrivate)) ?? 'av01';
+    case 'A_OPUS':
+      return 'opus';
+    case 'A_VORBIS':
+      return 'vorbis';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads byte ranges of a blob through a cached window, so element headers that sit close together cost one read
+ */
+class BlobReader {
+  private windowStart = 0;
+  private window = new Uint8Array(0);
+
+  constructor(private readonly blob: Blob) {}
+
+  /**
+   * @returns The bytes of [start, end), fewer when the blob ends first
+   */
+  async read(start: number, end: number): Promise<Uint8Array> {
+    if (start < this.windowStart || end > this.windowStart + this.window.byteLength) {
+      const windowEnd = Math.max(end, start + READ_WINDOW_BYTES);
+      this.window = new Uint8Array(await this.blob.slice(start, windowEnd).arrayBuffer());
+      this.windowStart = start;
+    }
+    return this.window.subarray(start - this.windowStart, end - this.windowStart);
+  }
+}
+
+/**
+ * Reads the element header at `offset` of a blob; the element must end by `end`
+ * @returns null when the header is malformed or the element runs past `end`
+ */
+async function readBlobElement(reader: BlobReader, offset: number, end: number): Promise<EbmlElement | null> {
+  // 12 bytes cover a 4-byte ID and an 8-byte size
+  const header = await reader.read(offset, Math.min(end, offset + 12));
+  try {
+    const id = readVint(header, 0, header.byteLength, true);
+    const size = readVint(header, id.length, header.byteLength, false);
+    const dataStart = offset + id.length + size.length;
+    const elementEnd = size.unknown ? end : dataStart + size.value;
+    if (elementEnd > end) {
+      return null;
+    }
+    return { id: id.value, start: offset, dataStart, end: elementEnd, unknownSize: size.unknown };
+  } catch {
+    return null;
+  }
+}
+
+async function readBlobUint(reader: BlobReader, element: EbmlElement): Promise<number> {
+  const data = await reader.read(element.dataStart, element.end);
+  return readUint(data, { ...element, start: 0, dataStart: 0, end: data.byteLength });
+}
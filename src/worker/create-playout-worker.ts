@@ -0,0 +1,7 @@
+/**
+ * Creates the bundled playout worker
+ * Kept out of the modules the worker imports, so the worker's bundle does not reference its own chunk
+ */
+export function createPlayoutWorker(): Worker {
+  return new Worker(new URL('./playout-worker.ts', import.meta.url), { type: 'module' });
+}
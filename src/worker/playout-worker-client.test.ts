@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PlayoutBufferEvents } from '../playout-buffer';
+import type { EventMessage } from '../event-emitter';
+import { FakeMediaEnvironment, fakeMediaData } from '../testing';
+import { PlayoutWorkerClient } from './playout-worker-client';
+import { WorkerRequest, WorkerResponse } from './protocol';
+
+/**
+ * Worker stand-in that records posted messages and lets the test answer them
+ */
+class FakeWorker {
+  readonly posted: Array<{ request: WorkerRequest; transfer: Transferable[] }> = [];
+  private listener: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+
+  postMessage(request: WorkerRequest, transfer: Transferable[] = []): void {
+    this.posted.push({ request, transfer });
+  }
+
+  addEventListener(_type: 'message', listener: (event: MessageEvent<WorkerResponse>) => void): void {
+    this.listener = listener;
+  }
+
+  removeEventListener(): void {
+    this.listener = null;
+  }
+
+  respond(response: WorkerResponse): void {
+    this.listener?.({ data: response } as MessageEvent<WorkerResponse>);
+  }
+}
+
+function setup() {
+  const worker = new FakeWorker();
+  const video = new FakeMediaEnvironment().createVideoElement();
+  const onEvent = vi.fn<(message: EventMessage<PlayoutBufferEvents>) => void>();
+  const client = new PlayoutWorkerClient(
+    worker as unknown as Worker,
+    video as unknown as HTMLVideoElement,
+    {},
+    onEvent
+  );
+  return { worker, client, onEvent };
+}
+
+describe('PlayoutWorkerClient', () => {
+  it('transfers segment buffers to the worker instead of copying them', () => {
+    const { worker, client } = setup();
+    const data = fakeMediaData(1);
+    const init = new ArrayBuffer(8);
+
+    void client.append({ id: 1, data, variant: { stream_id: 'main', init } });
+    client.enqueue({ id: 2, data: init, variant: { stream_id: 'main', init } });
+
+    const [append, enqueue] = worker.posted.slice(-2);
+    expect(append.request.type).toBe('append');
+    expect(append.transfer).toEqual([data, init]);
+    // The same buffer is listed once
+    expect(enqueue.transfer).toEqual([init]);
+  });
+
+  it('does not transfer blobs', () => {
+    const { worker, client } = setup();
+    client.enqueue({ id: 1, blob: new Blob([fakeMediaData(1)]) });
+    expect(worker.posted[worker.posted.length - 1].transfer).toEqual([]);
+  });
+
+  it('settles appends and relays events posted back by the worker', async () => {
+    const { worker, client, onEvent } = setup();
+    const state = { queueLength: 0, queuedBytes: 0, lastSegmentId: 1, tracks: {} };
+    const appended = client.append({ id: 1, data: fakeMediaData(1) });
+    const { request } = worker.posted[worker.posted.length - 1];
+    if (request.type !== 'append') {
+      throw new Error(`Expected an append request, got ${request.type}`);
+    }
+
+    const event: EventMessage<PlayoutBufferEvents> = { name: 'trimmed', payload: { track: 'muxed', start: 0, end: 2 } };
+    worker.respond({ type: 'event', event, state });
+    worker.respond({ type: 'settled', requestId: request.requestId, state });
+
+    await appended;
+    expect(onEvent).toHaveBeenCalledWith(event);
+    expect(client.getBufferState()).toEqual(state);
+  });
+});
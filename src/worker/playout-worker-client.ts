@@ -0,0 +1,182 @@
+import type { EventMessage } from '../event-emitter';
+import type { PlayoutBufferEvents, PlayoutBufferState } from '../playout-buffer';
+import { Segment, TrackType } from '../types/segment';
+import {
+  MediaElementSnapshot,
+  WorkerPlayoutBufferOptions,
+  WorkerRequest,
+  WorkerResponse,
+} from './protocol';
+
+/**
+ * Media element events mirrored into the worker
+ */
+const MIRRORED_EVENTS = ['timeupdate', 'waiting', 'playing', 'pause', 'seeked'] as const;
+
+/**
+ * Returns true when this browser can run a MediaSource inside a dedicated worker
+ */
+export function supportsWorkerMediaSource(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof MediaSource !== 'undefined' &&
+    typeof MediaSourceHandle !== 'undefined' &&
+    MediaSource.canConstructInDedicatedWorker === true
+  );
+}
+
+/**
+ * Main-thread side of a PlayoutBuffer running in a dedicated worker
+ * Attaches the worker's MediaSource handle to the video element, mirrors playback state
+ * into the worker and relays requests, results and events
+ */
+export class PlayoutWorkerClient {
+  private nextRequestId = 0;
+  private readonly pending = new Map<number, { resolve: () => void; reject: (error: unknown) => void }>();
+  private state: PlayoutBufferState = { queueLength: 0, queuedBytes: 0, lastSegmentId: null, tracks: {} };
+  private closed = false;
+  private readonly boundMessage = this.handleMessage.bind(this);
+  private readonly mediaListeners = new Map<string, () => void>();
+
+  constructor(
+    private readonly worker: Worker,
+    private readonly videoElement: HTMLVideoElement,
+    options: WorkerPlayoutBufferOptions,
+    private readonly onEvent: (message: EventMessage<PlayoutBufferEvents>) => void
+  ) {
+    this.worker.addEventListener('message', this.boundMessage);
+    for (const type of MIRRORED_EVENTS) {
+      const event = type === 'timeupdate' || type === 'waiting' ? type : undefined;
+      const listener = () => this.post({ type: 'media', media: this.snapshot(), event });
+      this.mediaListeners.set(type, listener);
+      this.videoElement.addEventListener(type, listener);
+    }
+    this.post({ type: 'init', options, media: this.snapshot() });
+  }
+
+  append(segment: Segment): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new Error('PlayoutBuffer closed'));
+    }
+
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.post({ type: 'append', requestId, segment }, getTransferList(segment));
+    });
+  }
+
+  enqueue(segment: Segment): void {
+    this.post({ type: 'enqueue', segment }, getTransferList(segment));
+  }
+
+  trim(start: number, end: number, track?: TrackType): void {
+    this.post({ type: 'trim', start, end, track });
+  }
+
+  endOfStream(): void {
+    this.post({ type: 'endOfStream' });
+  }
+
+  reset(): void {
+    this.post({ type: 'reset' });
+  }
+
+  getBufferState(): PlayoutBufferState {
+    return this.state;
+  }
+
+  /**
+   * Closes the worker's buffer and detaches it from the video element
+   * The worker shuts itself down once the close is processed
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.post({ type: 'close' });
+    this.closed = true;
+    for (const [type, listener] of this.mediaListeners) {
+      this.videoElement.removeEventListener(type, listener);
+    }
+    this.mediaListeners.clear();
+
+    const closedError = new Error('PlayoutBuffer closed');
+    for (const request of this.pending.values()) {
+      request.reject(closedError);
+    }
+    this.pending.clear();
+
+    this.videoElement.srcObject = null;
+    this.videoElement.load();
+  }
+
+  private post(request: WorkerRequest, transfer: Transferable[] = []) {
+    if (this.closed) {
+      return;
+    }
+    this.worker.postMessage(request, transfer);
+  }
+
+  private snapshot(): MediaElementSnapshot {
+    const buffered: Array<[number, number]> = [];
+    for (let i = 0; i < this.videoElement.buffered.length; i++) {
+      buffered.push([this.videoElement.buffered.start(i), this.videoElement.buffered.end(i)]);
+    }
+
+    return {
+      currentTime: this.videoElement.currentTime,
+      paused: this.videoElement.paused,
+      buffered,
+    };
+  }
+
+  private handleMessage(event: MessageEvent<WorkerResponse>) {
+    const response = event.data;
+    switch (response.type) {
+      case 'handle':
+        // MediaSourceHandle is a valid srcObject, the DOM typings do not list it yet
+        (this.videoElement as { srcObject: unknown }).srcObject = response.handle;
+        break;
+      case 'play':
+        this.videoElement.play().catch((error) => {
+          console.warn('Failed to resume playback after MediaSource rebuild', error);
+        });
+        break;
+      case 'settled': {
+        this.state = response.state;
+        const request = this.pending.get(response.requestId);
+        this.pending.delete(response.requestId);
+        if (!request) {
+          break;
+        }
+        if (response.error !== undefined) {
+          request.reject(response.error);
+        } else {
+          request.resolve();
+        }
+        break;
+      }
+      case 'event':
+        this.state = response.state;
+        this.onEvent(response.event);
+        if (response.event.name === 'closed') {
+          this.worker.removeEventListener('message', this.boundMessage);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Returns the buffers of a segment that are moved to the worker rather than copied
+ * Moving them detaches them on the main thread
+ */
+function getTransferList(segment: Segment): ArrayBuffer[] {
+  const buffers = [segment.data, segment.variant?.init].filter(
+    (buffer): buffer is ArrayBuffer => buffer !== undefined && buffer.byteLength > 0
+  );
+  // A buffer listed twice cannot be transferred
+  return [...new Set(buffers)];
+}
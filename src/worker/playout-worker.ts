@@ -0,0 +1,89 @@
+/**
+ * Dedicated worker entry that runs a PlayoutBuffer next to its MediaSource
+ * The main thread talks to it through PlayoutWorkerClient
+ */
+import { PlayoutBuffer } from '../playout-buffer';
+import { FORWARDED_EVENTS, WorkerRequest, WorkerResponse } from './protocol';
+import { WorkerMediaElement } from './worker-media-element';
+
+interface WorkerScope {
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+  close(): void;
+}
+
+/**
+ * MediaSource constructed in a dedicated worker exposes a transferable handle
+ */
+type WorkerMediaSource = MediaSource & { readonly handle: MediaSourceHandle };
+
+const scope = self as unknown as WorkerScope;
+const element = new WorkerMediaElement(() => scope.postMessage({ type: 'play' }));
+let buffer: PlayoutBuffer | null = null;
+
+const settle = (target: PlayoutBuffer, requestId: number, error?: unknown) => {
+  scope.postMessage({ type: 'settled', requestId, error, state: target.getBufferState() });
+};
+
+scope.addEventListener('message', (event) => {
+  const request = event.data;
+
+  if (request.type === 'init') {
+    if (buffer) {
+      return;
+    }
+
+    element.update(request.media);
+    const created = new PlayoutBuffer(element, {
+      ...request.options,
+      attachMediaSource: (mediaSource) => {
+        const handle = (mediaSource as unknown as WorkerMediaSource).handle;
+        scope.postMessage({ type: 'handle', handle }, [handle as unknown as Transferable]);
+      },
+    });
+    created.onEach(FORWARDED_EVENTS, (forwarded) => {
+      scope.postMessage({ type: 'event', event: forwarded, state: created.getBufferState() });
+    });
+    buffer = created;
+    return;
+  }
+
+  if (request.type === 'media') {
+    element.update(request.media, request.event);
+    return;
+  }
+
+  if (!buffer) {
+    console.warn('Playout worker received a request before init', request.type);
+    return;
+  }
+
+  switch (request.type) {
+    case 'append': {
+      const target = buffer;
+      target.append(request.segment).then(
+        () => settle(target, request.requestId),
+        (error) => settle(target, request.requestId, error)
+      );
+      break;
+    }
+    case 'enqueue':
+      buffer.enqueue(request.segment);
+      break;
+    case 'trim':
+      buffer.trim(request.start, request.end, request.track);
+      break;
+    case 'endOfStream':
+      buffer.endOfStream();
+      break;
+    case 'reset':
+      buffer.reset();
+      break;
+    case 'close':
+      buffer.close();
+      buffer = null;
+      // Let pending settle messages go out before the worker shuts down
+      setTimeout(() => scope.close(), 0);
+      break;
+  }
+});
@@ -0,0 +1,59 @@
+import type { EventMessage } from '../event-emitter';
+import type { PlayoutBufferEvents, PlayoutBufferState } from '../playout-buffer';
+import { Segment, TrackType } from '../types/segment';
+
+/**
+ * PlayoutBuffer options that can be posted to the worker
+ */
+export interface WorkerPlayoutBufferOptions {
+  mimeType?: string;
+  tracks?: Partial<Record<TrackType, string>>;
+  backBufferSeconds?: number;
+  maxQueuedBytes?: number;
+  maxQueuedSegments?: number;
+}
+
+/**
+ * Snapshot of the main-thread media element mirrored into the worker
+ */
+export interface MediaElementSnapshot {
+  currentTime: number;
+  paused: boolean;
+  buffered: Array<[number, number]>;
+}
+
+/**
+ * Messages posted from the main thread to the playout worker
+ */
+export type WorkerRequest =
+  | { type: 'init'; options: WorkerPlayoutBufferOptions; media: MediaElementSnapshot }
+  | { type: 'append'; requestId: number; segment: Segment }
+  | { type: 'enqueue'; segment: Segment }
+  | { type: 'trim'; start: number; end: number; track?: TrackType }
+  | { type: 'endOfStream' }
+  | { type: 'reset' }
+  | { type: 'close' }
+  | { type: 'media'; media: MediaElementSnapshot; event?: 'timeupdate' | 'waiting' };
+
+/**
+ * Messages posted from the playout worker to the main thread
+ * Every message that can change the buffer carries its latest state
+ */
+export type WorkerResponse =
+  | { type: 'handle'; handle: MediaSourceHandle }
+  | { type: 'settled'; requestId: number; error?: unknown; state: PlayoutBufferState }
+  | { type: 'event'; event: EventMessage<PlayoutBufferEvents>; state: PlayoutBufferState }
+  | { type: 'play' };
+
+/**
+ * PlayoutBuffer events forwarded from the worker to the main thread
+ */
+export const FORWARDED_EVENTS: Array<keyof PlayoutBufferEvents> = [
+  'sourceopen',
+  'segmentappended',
+  'trimmed',
+  'appenderror',
+  'quotaexceeded',
+  'endofstream',
+  'closed',
+];
@@ -0,0 +1,75 @@
+import { PlayoutMediaElement } from '../types/media-element';
+import { MediaElementSnapshot } from './protocol';
+
+/**
+ * Stand-in for the main-thread video element inside the playout worker
+ * Playback state is mirrored from snapshots posted by the main thread,
+ * and the main thread's timeupdate/waiting events are replayed to listeners
+ */
+export class WorkerMediaElement implements PlayoutMediaElement {
+  src = '';
+  private snapshot: MediaElementSnapshot = { currentTime: 0, paused: true, buffered: [] };
+  private readonly listeners = new Map<'timeupdate' | 'waiting', Set<() => void>>();
+
+  /**
+   * @param requestPlay - Asks the main thread to call play() on the real element
+   */
+  constructor(private readonly requestPlay: () => void) {}
+
+  get currentTime(): number {
+    return this.snapshot.currentTime;
+  }
+
+  set currentTime(_value: number) {
+    // Seeking is driven by the main thread, PlayoutBuffer only reads the playhead
+  }
+
+  get paused(): boolean {
+    return this.snapshot.paused;
+  }
+
+  get buffered(): TimeRanges {
+    const ranges = this.snapshot.buffered;
+    return {
+      length: ranges.length,
+      start: (index: number) => ranges[index][0],
+      end: (index: number) => ranges[index][1],
+    };
+  }
+
+  load(): void {
+    // The MediaSource is attached through its handle on the main thread
+  }
+
+  play(): Promise<void> {
+    this.requestPlay();
+    return Promise.resolve();
+  }
+
+  addEventListener(type: 'timeupdate' | 'waiting', listener: () => void): void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+  }
+
+  removeEventListener(type: 'timeupdate' | 'waiting', listener: () => void): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Applies a snapshot from the main thread and replays the event that triggered it
+   */
+  update(snapshot: MediaElementSnapshot, event?: 'timeupdate' | 'waiting'): void {
+    this.snapshot = snapshot;
+    if (!event) {
+      return;
+    }
+
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      listener();
+    }
+  }
+}